@@ -0,0 +1,92 @@
+import * as fabric from 'fabric';
+import { describe, expect, it } from 'vitest';
+import { Barcode, snapModuleSize } from './barcodeObject.js';
+
+describe('Barcode', () => {
+  it('sizes itself around the bars and the text below them', () => {
+    const barcode = new Barcode({ symbology: 'ean13', data: '590123412345', moduleWidth: 2, barHeight: 80 });
+
+    expect(barcode.error).toBeUndefined();
+    // 95 modules, text of 20 dots with a gap of 4
+    expect([barcode.width, barcode.height]).toEqual([190, 104]);
+    expect(barcode.getRects()[0]).toEqual({ x: 0, y: 0, width: 2, height: 80 });
+
+    barcode.set({ showText: false, moduleWidth: 1 });
+    expect([barcode.width, barcode.height]).toEqual([95, 80]);
+  });
+
+  it('keeps data that cannot be encoded with the error', () => {
+    const barcode = new Barcode({ symbology: 'ean13', data: '12AB', barHeight: 80 });
+
+    expect(barcode.error).toBe('EAN-13 needs 12 digits, or 13 with the check digit.');
+    expect(barcode.getRects()).toEqual([]);
+    expect([barcode.width, barcode.height]).toEqual([200, 80]);
+
+    barcode.set('data', '590123412345');
+    expect(barcode.error).toBeUndefined();
+  });
+
+  it('waits for merged data when the data has placeholders', () => {
+    const barcode = new Barcode({ symbology: 'ean13', data: '{{sku}}' });
+    expect(barcode.isTemplate).toBe(true);
+    expect(barcode.error).toBeUndefined();
+    expect(barcode.getRects()).toEqual([]);
+  });
+
+  it('reads GS1 data into elements for GS1-128', () => {
+    const barcode = new Barcode({ symbology: 'code128', data: '(01)09501101530003(10)AB1', gs1: true });
+    expect(barcode.getGs1Elements()).toEqual([
+      { ai: '01', value: '09501101530003' },
+      { ai: '10', value: 'AB1' },
+    ]);
+
+    barcode.set('data', '(01)09501101530004');
+    expect(barcode.error).toMatch(/check digit/);
+  });
+
+  it('serializes its barcode properties and is revived by type', async () => {
+    const barcode = new Barcode({
+      symbology: 'code39', data: 'ABC', moduleWidth: 3, ratio: 2.5, barHeight: 60, showText: false, left: 10,
+    });
+    const object = barcode.toObject();
+
+    expect(object).toMatchObject({
+      type: 'Barcode', symbology: 'code39', data: 'ABC', moduleWidth: 3, ratio: 2.5, barHeight: 60, showText: false,
+    });
+    const [revived] = await fabric.util.enlivenObjects<Barcode>([JSON.parse(JSON.stringify(object))]);
+    expect(revived).toBeInstanceOf(Barcode);
+    expect(revived).toMatchObject({ symbology: 'code39', data: 'ABC', ratio: 2.5, left: 10 });
+    expect(revived.getRects()).toEqual(barcode.getRects());
+  });
+});
+
+describe('snapModuleSize', () => {
+  it('rounds a module size to whole dots of at least one', () => {
+    expect(snapModuleSize(0.25, 203)).toBe(2);
+    expect(snapModuleSize(0.25, 300)).toBe(3);
+    expect(snapModuleSize(0.01, 203)).toBe(1);
+  });
+});
+
+describe('2D Barcode', () => {
+  it('draws modules without text and stretches PDF417 rows', () => {
+    const qr = new Barcode({ symbology: 'qrcode', data: 'HELLO', errorCorrection: 'L', moduleWidth: 2 });
+    expect([qr.width, qr.height]).toEqual([42, 42]);
+    expect(qr.getSymbolSize()).toEqual({ rows: 21, columns: 21 });
+
+    const pdf417 = new Barcode({ symbology: 'pdf417', data: 'PDF417 label', columns: 3, moduleWidth: 1 });
+    const { rows } = pdf417.getSymbolSize()!;
+    expect(pdf417.height).toBe(rows * 3);
+  });
+
+  it('keeps its error when the data does not fit and round trips its options', async () => {
+    const qr = new Barcode({ symbology: 'qrcode', data: 'x'.repeat(3000), errorCorrection: 'H' });
+    expect(qr.error).toMatch(/^QR Code: /);
+    expect([qr.width, qr.height]).toEqual([200, 200]);
+
+    const pdf417 = new Barcode({ symbology: 'pdf417', data: 'label', securityLevel: 4, columns: 2 });
+    const [revived] = await fabric.util.enlivenObjects<Barcode>([pdf417.toObject()]);
+    expect(revived).toMatchObject({ symbology: 'pdf417', securityLevel: 4, columns: 2 });
+    expect(revived.getSymbolSize()).toEqual(pdf417.getSymbolSize());
+  });
+});
@@ -0,0 +1,387 @@
+/**
+ * Define the barcode canvas object
+ */
+
+import * as fabric from 'fabric';
+import { hasPlaceholders } from '../dataMerge.js';
+import { toDots } from '../labelMedia.js';
+import {
+  BarcodeDataError,
+  encodeCode128,
+  fnc1,
+  linearSymbologies,
+  type LinearSymbologyName,
+} from './linear.js';
+import { formatGs1, gs1ElementString, parseGs1, type Gs1Element } from './gs1.js';
+import {
+  matrixSymbologies,
+  type MatrixEncoding,
+  type MatrixSymbologyName,
+  type QrErrorCorrection,
+} from './matrix.js';
+
+export type BarcodeSymbology = LinearSymbologyName | MatrixSymbologyName;
+
+export const barcodeSymbologies = { ...linearSymbologies, ...matrixSymbologies };
+
+/**
+ * Check whether a symbology is a 2D one
+ */
+export function isMatrixSymbology(symbology: BarcodeSymbology): symbology is MatrixSymbologyName {
+  return symbology in matrixSymbologies;
+}
+
+/** Symbologies that can carry GS1 element strings, as GS1-128 and GS1 DataMatrix. */
+export const gs1Symbologies: ReadonlyArray<BarcodeSymbology> = ['code128', 'datamatrix'];
+
+/**
+ * Snap a module size to whole printer dots
+ * @param {Number} size module size in millimeters
+ * @param {Number} dpi printhead resolution
+ */
+export function snapModuleSize(size: number, dpi: number) {
+  return Math.max(1, Math.round(toDots(size, 'mm', dpi)));
+}
+
+/** Properties that change how the barcode is drawn and how big it is. */
+const barcodeProps = [
+  'symbology',
+  'data',
+  'moduleWidth',
+  'ratio',
+  'barHeight',
+  'showText',
+  'errorCorrection',
+  'securityLevel',
+  'columns',
+  'gs1',
+] as const;
+
+export interface BarcodeProps {
+  symbology: BarcodeSymbology;
+  data: string;
+  /** Width of the narrowest bar or of a 2D module, in printer dots. */
+  moduleWidth: number;
+  /** Width of wide elements compared to narrow ones, for Code 39 and ITF-14. */
+  ratio: number;
+  /** Height of the bars of a linear barcode, in printer dots. */
+  barHeight: number;
+  /** Print the human readable text under a linear barcode. */
+  showText: boolean;
+  /** QR Code error correction level. */
+  errorCorrection: QrErrorCorrection;
+  /** PDF417 error correction level, 0 to 8. */
+  securityLevel: number;
+  /** PDF417 data columns, 0 to pick them from the data length. */
+  columns: number;
+  /**
+   * Data is a GS1 element string with bracketed AIs, e.g. (01)09501101530003(17)250101,
+   * for symbologies in gs1Symbologies.
+   */
+  gs1: boolean;
+}
+
+export interface BarcodeObjectProps extends fabric.FabricObjectProps, BarcodeProps { }
+
+export interface SerializedBarcodeProps extends fabric.SerializedObjectProps, BarcodeProps { }
+
+const barcodeDefaults: BarcodeProps = {
+  symbology: 'code128',
+  data: '1234567890',
+  moduleWidth: 2,
+  ratio: 3,
+  barHeight: 100,
+  showText: true,
+  errorCorrection: 'M',
+  securityLevel: 2,
+  columns: 0,
+  gs1: false,
+};
+
+/** Width given to a barcode whose data can't be encoded, in dots. */
+const errorWidth = 200;
+
+/** A dark area of the symbol from its top left, in dots. */
+interface BarcodeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Barcode drawn with whole printer dots, so it scans the same on screen and on
+ * the label. Resize it through its module width and bar height, not by scaling.
+ */
+export class Barcode<
+  Props extends fabric.TOptions<BarcodeObjectProps> = Partial<BarcodeObjectProps>,
+  SProps extends SerializedBarcodeProps = SerializedBarcodeProps,
+  EventSpec extends fabric.ObjectEvents = fabric.ObjectEvents,
+> extends fabric.FabricObject<Props, SProps, EventSpec> implements BarcodeProps {
+  declare symbology: BarcodeSymbology;
+  declare data: string;
+  declare moduleWidth: number;
+  declare ratio: number;
+  declare barHeight: number;
+  declare showText: boolean;
+  declare errorCorrection: QrErrorCorrection;
+  declare securityLevel: number;
+  declare columns: number;
+  declare gs1: boolean;
+
+  /** Why the data can't be encoded, if it can't. */
+  declare error: string | undefined;
+  /** The data has {{field}} placeholders, so it is only encoded once merged. */
+  declare isTemplate: boolean;
+
+  private rects: BarcodeRect[] = [];
+  private text = '';
+  private matrix: MatrixEncoding | undefined;
+  private elements: Gs1Element[] | undefined;
+
+  static override type = 'Barcode';
+
+  static override ownDefaults = {
+    ...barcodeDefaults,
+    fill: '#000000',
+    stroke: null,
+    strokeWidth: 0,
+    objectCaching: false,
+    lockScalingX: true,
+    lockScalingY: true,
+    lockSkewingX: true,
+    lockSkewingY: true,
+  };
+
+  static override getDefaults(): Record<string, unknown> {
+    return {
+      ...super.getDefaults(),
+      ...Barcode.ownDefaults,
+    };
+  }
+
+  constructor(options?: Props) {
+    super();
+    Object.assign(this, Barcode.ownDefaults);
+    this.setOptions(options);
+    this.setControlsVisibility({ tl: false, tr: false, bl: false, br: false, ml: false, mr: false, mt: false, mb: false });
+    this.layout();
+  }
+
+  override _set(key: string, value: unknown) {
+    super._set(key, value);
+    if ((barcodeProps as ReadonlyArray<string>).includes(key)) {
+      this.layout();
+    }
+    return this;
+  }
+
+  /** Font size of the human readable text, in dots. */
+  get textSize() {
+    return Math.max(10, Math.round(this.moduleWidth * 10));
+  }
+
+  private get textGap() {
+    return Math.round(this.textSize / 5);
+  }
+
+  /** Whether the human readable text is drawn. */
+  private get hasText() {
+    return this.showText && !isMatrixSymbology(this.symbology);
+  }
+
+  /**
+   * Get the GS1 elements the data is made of, when it is a GS1 barcode
+   */
+  getGs1Elements(): ReadonlyArray<Gs1Element> | undefined {
+    return this.elements;
+  }
+
+  /**
+   * Get the rows and columns of a 2D symbol as the symbology counts them
+   */
+  getSymbolSize() {
+    return this.matrix === undefined
+      ? undefined
+      : { rows: this.matrix.rows, columns: this.matrix.columns };
+  }
+
+  /**
+   * Encode the data and size the object around the symbol
+   */
+  layout() {
+    const moduleWidth = Math.max(1, Math.round(this.moduleWidth ?? 1));
+    const symbology = this.symbology;
+    this.rects = [];
+    this.text = '';
+    this.matrix = undefined;
+    this.elements = undefined;
+    this.error = undefined;
+    this.isTemplate = hasPlaceholders(this.data ?? '');
+    if (this.isTemplate) {
+      this.layoutPlaceholder(symbology);
+      return;
+    }
+
+    try {
+      if (this.gs1 && gs1Symbologies.includes(symbology)) {
+        this.elements = parseGs1(this.data ?? '');
+      }
+      if (isMatrixSymbology(symbology)) {
+        this.layoutMatrix(symbology, moduleWidth);
+      } else if (symbology in linearSymbologies) {
+        this.layoutLinear(symbology, moduleWidth);
+      } else {
+        this.error = `Unknown symbology ${symbology}.`;
+      }
+    } catch (e) {
+      if (!(e instanceof BarcodeDataError)) { throw e; }
+      this.error = e.message;
+    }
+
+    if (this.error !== undefined) {
+      this.rects = [];
+      this.width = errorWidth;
+      this.height = isMatrixSymbology(symbology) ? errorWidth : Math.round(this.barHeight);
+    }
+    this.dirty = true;
+  }
+
+  /**
+   * Size a template barcode like the symbol it will most likely print
+   */
+  private layoutPlaceholder(symbology: BarcodeSymbology) {
+    this.width = errorWidth;
+    this.height = isMatrixSymbology(symbology)
+      ? errorWidth
+      : Math.round(this.barHeight) + (this.hasText ? this.textSize + this.textGap : 0);
+    this.dirty = true;
+  }
+
+  private layoutLinear(symbology: LinearSymbologyName, moduleWidth: number) {
+    // GS1-128 starts with FNC1 and separates variable length fields with it
+    const encoding = this.elements === undefined
+      ? linearSymbologies[symbology].encode(this.data ?? '', this.ratio)
+      : { ...encodeCode128(fnc1 + gs1ElementString(this.elements, fnc1)), text: formatGs1(this.elements, ' ') };
+    const barHeight = Math.round(this.barHeight);
+    let x = 0;
+    encoding.bars.forEach((modules, i) => {
+      const width = Math.max(1, Math.round(modules * moduleWidth));
+      if (i % 2 === 0) { this.rects.push({ x, y: 0, width, height: barHeight }); }
+      x += width;
+    });
+
+    this.text = encoding.text;
+    this.width = x;
+    this.height = barHeight + (this.hasText ? this.textSize + this.textGap : 0);
+  }
+
+  private layoutMatrix(symbology: MatrixSymbologyName, moduleWidth: number) {
+    const { rowHeight, encode } = matrixSymbologies[symbology];
+    const data = this.elements === undefined ? this.data ?? '' : formatGs1(this.elements);
+    const matrix = encode(data, {
+      errorCorrection: this.errorCorrection,
+      securityLevel: this.securityLevel,
+      columns: this.columns,
+      gs1: this.elements !== undefined,
+    });
+    const moduleHeight = moduleWidth * rowHeight;
+
+    // one rectangle per run of dark modules in a row
+    for (let row = 0; row < matrix.height; row++) {
+      let column = 0;
+      while (column < matrix.width) {
+        if (!matrix.modules[row * matrix.width + column]) { column++; continue; }
+        const start = column;
+        while (column < matrix.width && matrix.modules[row * matrix.width + column]) { column++; }
+        this.rects.push({
+          x: start * moduleWidth,
+          y: row * moduleHeight,
+          width: (column - start) * moduleWidth,
+          height: moduleHeight,
+        });
+      }
+    }
+
+    this.matrix = matrix;
+    this.width = matrix.width * moduleWidth;
+    this.height = matrix.height * moduleHeight;
+  }
+
+  /**
+   * Get the dark areas of the symbol from the top left of the object
+   */
+  getRects(): ReadonlyArray<BarcodeRect> {
+    return this.rects;
+  }
+
+  override _render(ctx: CanvasRenderingContext2D) {
+    const left = -this.width / 2;
+    const top = -this.height / 2;
+
+    if (this.isTemplate) {
+      ctx.save();
+      ctx.strokeStyle = '#666';
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(left + 0.5, top + 0.5, this.width - 1, this.height - 1);
+      ctx.fillStyle = '#666';
+      ctx.font = '14px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(this.data, 0, 0, this.width - 8);
+      ctx.restore();
+      return;
+    }
+
+    if (this.error !== undefined) {
+      ctx.save();
+      ctx.strokeStyle = '#d00';
+      ctx.setLineDash([6, 4]);
+      ctx.strokeRect(left + 0.5, top + 0.5, this.width - 1, this.height - 1);
+      ctx.fillStyle = '#d00';
+      ctx.font = '14px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText('Invalid barcode', 0, 0, this.width - 8);
+      ctx.restore();
+      return;
+    }
+
+    ctx.fillStyle = typeof this.fill === 'string' ? this.fill : '#000000';
+    this.rects.forEach(r => ctx.fillRect(left + r.x, top + r.y, r.width, r.height));
+
+    if (this.hasText) {
+      ctx.font = `${this.textSize}px monospace`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'top';
+      ctx.fillText(this.text, 0, top + Math.round(this.barHeight) + this.textGap, this.width);
+    }
+  }
+
+  override _toSVG() {
+    const left = -this.width / 2;
+    const top = -this.height / 2;
+    const path = this.rects
+      .map(r => `M${left + r.x} ${top + r.y}h${r.width}v${r.height}h${-r.width}z`)
+      .join('');
+    const markup = ['<g ', 'COMMON_PARTS', '>\n', `<path d="${path}" />\n`];
+    if (this.hasText && this.text !== '') {
+      markup.push(
+        `<text x="0" y="${top + Math.round(this.barHeight) + this.textGap + this.textSize}" `
+        + `font-family="monospace" font-size="${this.textSize}" text-anchor="middle">`
+        + `${fabric.util.string.escapeXml(this.text)}</text>\n`
+      );
+    }
+    markup.push('</g>\n');
+    return markup;
+  }
+
+  override toObject<
+    T extends Omit<Props & fabric.TClassProperties<this>, keyof SProps>,
+    K extends keyof T = never,
+  >(propertiesToInclude: K[] = []): Pick<T, K> & SProps {
+    return super.toObject([...barcodeProps, ...propertiesToInclude]);
+  }
+}
+
+fabric.classRegistry.setClass(Barcode);
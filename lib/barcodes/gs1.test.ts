@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { gs1ElementString, parseGs1, parseGs1ElementString } from './gs1.js';
+import { BarcodeDataError } from './linear.js';
+
+describe('GS1 expiry time (7003)', () => {
+  it('takes exactly 10 digits', () => {
+    expect(parseGs1('(7003)2501311230')).toEqual([{ ai: '7003', value: '2501311230' }]);
+    expect(() => parseGs1('(7003)25013112')).toThrow(BarcodeDataError);
+    expect(() => parseGs1('(7003)250131123000')).toThrow(BarcodeDataError);
+  });
+
+  it('keeps FNC1 after it, 70 is not a predefined length prefix', () => {
+    const elements = parseGs1('(7003)2501311230(10)AB1');
+    expect(gs1ElementString(elements, '|')).toBe('70032501311230|10AB1');
+  });
+
+  it('reads its value by length from an element string', () => {
+    expect(parseGs1ElementString('7003250131123010AB1', '|')).toEqual([
+      { ai: '7003', value: '2501311230' },
+      { ai: '10', value: 'AB1' },
+    ]);
+  });
+});
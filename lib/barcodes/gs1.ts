@@ -0,0 +1,235 @@
+/**
+ * Define GS1 Application Identifiers and build GS1 element strings
+ */
+
+import { BarcodeDataError, gs1CheckDigit } from './linear.js';
+
+/** One Application Identifier and its value, e.g. (01) and a GTIN. */
+export interface Gs1Element {
+  ai: string;
+  value: string;
+}
+
+/**
+ * Format of the value that follows an Application Identifier
+ */
+export interface Gs1ApplicationIdentifier {
+  ai: string;
+  /** Data title from the GS1 General Specifications, e.g. GTIN. */
+  title: string;
+  /** Numeric only, or any of the 82 GS1 characters. */
+  format: 'n' | 'an';
+  /** Length of the value, or its maximum when it is not fixed. */
+  length: number;
+  fixed: boolean;
+  /** The last digit is a GS1 modulo 10 check digit. */
+  checkDigit?: boolean;
+  /** The value is a YYMMDD date. */
+  date?: boolean;
+}
+
+function fixed(ai: string, title: string, length: number, extra: Partial<Gs1ApplicationIdentifier> = {}) {
+  return { ai, title, format: 'n', length, fixed: true, ...extra } as Gs1ApplicationIdentifier;
+}
+
+function variable(ai: string, title: string, format: 'n' | 'an', length: number) {
+  return { ai, title, format, length, fixed: false } as Gs1ApplicationIdentifier;
+}
+
+/**
+ * Trade measures with the decimal point position as the last AI digit
+ */
+function measures(prefix: string, title: string) {
+  return [0, 1, 2, 3, 4, 5].map(d => fixed(`${prefix}${d}`, title, 6));
+}
+
+/** The Application Identifiers used on logistic and trade item labels. */
+export const gs1ApplicationIdentifiers: ReadonlyArray<Gs1ApplicationIdentifier> = [
+  fixed('00', 'SSCC', 18, { checkDigit: true }),
+  fixed('01', 'GTIN', 14, { checkDigit: true }),
+  fixed('02', 'CONTENT', 14, { checkDigit: true }),
+  variable('10', 'BATCH/LOT', 'an', 20),
+  fixed('11', 'PROD DATE', 6, { date: true }),
+  fixed('12', 'DUE DATE', 6, { date: true }),
+  fixed('13', 'PACK DATE', 6, { date: true }),
+  fixed('15', 'BEST BEFORE', 6, { date: true }),
+  fixed('16', 'SELL BY', 6, { date: true }),
+  fixed('17', 'USE BY OR EXPIRY', 6, { date: true }),
+  fixed('20', 'VARIANT', 2),
+  variable('21', 'SERIAL', 'an', 20),
+  variable('22', 'CPV', 'an', 20),
+  variable('235', 'TPX', 'an', 28),
+  variable('240', 'ADDITIONAL ID', 'an', 30),
+  variable('241', 'CUST. PART No.', 'an', 30),
+  variable('250', 'SECONDARY SERIAL', 'an', 30),
+  variable('30', 'VAR. COUNT', 'n', 8),
+  ...measures('310', 'NET WEIGHT (kg)'),
+  ...measures('311', 'LENGTH (m)'),
+  ...measures('320', 'NET WEIGHT (lb)'),
+  ...measures('330', 'GROSS WEIGHT (kg)'),
+  variable('37', 'COUNT', 'n', 8),
+  variable('400', 'ORDER NUMBER', 'an', 30),
+  variable('401', 'GINC', 'an', 30),
+  fixed('402', 'GSIN', 17, { checkDigit: true }),
+  variable('403', 'ROUTE', 'an', 30),
+  fixed('410', 'SHIP TO LOC', 13, { checkDigit: true }),
+  fixed('411', 'BILL TO', 13, { checkDigit: true }),
+  fixed('412', 'PURCHASE FROM', 13, { checkDigit: true }),
+  fixed('413', 'SHIP FOR LOC', 13, { checkDigit: true }),
+  fixed('414', 'LOC No.', 13, { checkDigit: true }),
+  fixed('415', 'PAY TO', 13, { checkDigit: true }),
+  variable('420', 'SHIP TO POST', 'an', 20),
+  fixed('7003', 'EXPIRY TIME', 10),
+  variable('90', 'INTERNAL', 'an', 30),
+  ...['91', '92', '93', '94', '95', '96', '97', '98', '99'].map(ai => variable(ai, 'INTERNAL', 'an', 90)),
+];
+
+/**
+ * AIs starting with these digits have a length set by the GS1 specification,
+ * so no FNC1 separator follows them even when the value isn't the last one
+ */
+const predefinedLengthPrefixes = [
+  '00', '01', '02', '03', '04', '11', '12', '13', '14', '15', '16', '17', '18', '19', '20',
+  '31', '32', '33', '34', '35', '36', '41',
+];
+
+/** GS1 AI encodable character set 82. */
+const gs1Characters = /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]*$/;
+
+/**
+ * Look up an Application Identifier
+ * @param {String} ai the AI digits, e.g. 01
+ */
+export function findApplicationIdentifier(ai: string) {
+  return gs1ApplicationIdentifiers.find(a => a.ai === ai);
+}
+
+function isValidDate(value: string) {
+  const month = Number(value.substring(2, 4));
+  const day = Number(value.substring(4, 6));
+  if (month < 1 || month > 12) { return false; }
+  // day 00 stands for the last day of the month
+  const year = 2000 + Number(value.substring(0, 2));
+  return day <= new Date(year, month, 0).getDate();
+}
+
+/**
+ * Check an element against the format of its Application Identifier
+ * @param {Object} element AI and value
+ * @throws {BarcodeDataError} when the value doesn't fit the AI
+ */
+export function validateGs1Element(element: Gs1Element) {
+  const definition = findApplicationIdentifier(element.ai);
+  const { value } = element;
+  const label = `(${element.ai})`;
+  if (definition === undefined) {
+    throw new BarcodeDataError(`${label} is not a known Application Identifier.`);
+  }
+  if (value.length === 0) {
+    throw new BarcodeDataError(`${label} ${definition.title} needs a value.`);
+  }
+  if (definition.fixed && value.length !== definition.length) {
+    throw new BarcodeDataError(`${label} ${definition.title} needs ${definition.length} digits.`);
+  }
+  if (value.length > definition.length) {
+    throw new BarcodeDataError(`${label} ${definition.title} takes at most ${definition.length} characters.`);
+  }
+  if (definition.format === 'n' && !/^\d+$/.test(value)) {
+    throw new BarcodeDataError(`${label} ${definition.title} takes digits only.`);
+  }
+  if (!gs1Characters.test(value)) {
+    throw new BarcodeDataError(`${label} ${definition.title} has characters GS1 doesn't allow.`);
+  }
+  if (definition.checkDigit) {
+    const expected = gs1CheckDigit(value.substring(0, value.length - 1));
+    if (value[value.length - 1] !== expected.toString()) {
+      throw new BarcodeDataError(`${label} ${definition.title} check digit should be ${expected}.`);
+    }
+  }
+  if (definition.date && !isValidDate(value)) {
+    throw new BarcodeDataError(`${label} ${definition.title} is not a valid YYMMDD date.`);
+  }
+}
+
+/**
+ * Split an element string written with bracketed AIs without checking the values
+ * @param {String} text element string, e.g. (01)09501101530003(10)AB1
+ * @returns the elements, or undefined if the text doesn't start with a known AI
+ */
+export function splitGs1(text: string): Gs1Element[] | undefined {
+  // a bracket starts a new AI only when a known one follows, values may hold brackets
+  const starts = [...text.matchAll(/\((\d{2,4})\)/g)]
+    .filter(m => findApplicationIdentifier(m[1]) !== undefined);
+  if (starts.length === 0 || starts[0].index !== 0) { return undefined; }
+
+  return starts.map((match, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].index : text.length;
+    return { ai: match[1], value: text.substring(match.index + match[0].length, end) };
+  });
+}
+
+/**
+ * Read an element string written with bracketed AIs and check its values
+ * @param {String} text element string, e.g. (01)09501101530003(10)AB1
+ * @throws {BarcodeDataError} when an element is missing or invalid
+ */
+export function parseGs1(text: string): Gs1Element[] {
+  const elements = splitGs1(text);
+  if (elements === undefined) {
+    throw new BarcodeDataError('GS1 data must start with an Application Identifier in brackets, e.g. (01).');
+  }
+  elements.forEach(validateGs1Element);
+  return elements;
+}
+
+/**
+ * Read an element string with separators between its fields, as printers take it
+ * @param {String} text element string without a leading FNC1
+ * @param {String} separator FNC1 as written in the data
+ * @throws {BarcodeDataError} when an AI is unknown or an element invalid
+ */
+export function parseGs1ElementString(text: string, separator: string): Gs1Element[] {
+  const elements: Gs1Element[] = [];
+  let i = 0;
+  while (i < text.length) {
+    // AIs are prefix-free, so the first match is the only one
+    const definition = [2, 3, 4]
+      .map(n => findApplicationIdentifier(text.substring(i, i + n)))
+      .find(d => d !== undefined);
+    if (definition === undefined) {
+      throw new BarcodeDataError(`Unknown Application Identifier at '${text.substring(i, i + 4)}'.`);
+    }
+    i += definition.ai.length;
+
+    let end = definition.fixed ? i + definition.length : text.indexOf(separator, i);
+    if (end < 0) { end = text.length; }
+    elements.push({ ai: definition.ai, value: text.substring(i, end) });
+    i = end;
+    if (text.startsWith(separator, i)) { i += separator.length; }
+  }
+
+  elements.forEach(validateGs1Element);
+  return elements;
+}
+
+/**
+ * Write elements with bracketed AIs, the form the editor stores
+ * @param {Array} elements AI and value pairs
+ * @param {String} between text between elements, a space for human readable text
+ */
+export function formatGs1(elements: ReadonlyArray<Gs1Element>, between = '') {
+  return elements.map(e => `(${e.ai})${e.value}`).join(between);
+}
+
+/**
+ * Write elements as one string, with a separator after variable length values
+ * @param {Array} elements AI and value pairs
+ * @param {String} separator FNC1 as the target symbology or printer writes it
+ */
+export function gs1ElementString(elements: ReadonlyArray<Gs1Element>, separator: string) {
+  return elements.map((e, i) => {
+    const last = i === elements.length - 1;
+    const predefined = predefinedLengthPrefixes.includes(e.ai.substring(0, 2));
+    return e.ai + e.value + (last || predefined ? '' : separator);
+  }).join('');
+}
@@ -0,0 +1,4 @@
+export * from './linear.js';
+export * from './matrix.js';
+export * from './gs1.js';
+export * from './barcodeObject.js';
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BarcodeDataError,
+  encodeCode128,
+  encodeCode39,
+  encodeEan13,
+  encodeItf14,
+  encodeUpcA,
+  fnc1,
+  gs1CheckDigit,
+} from './linear.js';
+
+const modules = (bars: number[]) => bars.reduce((sum, width) => sum + width, 0);
+
+/** Bar and space widths of each Code 128 symbol, the stop symbol has seven. */
+function code128Symbols(bars: number[]) {
+  const symbols: string[] = [];
+  for (let i = 0; i < bars.length - 7; i += 6) {
+    symbols.push(bars.slice(i, i + 6).join(''));
+  }
+  symbols.push(bars.slice(-7).join(''));
+  return symbols;
+}
+
+describe('GS1 check digits', () => {
+  it('computes the modulo 10 check digit', () => {
+    expect(gs1CheckDigit('590123412345')).toBe('7');
+    expect(gs1CheckDigit('03600029145')).toBe('2');
+    expect(gs1CheckDigit('1540014128876')).toBe('3');
+  });
+
+  it('adds a left off check digit and accepts a correct one', () => {
+    expect(encodeEan13('590123412345').text).toBe('5901234123457');
+    expect(encodeEan13('5901234123457').text).toBe('5901234123457');
+    expect(encodeUpcA('03600029145').text).toBe('036000291452');
+    expect(encodeItf14('1540014128876').text).toBe('15400141288763');
+  });
+
+  it('rejects a wrong check digit, length or characters', () => {
+    expect(() => encodeEan13('5901234123458')).toThrow(new BarcodeDataError('EAN-13 check digit should be 7.'));
+    expect(() => encodeUpcA('0360002914')).toThrow('UPC-A needs 11 digits, or 12 with the check digit.');
+    expect(() => encodeItf14('154001412887A')).toThrow(BarcodeDataError);
+  });
+});
+
+describe('EAN-13 and UPC-A', () => {
+  it('draws 95 modules with guard bars', () => {
+    const { bars } = encodeEan13('590123412345');
+    expect(modules(bars)).toBe(95);
+    expect(bars.slice(0, 3)).toEqual([1, 1, 1]);
+    expect(bars.slice(-3)).toEqual([1, 1, 1]);
+  });
+
+  it('draws UPC-A as EAN-13 with a leading zero', () => {
+    expect(encodeUpcA('036000291452').bars).toEqual(encodeEan13('0036000291452').bars);
+  });
+});
+
+describe('ITF-14', () => {
+  it('interleaves digit pairs between start and stop patterns', () => {
+    const { bars } = encodeItf14('15400141288763', 2);
+    expect(bars.slice(0, 4)).toEqual([1, 1, 1, 1]);
+    expect(bars.slice(-3)).toEqual([2, 1, 1]);
+    // two wide and three narrow elements for each digit
+    expect(modules(bars)).toBe(4 + 14 * 7 + 4);
+  });
+});
+
+describe('Code 39', () => {
+  it('wraps the data in * and appends the modulo 43 check character', () => {
+    expect(encodeCode39('CODE39').text).toBe('*CODE39*');
+    expect(encodeCode39('CODE39', 3, true).text).toBe('*CODE39W*');
+  });
+
+  it('draws three wide elements per character with the wide ratio', () => {
+    const { bars } = encodeCode39('A', 2.5);
+    // *, A and * of nine elements, with a narrow gap between them
+    expect(bars).toHaveLength(29);
+    expect(bars.slice(0, 9)).toEqual([1, 2.5, 1, 1, 2.5, 1, 2.5, 1, 1]);
+    expect(bars.filter(w => w === 2.5)).toHaveLength(9);
+  });
+
+  it('rejects characters outside its set', () => {
+    expect(() => encodeCode39('')).toThrow(BarcodeDataError);
+    expect(() => encodeCode39('abc')).toThrow("Code 39 can't encode 'a'");
+  });
+});
+
+describe('Code 128', () => {
+  it('packs digits in code set C with the checksum', () => {
+    // start C, 12, 34, checksum 82 and stop
+    expect(code128Symbols(encodeCode128('1234').bars))
+      .toEqual(['211232', '112232', '131123', '121241', '2331112']);
+  });
+
+  it('switches to code set C for a run of digits only when it pays off', () => {
+    // start B, A, B, code C, 12, 34
+    expect(code128Symbols(encodeCode128('AB1234').bars)).toHaveLength(8);
+    // start B, A, B, 1, 2
+    expect(code128Symbols(encodeCode128('AB12').bars)).toHaveLength(7);
+  });
+
+  it('encodes FNC1 and leaves it out of the text', () => {
+    const { bars, text } = encodeCode128(`${fnc1}0109501101530003`);
+    const symbols = code128Symbols(bars);
+    expect(symbols.slice(0, 2)).toEqual(['211232', '411131']);
+    expect(text).toBe('0109501101530003');
+  });
+
+  it('shifts for a single control character in code set B', () => {
+    expect(code128Symbols(encodeCode128('ab\tcd').bars)).toHaveLength(9);
+  });
+
+  it('rejects empty data and characters beyond ASCII', () => {
+    expect(() => encodeCode128('')).toThrow(BarcodeDataError);
+    expect(() => encodeCode128('Größe')).toThrow("Code 128 can't encode 'ö'.");
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Define encoders for linear (1D) barcode symbologies
+ */
+
+export class BarcodeDataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BarcodeDataError';
+  }
+}
+
+/**
+ * Bar and space widths in modules, starting with a bar, and the human
+ * readable text printed under the symbol.
+ */
+export interface LinearEncoding {
+  bars: number[];
+  text: string;
+}
+
+/** Function 1 in Code 128 data, used by GS1-128 to separate fields. */
+export const fnc1 = 'ñ';
+
+const code128Patterns = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const code128 = {
+  shift: 98,
+  codeC: 99,
+  codeB: 100,
+  codeA: 101,
+  fnc1: 102,
+  startA: 103,
+  startB: 104,
+  startC: 105,
+  stop: 106,
+} as const;
+
+type Code128Set = 'A' | 'B' | 'C';
+
+function isDigit(c: string | undefined) {
+  return c !== undefined && c >= '0' && c <= '9';
+}
+
+/**
+ * Count digits from a position
+ */
+function digitRun(data: string, from: number) {
+  let run = 0;
+  while (isDigit(data[from + run])) { run++; }
+  return run;
+}
+
+function inSetA(c: string) {
+  return c === fnc1 || c.charCodeAt(0) < 96;
+}
+
+function inSetB(c: string) {
+  return c === fnc1 || (c.charCodeAt(0) >= 32 && c.charCodeAt(0) < 128);
+}
+
+function valueInSet(c: string, set: 'A' | 'B') {
+  if (c === fnc1) { return code128.fnc1; }
+  const code = c.charCodeAt(0);
+  return set === 'A' && code < 32 ? code + 64 : code - 32;
+}
+
+/**
+ * Encode Code 128, switching code sets to keep the symbol short
+ * @param {String} data ASCII text, FNC1 written as the fnc1 character
+ */
+export function encodeCode128(data: string): LinearEncoding {
+  if (data.length === 0) {
+    throw new BarcodeDataError('Code 128 needs at least one character.');
+  }
+  const invalid = [...data].find(c => c !== fnc1 && c.charCodeAt(0) > 127);
+  if (invalid !== undefined) {
+    throw new BarcodeDataError(`Code 128 can't encode '${invalid}'.`);
+  }
+
+  const values: number[] = [];
+  let set: Code128Set;
+
+  // start in C for a leading run of digits worth packing, after any FNC1
+  const skip = data[0] === fnc1 ? 1 : 0;
+  const leading = digitRun(data, skip);
+  if (leading >= 4 || (leading >= 2 && leading === data.length - skip)) {
+    set = 'C';
+    values.push(code128.startC);
+  } else {
+    const firstControl = [...data].findIndex(c => c !== fnc1 && c.charCodeAt(0) < 32);
+    const firstLower = [...data].findIndex(c => c.charCodeAt(0) >= 96);
+    set = firstControl >= 0 && (firstLower < 0 || firstControl < firstLower) ? 'A' : 'B';
+    values.push(set === 'A' ? code128.startA : code128.startB);
+  }
+
+  let i = 0;
+  while (i < data.length) {
+    const c = data[i];
+
+    if (set === 'C') {
+      if (c === fnc1) {
+        values.push(code128.fnc1);
+        i++;
+      } else if (digitRun(data, i) >= 2) {
+        values.push(Number(data.substring(i, i + 2)));
+        i += 2;
+      } else {
+        set = inSetB(c) ? 'B' : 'A';
+        values.push(set === 'B' ? code128.codeB : code128.codeA);
+      }
+      continue;
+    }
+
+    // pack an even run of digits into code set C when it pays off
+    const run = digitRun(data, i);
+    const atEnd = i + run === data.length;
+    if (run >= 4 && (run % 2 === 0 || !atEnd) && (atEnd || run >= 6)) {
+      if (run % 2 === 1) {
+        values.push(valueInSet(c, set));
+        i++;
+      }
+      set = 'C';
+      values.push(code128.codeC);
+      continue;
+    }
+
+    const fits = set === 'A' ? inSetA(c) : inSetB(c);
+    if (fits) {
+      values.push(valueInSet(c, set));
+      i++;
+      continue;
+    }
+
+    // shift for a single character, otherwise latch the other set
+    const other: 'A' | 'B' = set === 'A' ? 'B' : 'A';
+    const next = data[i + 1];
+    if (next !== undefined && (set === 'A' ? inSetA(next) : inSetB(next))) {
+      values.push(code128.shift, valueInSet(c, other));
+      i++;
+    } else {
+      set = other;
+      values.push(set === 'A' ? code128.codeA : code128.codeB);
+    }
+  }
+
+  const checksum = values.reduce((sum, v, index) => sum + v * Math.max(1, index), 0) % 103;
+  values.push(checksum, code128.stop);
+
+  return {
+    bars: values.flatMap(v => [...code128Patterns[v]].map(Number)),
+    text: data.replaceAll(fnc1, ''),
+  };
+}
+
+const code39Chars = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%';
+const code39Patterns: Record<string, string> = {
+  '0': '000110100', '1': '100100001', '2': '001100001', '3': '101100000', '4': '000110001',
+  '5': '100110000', '6': '001110000', '7': '000100101', '8': '100100100', '9': '001100100',
+  'A': '100001001', 'B': '001001001', 'C': '101001000', 'D': '000011001', 'E': '100011000',
+  'F': '001011000', 'G': '000001101', 'H': '100001100', 'I': '001001100', 'J': '000011100',
+  'K': '100000011', 'L': '001000011', 'M': '101000010', 'N': '000010011', 'O': '100010010',
+  'P': '001010010', 'Q': '000000111', 'R': '100000110', 'S': '001000110', 'T': '000010110',
+  'U': '110000001', 'V': '011000001', 'W': '111000000', 'X': '010010001', 'Y': '110010000',
+  'Z': '011010000', '-': '010000101', '.': '110000100', ' ': '011000100', '$': '010101000',
+  '/': '010100010', '+': '010001010', '%': '000101010', '*': '010010100',
+};
+
+/**
+ * Encode Code 39 with * start and stop characters
+ * @param {String} data digits, upper case letters and - . space $ / + %
+ * @param {Number} ratio width of wide elements in modules
+ * @param {Boolean} checkDigit append the modulo 43 check character
+ */
+export function encodeCode39(data: string, ratio = 3, checkDigit = false): LinearEncoding {
+  if (data.length === 0) {
+    throw new BarcodeDataError('Code 39 needs at least one character.');
+  }
+  const invalid = [...data].find(c => !code39Chars.includes(c));
+  if (invalid !== undefined) {
+    throw new BarcodeDataError(`Code 39 can't encode '${invalid}', only 0-9, A-Z and - . space $ / + %.`);
+  }
+
+  let content = data;
+  if (checkDigit) {
+    const sum = [...data].reduce((s, c) => s + code39Chars.indexOf(c), 0);
+    content += code39Chars[sum % 43];
+  }
+
+  const bars: number[] = [];
+  [...`*${content}*`].forEach((c, i) => {
+    // narrow gap between characters
+    if (i > 0) { bars.push(1); }
+    bars.push(...[...code39Patterns[c]].map(w => w === '1' ? ratio : 1));
+  });
+
+  return { bars, text: `*${content}*` };
+}
+
+/**
+ * Compute the GS1 modulo 10 check digit
+ * @param {String} digits digits without the check digit
+ */
+export function gs1CheckDigit(digits: string) {
+  const sum = [...digits].reverse()
+    .reduce((s, d, i) => s + Number(d) * (i % 2 === 0 ? 3 : 1), 0);
+  return String((10 - sum % 10) % 10);
+}
+
+/**
+ * Check the length and check digit of a GS1 number, adding the check digit
+ * when it is left off
+ */
+function completeGs1Number(name: string, data: string, length: number) {
+  if (!/^\d+$/.test(data) || (data.length !== length && data.length !== length - 1)) {
+    throw new BarcodeDataError(`${name} needs ${length - 1} digits, or ${length} with the check digit.`);
+  }
+
+  const body = data.substring(0, length - 1);
+  const check = gs1CheckDigit(body);
+  if (data.length === length && data[length - 1] !== check) {
+    throw new BarcodeDataError(`${name} check digit should be ${check}.`);
+  }
+  return body + check;
+}
+
+const eanL = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const eanG = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const eanR = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+const eanParity = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+/**
+ * Turn a string of module colors into bar and space widths
+ */
+function modulesToBars(modules: string) {
+  const bars: number[] = [];
+  let run = 0;
+  for (let i = 0; i < modules.length; i++) {
+    run++;
+    if (modules[i] !== modules[i + 1]) {
+      bars.push(run);
+      run = 0;
+    }
+  }
+  return bars;
+}
+
+function encodeEanModules(digits: string) {
+  const parity = eanParity[Number(digits[0])];
+  let modules = '101';
+  for (let i = 1; i <= 6; i++) {
+    const d = Number(digits[i]);
+    modules += parity[i - 1] === 'L' ? eanL[d] : eanG[d];
+  }
+  modules += '01010';
+  for (let i = 7; i <= 12; i++) {
+    modules += eanR[Number(digits[i])];
+  }
+  return modules + '101';
+}
+
+/**
+ * Encode EAN-13
+ * @param {String} data 12 digits, or 13 with the check digit
+ */
+export function encodeEan13(data: string): LinearEncoding {
+  const digits = completeGs1Number('EAN-13', data, 13);
+  return { bars: modulesToBars(encodeEanModules(digits)), text: digits };
+}
+
+/**
+ * Encode UPC-A, which is EAN-13 with a leading zero
+ * @param {String} data 11 digits, or 12 with the check digit
+ */
+export function encodeUpcA(data: string): LinearEncoding {
+  const digits = completeGs1Number('UPC-A', data, 12);
+  return { bars: modulesToBars(encodeEanModules(`0${digits}`)), text: digits };
+}
+
+const itfPatterns = ['00110', '10001', '01001', '11000', '00101', '10100', '01100', '00011', '10010', '01010'];
+
+/**
+ * Encode ITF-14, Interleaved 2 of 5 for GTIN-14 shipping containers
+ * @param {String} data 13 digits, or 14 with the check digit
+ * @param {Number} ratio width of wide elements in modules
+ */
+export function encodeItf14(data: string, ratio = 3): LinearEncoding {
+  const digits = completeGs1Number('ITF-14', data, 14);
+  const width = (w: string) => w === '1' ? ratio : 1;
+
+  const bars = [1, 1, 1, 1];
+  for (let i = 0; i < digits.length; i += 2) {
+    const barPattern = itfPatterns[Number(digits[i])];
+    const spacePattern = itfPatterns[Number(digits[i + 1])];
+    for (let j = 0; j < 5; j++) {
+      bars.push(width(barPattern[j]), width(spacePattern[j]));
+    }
+  }
+  bars.push(ratio, 1, 1);
+
+  return { bars, text: digits };
+}
+
+/** A linear symbology the editor can draw. */
+export interface LinearSymbology {
+  /** Display name, e.g. Code 128. */
+  name: string;
+  /** Whether wide elements follow the wide to narrow ratio. */
+  usesRatio: boolean;
+  encode(data: string, ratio: number): LinearEncoding;
+}
+
+export const linearSymbologies = {
+  code128: { name: 'Code 128', usesRatio: false, encode: data => encodeCode128(data) },
+  code39: { name: 'Code 39', usesRatio: true, encode: (data, ratio) => encodeCode39(data, ratio) },
+  ean13: { name: 'EAN-13', usesRatio: false, encode: data => encodeEan13(data) },
+  upca: { name: 'UPC-A', usesRatio: false, encode: data => encodeUpcA(data) },
+  itf14: { name: 'ITF-14', usesRatio: true, encode: (data, ratio) => encodeItf14(data, ratio) },
+} as const satisfies Record<string, LinearSymbology>;
+
+export type LinearSymbologyName = keyof typeof linearSymbologies;
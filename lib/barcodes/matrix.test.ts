@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { BarcodeDataError } from './linear.js';
+import { encodeDataMatrix, encodePdf417, encodeQrCode } from './matrix.js';
+
+describe('encodeQrCode', () => {
+  it('reads back the module grid with the finder pattern', () => {
+    const symbol = encodeQrCode('HELLO', 'L');
+
+    // version 1 is 21 modules square
+    expect(symbol).toMatchObject({ width: 21, height: 21, rows: 21, columns: 21 });
+    expect(symbol.modules).toHaveLength(21 * 21);
+    expect(symbol.modules.slice(0, 8)).toEqual([true, true, true, true, true, true, true, false]);
+  });
+
+  it('grows with the error correction level', () => {
+    const data = 'https://example.com/label/12345';
+    expect(encodeQrCode(data, 'H').width).toBeGreaterThan(encodeQrCode(data, 'L').width);
+  });
+
+  it('reports data that does not fit', () => {
+    expect(() => encodeQrCode('')).toThrow(new BarcodeDataError('QR Code needs at least one character.'));
+    expect(() => encodeQrCode('x'.repeat(3000), 'H')).toThrow(/^QR Code: /);
+  });
+});
+
+describe('encodeDataMatrix', () => {
+  it('encodes a square symbol, GS1 data from bracketed AIs', () => {
+    expect(encodeDataMatrix('ABC')).toMatchObject({ width: 10, height: 10, rows: 10, columns: 10 });
+    expect(encodeDataMatrix('(01)09501101530003', true).width).toBeGreaterThan(10);
+    expect(() => encodeDataMatrix('01095011', true)).toThrow(/^GS1 DataMatrix: /);
+  });
+});
+
+describe('encodePdf417', () => {
+  it('counts data columns and rows one module high', () => {
+    const symbol = encodePdf417('PDF417 label', 2, 3);
+    expect(symbol.columns).toBe(3);
+    expect(symbol.width).toBe(69 + 3 * 17);
+    expect(symbol.rows).toBe(symbol.height);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Define encoders for 2D barcode symbologies, on top of bwip-js
+ */
+
+import bwipjs from 'bwip-js';
+import { BarcodeDataError } from './linear.js';
+
+/**
+ * Modules of a 2D symbol and its size as the symbology counts it
+ */
+export interface MatrixEncoding {
+  /** Size in modules. */
+  width: number;
+  height: number;
+  /** Module colors row by row, true for dark. */
+  modules: boolean[];
+  /** Rows and columns as the symbology counts them, codeword columns for PDF417. */
+  rows: number;
+  columns: number;
+}
+
+export const qrErrorCorrectionLevels = ['L', 'M', 'Q', 'H'] as const;
+export type QrErrorCorrection = typeof qrErrorCorrectionLevels[number];
+
+export interface MatrixOptions {
+  /** QR Code error correction level. */
+  errorCorrection: QrErrorCorrection;
+  /** PDF417 error correction level, 0 to 8. */
+  securityLevel: number;
+  /** PDF417 data columns, 0 to pick them from the data length. */
+  columns: number;
+  /** Encode the data as a GS1 element string with bracketed AIs. */
+  gs1: boolean;
+}
+
+/** Height of a PDF417 row, in modules. */
+export const pdf417RowHeight = 3;
+
+/**
+ * Run bwip-js without scaling and read back the module grid
+ */
+function encodeRaw(name: string, bcid: string, data: string, options: Record<string, string | number | boolean>) {
+  if (data.length === 0) {
+    throw new BarcodeDataError(`${name} needs at least one character.`);
+  }
+
+  let symbol;
+  try {
+    symbol = bwipjs.raw({ bcid, text: data, ...options })[0];
+  } catch (e) {
+    // bwip-js prefixes its messages with the failing routine
+    const message = e instanceof Error ? e.message : String(e);
+    throw new BarcodeDataError(`${name}: ${message.replace(/^bwipp\.\w+#\d+:\s*/, '')}`);
+  }
+  if (symbol === undefined || !('pixs' in symbol)) {
+    throw new BarcodeDataError(`${name} couldn't be encoded.`);
+  }
+
+  // pixy counts stretched rows, the module data has one entry per row
+  const width = symbol.pixx;
+  const height = symbol.pixs.length / width;
+  return { width, height, modules: symbol.pixs.map(p => p === 1) };
+}
+
+/**
+ * Encode a QR Code, model 2
+ * @param {String} data text to encode
+ * @param {String} errorCorrection L, M, Q or H
+ */
+export function encodeQrCode(data: string, errorCorrection: QrErrorCorrection = 'M'): MatrixEncoding {
+  const grid = encodeRaw('QR Code', 'qrcode', data, { eclevel: errorCorrection });
+  return { ...grid, rows: grid.height, columns: grid.width };
+}
+
+/**
+ * Encode a Data Matrix ECC 200 symbol, square when the data allows
+ * @param {String} data text to encode
+ * @param {Boolean} gs1 data is a GS1 element string with bracketed AIs
+ */
+export function encodeDataMatrix(data: string, gs1 = false): MatrixEncoding {
+  const grid = gs1
+    ? encodeRaw('GS1 DataMatrix', 'gs1datamatrix', data, {})
+    : encodeRaw('Data Matrix', 'datamatrix', data, {});
+  return { ...grid, rows: grid.height, columns: grid.width };
+}
+
+/**
+ * Encode a PDF417 symbol with rows one module high
+ * @param {String} data text to encode
+ * @param {Number} securityLevel error correction level, 0 to 8
+ * @param {Number} columns data columns, 0 to pick them from the data length
+ */
+export function encodePdf417(data: string, securityLevel = 2, columns = 0): MatrixEncoding {
+  const options: Record<string, number> = { eclevel: securityLevel, rowmult: 1 };
+  if (columns > 0) { options.columns = columns; }
+  const grid = encodeRaw('PDF417', 'pdf417', data, options);
+
+  // start, stop and the two row indicators take 69 modules, data columns 17 each
+  return { ...grid, rows: grid.height, columns: Math.round((grid.width - 69) / 17) };
+}
+
+/** A 2D symbology the editor can draw. */
+export interface MatrixSymbology {
+  /** Display name, e.g. QR Code. */
+  name: string;
+  /** Height of a row compared to the module width. */
+  rowHeight: number;
+  /** Options the symbology uses. */
+  options: ReadonlyArray<keyof MatrixOptions>;
+  encode(data: string, options: MatrixOptions): MatrixEncoding;
+}
+
+export const matrixSymbologies = {
+  qrcode: {
+    name: 'QR Code',
+    rowHeight: 1,
+    options: ['errorCorrection'],
+    encode: (data, options) => encodeQrCode(data, options.errorCorrection),
+  },
+  datamatrix: {
+    name: 'Data Matrix',
+    rowHeight: 1,
+    options: [],
+    encode: (data, options) => encodeDataMatrix(data, options.gs1),
+  },
+  pdf417: {
+    name: 'PDF417',
+    rowHeight: pdf417RowHeight,
+    options: ['securityLevel', 'columns'],
+    encode: (data, options) => encodePdf417(data, options.securityLevel, options.columns),
+  },
+} as const satisfies Record<string, MatrixSymbology>;
+
+export type MatrixSymbologyName = keyof typeof matrixSymbologies;
@@ -0,0 +1,103 @@
+import * as fabric from 'fabric';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Barcode } from './barcodes/barcodeObject.js';
+import { batchFileExtension, BatchExportError, exportBatch, type BatchExportOptions } from './batch.js';
+import { mergeObject, type MergeRecord } from './dataMerge.js';
+import { defaultLabelMedia } from './labelMedia.js';
+
+beforeEach(() => {
+  // happy-dom has no 2D context, fabric only needs one that takes calls
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+    return new Proxy({ canvas: this }, {
+      get: (target, key) => key in target ? Reflect.get(target, key) : () => ({}),
+      set: () => true,
+    }) as unknown as CanvasRenderingContext2D;
+  });
+  vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/png;base64,AQID');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const records: MergeRecord[] = [{ sku: 'A-1' }, { sku: 'B-2' }, { sku: 'C-3' }];
+
+/** Render a label with a Code 128 barcode of the record's sku. */
+function createOptions(): BatchExportOptions & { canvases: fabric.StaticCanvas[] } {
+  const canvases: fabric.StaticCanvas[] = [];
+  return {
+    media: defaultLabelMedia,
+    canvases,
+    render: async record => {
+      const canvas = new fabric.StaticCanvas(undefined, { width: 812, height: 609 });
+      const barcode = new Barcode({ symbology: 'code128', data: '{{sku}}', left: 10, top: 10 });
+      mergeObject(barcode, record);
+      canvas.add(barcode);
+      canvases.push(canvas);
+      return canvas;
+    },
+  };
+}
+
+const text = async (blob: Blob) => new TextDecoder('latin1').decode(await blob.arrayBuffer());
+
+describe('exportBatch', () => {
+  it('zips one PNG per record with names in record order', async () => {
+    const options = createOptions();
+    const blob = await exportBatch(records, 'png', options);
+
+    expect(blob.type).toBe('application/zip');
+    // each name is in the local and the central header
+    expect((await text(blob)).match(/label-\d+\.png/g)).toEqual([
+      'label-0001.png', 'label-0002.png', 'label-0003.png',
+      'label-0001.png', 'label-0002.png', 'label-0003.png',
+    ]);
+    expect(options.canvases.every(canvas => canvas.disposed)).toBe(true);
+  });
+
+  it('writes one PDF page per record', async () => {
+    const blob = await exportBatch(records, 'pdf', createOptions());
+
+    expect(blob.type).toBe('application/pdf');
+    expect((await text(blob)).match(/\/Type \/Page\b/g)).toHaveLength(3);
+  });
+
+  it('joins the printer commands of every label into one stream', async () => {
+    const onProgress = vi.fn();
+    const blob = await exportBatch(records, 'zpl', { ...createOptions(), onProgress });
+    const zpl = await text(blob);
+
+    expect(zpl.match(/\^XA/g)).toHaveLength(3);
+    expect(zpl.match(/\^FD[^^]*/g)).toEqual(['^FDA-1', '^FDB-2', '^FDC-3']);
+    expect(onProgress.mock.calls).toEqual([[1, 3], [2, 3], [3, 3]]);
+  });
+
+  it('names the record whose label fails and disposes its canvas', async () => {
+    const options = createOptions();
+    const render = options.render;
+    const failure = new Error('Font missing');
+    options.render = async record => {
+      const canvas = await render(record);
+      if (record.sku === 'B-2') { throw failure; }
+      return canvas;
+    };
+
+    const error = await exportBatch(records, 'epl', options).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(BatchExportError);
+    expect(error).toMatchObject({
+      message: 'Label 2 of 3 could not be exported: Font missing',
+      recordIndex: 1,
+      cause: failure,
+    });
+    // the export stops at the failing label, the labels before it are disposed
+    expect(options.canvases).toHaveLength(2);
+    expect(options.canvases[0].disposed).toBe(true);
+  });
+});
+
+describe('batchFileExtension', () => {
+  it('names zip, PDF and printer language files', () => {
+    expect((['png', 'pdf', 'zpl', 'epl', 'tspl'] as const).map(batchFileExtension))
+      .toEqual(['zip', 'pdf', 'zpl', 'epl', 'prn']);
+  });
+});
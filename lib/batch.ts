@@ -0,0 +1,134 @@
+/**
+ * Define batch export of one merged label per record
+ */
+
+import type * as fabric from 'fabric';
+import type { MergeRecord } from './dataMerge.js';
+import {
+  exportLabel,
+  labelLanguages,
+  type LabelExportOptions,
+  type LabelLanguageName,
+} from './languages/index.js';
+import type { LabelMedia } from './labelMedia.js';
+import { createPdf, imagePage } from './pdf.js';
+import { concatBytes, createZip } from './zip.js';
+
+/** PNG images in a zip, a PDF page per label, or one printer command stream. */
+export type BatchFormat = 'png' | 'pdf' | LabelLanguageName;
+
+export const batchFormats: Record<BatchFormat, string> = {
+  png: 'PNG images (zip)',
+  pdf: 'PDF, one page per label',
+  zpl: 'ZPL II stream',
+  epl: 'EPL2 stream',
+  tspl: 'TSPL stream',
+};
+
+export interface BatchExportOptions extends LabelExportOptions {
+  /** Draw the label for a record, the canvas is disposed once exported. */
+  render(record: MergeRecord): Promise<fabric.StaticCanvas>;
+  media: LabelMedia;
+  /** Called after each label with the number done and the total. */
+  onProgress?(done: number, total: number): void;
+}
+
+export class BatchExportError extends Error {
+  /**
+   * @param {String} message what went wrong, naming the label
+   * @param {Number} recordIndex index of the record whose label failed
+   */
+  constructor(message: string, public readonly recordIndex: number, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'BatchExportError';
+  }
+}
+
+/**
+ * Decode the bytes of a base64 data URL
+ * @param {String} url data URL, e.g. from canvas.toDataURL()
+ */
+export function dataUrlToBytes(url: string) {
+  const binary = atob(url.substring(url.indexOf(',') + 1));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/**
+ * Pad a label number so file names sort in record order
+ */
+function labelFileName(index: number, total: number, extension: string) {
+  return `label-${(index + 1).toString().padStart(Math.max(4, total.toString().length), '0')}.${extension}`;
+}
+
+/**
+ * Export one label per record in a single file
+ * @param {Array} records merge records, in print order
+ * @param {String} format png, pdf or a printer language name
+ * @param {Object} options how to render a record and the label media
+ * @returns {Blob} a zip of PNG images, a PDF or a printer command stream
+ * @throws {BatchExportError} when the label of a record can't be exported, e.g. its barcode data is invalid
+ */
+export async function exportBatch(
+  records: ReadonlyArray<MergeRecord>,
+  format: BatchFormat,
+  options: BatchExportOptions,
+): Promise<Blob> {
+  const { media } = options;
+  const pngs: Uint8Array[] = [];
+  const pages: ReturnType<typeof imagePage>[] = [];
+  const commands: Uint8Array[] = [];
+
+  // one canvas at a time, a batch can have thousands of records
+  for (let i = 0; i < records.length; i++) {
+    let canvas: fabric.StaticCanvas | undefined;
+    try {
+      canvas = await options.render(records[i]);
+      if (format === 'png') {
+        pngs.push(dataUrlToBytes(canvas.toDataURL({ format: 'png', multiplier: 1 })));
+      } else if (format === 'pdf') {
+        const jpeg = dataUrlToBytes(canvas.toDataURL({ format: 'jpeg', quality: 0.92, multiplier: 1 }));
+        const toPoints = (dots: number) => dots / media.dpi * 72;
+        pages.push(imagePage(toPoints(canvas.getWidth()), toPoints(canvas.getHeight()), {
+          width: canvas.getWidth(),
+          height: canvas.getHeight(),
+          jpeg,
+        }));
+      } else {
+        const language = labelLanguages[format];
+        commands.push(language.encode(exportLabel(canvas, media, language, { textAsGraphic: options.textAsGraphic })));
+      }
+    } catch (e) {
+      throw new BatchExportError(
+        `Label ${i + 1} of ${records.length} could not be exported: ${(e as Error).message}`, i, { cause: e });
+    } finally {
+      canvas?.dispose();
+    }
+    options.onProgress?.(i + 1, records.length);
+  }
+
+  switch (format) {
+    case 'png':
+      return new Blob([createZip(pngs.map((data, i) => ({
+        name: labelFileName(i, pngs.length, 'png'),
+        data,
+      })))], { type: 'application/zip' });
+    case 'pdf':
+      return new Blob([createPdf(pages)], { type: 'application/pdf' });
+    default:
+      return new Blob([concatBytes(commands)], { type: 'application/octet-stream' });
+  }
+}
+
+/**
+ * Get the file extension for a batch format
+ */
+export function batchFileExtension(format: BatchFormat) {
+  switch (format) {
+    case 'png':
+      return 'zip';
+    case 'pdf':
+      return 'pdf';
+    default:
+      return labelLanguages[format].fileExtension;
+  }
+}
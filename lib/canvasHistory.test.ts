@@ -0,0 +1,263 @@
+import * as fabric from 'fabric';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CanvasHistory, defaultHistoryOptions, type HistoryOptions } from './canvasHistory.js';
+
+beforeEach(() => {
+  // happy-dom has no 2D context, fabric only needs one that takes calls
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+    return new Proxy({ canvas: this }, {
+      get: (target, key) => key in target ? Reflect.get(target, key) : () => ({}),
+      set: () => true,
+    }) as unknown as CanvasRenderingContext2D;
+  });
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(10_000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+function createHistory(options: Partial<HistoryOptions> = {}, thumbnail?: () => string) {
+  const canvas = new fabric.Canvas(document.createElement('canvas'));
+  const red = new fabric.Rect({ left: 0, top: 0, width: 10, height: 10, fill: 'red' });
+  const blue = new fabric.Rect({ left: 20, top: 0, width: 10, height: 10, fill: 'blue' });
+  canvas.add(red, blue);
+  const history = new CanvasHistory(canvas, { ...defaultHistoryOptions, ...options }, thumbnail);
+  history.reset();
+  return { canvas, red, blue, history };
+}
+
+/** Steps that can be undone, newest last. */
+const undoSteps = (history: CanvasHistory) => history.toJSON().steps;
+
+describe('CanvasHistory', () => {
+  it('records only the properties of the objects that changed', async () => {
+    const { canvas, red, blue, history } = createHistory();
+    red.set('fill', 'green');
+
+    expect(history.commit()).toBe(true);
+    const [step] = undoSteps(history);
+    expect(step.name).toBe('Changed fill color');
+    expect(step.changes).toEqual([{ id: 'o1', before: { fill: 'red' }, after: { fill: 'green' }, partial: true }]);
+
+    expect(await history.undo()).toBe(true);
+    expect(red.fill).toBe('red');
+    // patched in place, the other object isn't touched
+    expect(canvas.getObjects()).toEqual([red, blue]);
+    expect(await history.redo()).toBe(true);
+    expect(red.fill).toBe('green');
+  });
+
+  it('does not record a commit without changes', () => {
+    const { history } = createHistory();
+    expect(history.commit()).toBe(false);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('records added and removed objects whole and rebuilds them', async () => {
+    const { canvas, red, history } = createHistory();
+    canvas.add(new fabric.Circle({ radius: 5 }));
+    history.commit(false);
+    canvas.remove(red);
+    history.commit(false);
+
+    expect(undoSteps(history).map(step => step.name)).toEqual(['Added Circle', 'Deleted Rectangle']);
+    await history.undo();
+    await history.undo();
+    expect(canvas.getObjects().map(o => o.type)).toEqual(['rect', 'rect']);
+    expect(canvas.getObjects()[0]).not.toBe(red);
+    expect(canvas.getObjects()[0].fill).toBe('red');
+    await history.redo();
+    expect(canvas.getObjects().map(o => o.type)).toEqual(['rect', 'rect', 'circle']);
+  });
+
+  it('records stacking order changes', async () => {
+    const { canvas, red, blue, history } = createHistory();
+    canvas.bringObjectToFront(red);
+    history.commit(false);
+
+    expect(undoSteps(history)[0]).toMatchObject({ name: 'Changed stacking order', changes: [] });
+    await history.undo();
+    expect(canvas.getObjects()).toEqual([red, blue]);
+  });
+
+  describe('limits', () => {
+    it('drops the oldest steps over the step limit and starts from the last dropped one', () => {
+      const { red, history } = createHistory({ maxSteps: 2 });
+      ['green', 'yellow', 'black'].forEach(fill => {
+        red.set('fill', fill);
+        history.commit(false);
+      });
+
+      const { entries, current } = history.getEntries();
+      expect(entries.map(e => e.name)).toEqual(['Changed fill color', 'Changed fill color', 'Changed fill color']);
+      expect(current).toBe(2);
+      expect(undoSteps(history).map(step => step.changes[0].after)).toEqual([{ fill: 'yellow' }, { fill: 'black' }]);
+    });
+
+    it('keeps the steps within the memory cap', () => {
+      const { red, history } = createHistory({ maxBytes: 2000 });
+      for (let i = 0; i < 20; i++) {
+        red.set('left', i + 1);
+        history.commit(false);
+      }
+
+      expect(history.getSize()).toBeLessThanOrEqual(2000);
+      const steps = undoSteps(history);
+      expect(steps.length).toBeLessThan(20);
+      expect(steps.at(-1)!.changes[0].after).toEqual({ left: 20 });
+    });
+
+    it('saves only the newest steps that fit in a megabyte with the document', () => {
+      const { red, history } = createHistory();
+      ['a', 'b', 'c', 'd'].forEach(fill => {
+        red.set('fill', fill.repeat(100_000));
+        history.commit(false);
+      });
+
+      const saved = history.toJSON();
+      const bytes = saved.steps.reduce((sum, step) => sum + step.size, 0);
+      expect(saved.steps.length).toBe(2);
+      expect(bytes).toBeLessThanOrEqual(1024 * 1024);
+      expect(saved.steps.at(-1)!.changes[0].after).toEqual({ fill: 'd'.repeat(100_000) });
+      expect(saved.start.name).toBe('Changed fill color');
+    });
+  });
+
+  describe('batch', () => {
+    it('records the changes of a batch as one named step', async () => {
+      const { canvas, red, blue, history } = createHistory();
+      const changed = history.batch(() => {
+        red.set('left', 5);
+        expect(history.commit()).toBe(false);
+        history.batch(() => blue.set('left', 50));
+      }, 'Aligned');
+
+      expect(changed).toBe(true);
+      expect(undoSteps(history)).toHaveLength(1);
+      expect(undoSteps(history)[0]).toMatchObject({ name: 'Aligned', changes: [{ id: 'o1' }, { id: 'o2' }] });
+      await history.undo();
+      // both are selected again, their positions show once the selection is let go
+      canvas.discardActiveObject();
+      expect([red.left, blue.left]).toEqual([0, 20]);
+    });
+
+    it('records what changed before a batch throws', () => {
+      const { red, history } = createHistory();
+      expect(() => history.batch(() => {
+        red.set('left', 5);
+        throw new Error('failed');
+      })).toThrow('failed');
+
+      expect(undoSteps(history)).toHaveLength(1);
+    });
+
+    it('records nothing for a batch without changes', () => {
+      const { history } = createHistory();
+      expect(history.batch(() => undefined)).toBe(false);
+      expect(history.canUndo()).toBe(false);
+    });
+  });
+
+  describe('coalescing', () => {
+    it('merges rapid changes to the same properties of the same objects', async () => {
+      const { red, history } = createHistory();
+      red.set('left', 1);
+      history.commit();
+      vi.setSystemTime(10_500);
+      red.set('left', 2);
+      history.commit();
+
+      expect(undoSteps(history)).toHaveLength(1);
+      expect(undoSteps(history)[0].changes[0]).toMatchObject({ before: { left: 0 }, after: { left: 2 } });
+      await history.undo();
+      expect(red.left).toBe(0);
+    });
+
+    it('keeps steps apart after the coalesce time, for other properties and without coalesce', () => {
+      const { red, history } = createHistory();
+      red.set('left', 1);
+      history.commit();
+      vi.setSystemTime(12_000);
+      red.set('left', 2);
+      history.commit();
+      red.set('top', 2);
+      history.commit();
+      red.set('top', 3);
+      history.commit(false);
+
+      expect(undoSteps(history)).toHaveLength(4);
+    });
+
+    it('drops a merged step that ends where it started', () => {
+      const { red, history } = createHistory();
+      red.set('fill', 'green');
+      history.commit();
+      red.set('fill', 'red');
+      history.commit();
+
+      expect(history.canUndo()).toBe(false);
+    });
+
+    it('draws a thumbnail for new steps only', () => {
+      const thumbnail = vi.fn(() => 'data:image/png;base64,');
+      const { red, history } = createHistory({}, thumbnail);
+      thumbnail.mockClear();
+      red.set('left', 1);
+      history.commit();
+      red.set('left', 2);
+      history.commit();
+
+      expect(thumbnail).toHaveBeenCalledTimes(1);
+      expect(undoSteps(history)[0].thumbnail).toBe('data:image/png;base64,');
+    });
+  });
+
+  it('records document data next to the canvas', async () => {
+    const canvas = new fabric.Canvas(document.createElement('canvas'));
+    let fields = ['name'];
+    const history = new CanvasHistory(canvas, defaultHistoryOptions, undefined, {
+      read: () => [...fields],
+      write: state => { fields = state as string[]; },
+    });
+    history.reset();
+    fields.push('sku');
+    history.commit(false);
+
+    expect(undoSteps(history)[0].name).toBe('Changed fields');
+    await history.undo();
+    expect(fields).toEqual(['name']);
+  });
+
+  describe('restore', () => {
+    it('continues a saved history on the loaded document', async () => {
+      const { canvas, red, history } = createHistory();
+      red.set('fill', 'green');
+      history.commit(false);
+      const saved = JSON.parse(JSON.stringify(history.toJSON()));
+      const json = canvas.toObject();
+
+      const loaded = new fabric.Canvas(document.createElement('canvas'));
+      loaded.add(...await fabric.util.enlivenObjects<fabric.FabricObject>(json.objects));
+      const restored = new CanvasHistory(loaded);
+      expect(restored.restore(saved)).toBe(true);
+      expect(restored.getEntries().entries.map(e => e.name)).toEqual(['Opened label', 'Changed fill color']);
+
+      await restored.undo();
+      expect(loaded.getObjects()[0].fill).toBe('red');
+      // objects added later don't take the ids of saved ones
+      loaded.add(new fabric.Circle({ radius: 5 }));
+      restored.commit(false);
+      expect(restored.toJSON().steps.at(-1)!.changes[0].id).toBe('o3');
+    });
+
+    it('starts over when the saved history does not match the canvas', () => {
+      const { history } = createHistory();
+      expect(history.restore({ order: ['o1'], start: { name: 'Opened label', time: 0 }, steps: [] })).toBe(false);
+      expect(history.restore(undefined)).toBe(false);
+      expect(history.canUndo()).toBe(false);
+    });
+  });
+});
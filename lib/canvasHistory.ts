@@ -0,0 +1,616 @@
+/**
+ * Define undo history that records what each step changed per object, rather than whole canvas states
+ */
+
+import * as fabric from 'fabric';
+import { defaultHistoryLimits, UndoRedoStack, type HistoryLimits } from './undo-redo-stack.js';
+
+type ObjectJSON = Record<string, unknown>;
+
+export interface HistoryOptions extends HistoryLimits {
+  /**
+   * Milliseconds within which changes to the same properties of the same objects
+   * become one step, e.g. dragging a color picker or holding an arrow key
+   */
+  coalesceTime: number;
+  /** Save the recent steps with the document, so they can be undone after reopening it. */
+  persist: boolean;
+}
+
+export const defaultHistoryOptions: HistoryOptions = {
+  ...defaultHistoryLimits,
+  coalesceTime: 1000,
+  persist: false,
+};
+
+/** Memory of the steps saved with a document, the newest steps that fit are saved. */
+const persistedBytes = 1024 * 1024;
+
+/** An object a step added, removed or changed. */
+export interface ObjectChange {
+  id: string;
+  /** Undefined when the step added the object. */
+  before: ObjectJSON | undefined;
+  /** Undefined when the step removed the object. */
+  after: ObjectJSON | undefined;
+  /** Whether before and after only hold the properties that changed. */
+  partial: boolean;
+}
+
+interface CanvasBackground {
+  color: unknown;
+  image: ObjectJSON | undefined;
+}
+
+/** Document state kept outside the canvas that steps record too, e.g. the merge fields. */
+export interface HistoryData {
+  /** Get the state as JSON, a new copy on every call. */
+  read(): unknown;
+  /** Bring the state back when a step is undone or redone. */
+  write(state: unknown): void;
+}
+
+export interface HistoryStep {
+  /** What the step did, e.g. Moved Textbox. */
+  name: string;
+  /** When the step was recorded, in milliseconds since 1970. */
+  time: number;
+  /** Image data URL of the canvas after the step. */
+  thumbnail?: string;
+  changes: ObjectChange[];
+  /** Stacking order of the objects by id, when it changed. */
+  order?: { before: string[]; after: string[] };
+  background?: { before: CanvasBackground; after: CanvasBackground };
+  /** Document state kept outside the canvas, when it changed. */
+  data?: { before: unknown; after: unknown };
+  /** Approximate memory in bytes. */
+  size: number;
+}
+
+/** A state the history can go to, the first one is the oldest state kept. */
+export interface HistoryEntry {
+  name: string;
+  time: number;
+  thumbnail?: string;
+}
+
+/** Steps saved with a document. */
+export interface SavedHistory {
+  /** Ids of the document's objects, in stacking order. */
+  order: string[];
+  /** The state before the first step. */
+  start: HistoryEntry;
+  steps: HistoryStep[];
+}
+
+interface Snapshot {
+  objects: Map<string, ObjectJSON>;
+  order: string[];
+  background: CanvasBackground;
+  data: unknown;
+}
+
+/** Properties that can't simply be set again, the object is rebuilt from its JSON instead. */
+const rebuiltProperties = new Set([
+  'type', 'version', 'src', 'crossOrigin', 'filters', 'resizeFilter', 'path', 'points', 'objects', 'styles', 'clipPath',
+]);
+
+/**
+ * Compare two JSON values
+ */
+function same(a: unknown, b: unknown): boolean {
+  if (a === b) { return true; }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) { return false; }
+  if (Array.isArray(a) !== Array.isArray(b)) { return false; }
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length
+    && keys.every(key => same((a as ObjectJSON)[key], (b as ObjectJSON)[key]));
+}
+
+/**
+ * Get the properties that differ between two states of an object
+ * @returns {Object} the changed properties on each side, undefined when nothing changed
+ */
+function diffObject(before: ObjectJSON, after: ObjectJSON) {
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(key => !same(before[key], after[key]));
+  if (keys.length === 0) { return undefined; }
+  return {
+    before: Object.fromEntries(keys.map(key => [key, before[key]])),
+    after: Object.fromEntries(keys.map(key => [key, after[key]])),
+  };
+}
+
+/**
+ * Check whether changed properties can be set on the object as they are
+ */
+function canPatch(properties: ObjectJSON) {
+  return Object.entries(properties).every(([key, value]) =>
+    !rebuiltProperties.has(key) && value !== undefined && (value === null || typeof value !== 'object'));
+}
+
+/**
+ * Describe which objects and properties a step changed, undefined for steps that are never merged
+ */
+function stepSignature(step: HistoryStep) {
+  if (step.order !== undefined || step.changes.some(change => !change.partial)) { return undefined; }
+  if (step.background !== undefined && !same(step.background.before.image, step.background.after.image)) {
+    return undefined;
+  }
+  return JSON.stringify([
+    step.changes.map(change => [change.id, Object.keys(change.after!)]),
+    step.background !== undefined,
+    step.data !== undefined,
+  ]);
+}
+
+/**
+ * Check whether a step changes nothing, e.g. a color picked and picked back
+ */
+function isEmptyStep(step: HistoryStep) {
+  return step.order === undefined
+    && step.changes.every(change => same(change.before, change.after))
+    && (step.background === undefined || same(step.background.before, step.background.after))
+    && (step.data === undefined || same(step.data.before, step.data.after));
+}
+
+/** Object kinds by the type fabric serializes. */
+const objectNames: Record<string, string> = {
+  Rect: 'Rectangle',
+  IText: 'Text',
+  FabricText: 'Text',
+  Text: 'Text',
+  FabricImage: 'Image',
+};
+
+/** Geometry changes, named after what was done to the objects. */
+const geometryVerbs: Record<string, string> = {
+  left: 'Moved',
+  top: 'Moved',
+  scaleX: 'Resized',
+  scaleY: 'Resized',
+  width: 'Resized',
+  height: 'Resized',
+  radius: 'Resized',
+  rx: 'Resized',
+  ry: 'Resized',
+  x1: 'Resized',
+  y1: 'Resized',
+  x2: 'Resized',
+  y2: 'Resized',
+  skewX: 'Skewed',
+  skewY: 'Skewed',
+  angle: 'Rotated',
+  flipX: 'Flipped',
+  flipY: 'Flipped',
+};
+
+/** Other property changes, named after the property. */
+const propertyNames: Record<string, string> = {
+  text: 'Edited text',
+  fontSize: 'Changed font size',
+  fontFamily: 'Changed font',
+  fontWeight: 'Changed font style',
+  fontStyle: 'Changed font style',
+  underline: 'Changed font style',
+  linethrough: 'Changed font style',
+  lineHeight: 'Changed line height',
+  charSpacing: 'Changed letter spacing',
+  textAlign: 'Changed text alignment',
+  fill: 'Changed fill color',
+  stroke: 'Changed border color',
+  strokeWidth: 'Changed border width',
+  strokeDashArray: 'Changed border style',
+  strokeLineCap: 'Changed border style',
+  strokeLineJoin: 'Changed corner type',
+  opacity: 'Changed opacity',
+  path: 'Edited path',
+  src: 'Replaced image',
+  data: 'Changed barcode data',
+  symbology: 'Changed barcode type',
+  moduleWidth: 'Changed barcode settings',
+  barHeight: 'Changed barcode settings',
+  ratio: 'Changed barcode settings',
+  showText: 'Changed barcode settings',
+  errorCorrection: 'Changed barcode settings',
+  securityLevel: 'Changed barcode settings',
+  columns: 'Changed barcode settings',
+};
+
+/**
+ * Name a step for the history panel, e.g. Moved Textbox or Changed font size
+ * @param {Object} step the changes of the step
+ * @param {Function} typeOf serialized type of a changed object
+ */
+function describeStep(step: Omit<HistoryStep, 'name' | 'time' | 'size'>, typeOf: (change: ObjectChange) => unknown) {
+  const what = (changes: ObjectChange[]) => {
+    if (changes.length !== 1) { return `${changes.length} objects`; }
+    const type = String(typeOf(changes[0]) ?? 'object');
+    return objectNames[type] ?? type;
+  };
+  const added = step.changes.filter(change => change.before === undefined);
+  const removed = step.changes.filter(change => change.after === undefined);
+  const changed = step.changes.filter(change => change.partial);
+
+  if (step.changes.length === 0) {
+    if (step.background !== undefined) { return 'Changed background'; }
+    return step.data !== undefined ? 'Changed fields' : 'Changed stacking order';
+  }
+  if (added.length === step.changes.length) { return `Added ${what(added)}`; }
+  if (removed.length === step.changes.length) { return `Deleted ${what(removed)}`; }
+  if (changed.length !== step.changes.length) { return `Edited ${what(step.changes)}`; }
+
+  // a named property wins over the size changes it causes, e.g. a larger font
+  const keys = [...new Set(changed.flatMap(change => Object.keys(change.after!)))];
+  const names = [...new Set(keys.filter(key => key in propertyNames).map(key => propertyNames[key]))];
+  if (names.length === 1) { return names[0]; }
+  if (names.length > 1) { return `Edited ${what(changed)}`; }
+  const verb = ['Resized', 'Rotated', 'Skewed', 'Flipped', 'Moved'].find(v => keys.some(key => geometryVerbs[key] === v));
+  return `${verb ?? 'Edited'} ${what(changed)}`;
+}
+
+function withoutUndefined(json: ObjectJSON) {
+  return Object.fromEntries(Object.entries(json).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Undo and redo changes to a canvas, only the objects a step changed are touched
+ */
+export class CanvasHistory {
+  private readonly stack: UndoRedoStack<HistoryStep>;
+  private readonly ids = new WeakMap<fabric.FabricObject, string>();
+  private nextId = 1;
+  private snapshot: Snapshot = {
+    objects: new Map(),
+    order: [],
+    background: { color: undefined, image: undefined },
+    data: undefined,
+  };
+  /** Steps are applied one at a time, rebuilding objects is asynchronous. */
+  private pending: Promise<unknown> = Promise.resolve();
+  /** Nesting of batch() calls, commits wait for the outermost one. */
+  private batchDepth = 0;
+  /** When the last step was recorded, 0 when it can't be merged with. */
+  private lastCommit = 0;
+  /** The state before the oldest step kept. */
+  private start: HistoryEntry = { name: 'Opened label', time: Date.now() };
+
+  /**
+   * @param {Object} canvas canvas to keep the history of
+   * @param {Object} options maximum number of steps and bytes kept, and the time rapid changes are merged in
+   * @param {Function} thumbnail image data URL of the canvas as it is, shown in the history panel
+   * @param {Object} data document state kept outside the canvas that undo brings back too
+   */
+  public constructor(
+    private readonly canvas: fabric.Canvas,
+    private readonly options: HistoryOptions = defaultHistoryOptions,
+    private readonly thumbnail: () => string | undefined = () => undefined,
+    private readonly data?: HistoryData,
+  ) {
+    this.stack = new UndoRedoStack(step => step.size, options);
+  }
+
+  private idOf(obj: fabric.FabricObject) {
+    let id = this.ids.get(obj);
+    if (id === undefined) {
+      id = `o${this.nextId++}`;
+      this.ids.set(obj, id);
+    }
+    return id;
+  }
+
+  private objectsById() {
+    return new Map(this.canvas.getObjects().map(o => [this.idOf(o), o]));
+  }
+
+  /**
+   * Serialize the canvas, objects in an active selection are serialized as if it were discarded
+   */
+  private takeSnapshot(): Snapshot {
+    const json = this.canvas.toObject() as { objects: ObjectJSON[]; background?: unknown; backgroundImage?: ObjectJSON };
+    const order = this.canvas.getObjects().filter(o => !o.excludeFromExport).map(o => this.idOf(o));
+    return {
+      objects: new Map(order.map((id, i) => [id, json.objects[i]])),
+      order,
+      background: { color: json.background, image: json.backgroundImage },
+      data: this.data?.read(),
+    };
+  }
+
+  /**
+   * Forget every step and start from the canvas as it is, e.g. after loading a document
+   */
+  public reset() {
+    this.stack.clear();
+    this.snapshot = this.takeSnapshot();
+    this.lastCommit = 0;
+    this.start = { name: 'Opened label', time: Date.now(), thumbnail: this.thumbnail() };
+  }
+
+  /**
+   * Run a function and record the changes it makes as one step
+   * @param {Function} fn changes to the canvas, commits inside it are postponed until it returns
+   * @param {String} name name of the step, made up from the changes by default
+   * @returns {Boolean} whether anything changed
+   */
+  public batch(fn: () => void, name?: string) {
+    let changed = false;
+    this.batchDepth++;
+    try {
+      fn();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        changed = this.commit(false, name);
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Record the changes made since the last step as a new step
+   * @param {Boolean} coalesce merge with the last step when it changed the same properties moments ago
+   * @param {String} name name of the step, made up from the changes by default
+   * @returns {Boolean} whether the steps changed, false inside a batch
+   */
+  public commit(coalesce = true, name?: string) {
+    if (this.batchDepth > 0) { return false; }
+    const previous = this.snapshot;
+    const current = this.takeSnapshot();
+    this.snapshot = current;
+
+    const changes: ObjectChange[] = [];
+    previous.objects.forEach((before, id) => {
+      const after = current.objects.get(id);
+      if (after === undefined) {
+        changes.push({ id, before, after: undefined, partial: false });
+        return;
+      }
+      const diff = diffObject(before, after);
+      if (diff !== undefined) {
+        changes.push({ id, ...diff, partial: true });
+      }
+    });
+    current.objects.forEach((after, id) => {
+      if (!previous.objects.has(id)) {
+        changes.push({ id, before: undefined, after, partial: false });
+      }
+    });
+    const orderChanged = !same(previous.order, current.order);
+    const backgroundChanged = !same(previous.background, current.background);
+    const dataChanged = !same(previous.data, current.data);
+    if (changes.length === 0 && !orderChanged && !backgroundChanged && !dataChanged) { return false; }
+
+    const now = Date.now();
+    const step: HistoryStep = {
+      name: '',
+      time: now,
+      changes,
+      order: orderChanged ? { before: previous.order, after: current.order } : undefined,
+      background: backgroundChanged ? { before: previous.background, after: current.background } : undefined,
+      data: dataChanged ? { before: previous.data, after: current.data } : undefined,
+      size: 0,
+    };
+    step.name = name ?? describeStep(step, change =>
+      (change.after ?? change.before ?? {}).type ?? current.objects.get(change.id)?.type);
+    const latest = this.stack.latest();
+    if (
+      coalesce && latest !== undefined && !this.stack.canRedo()
+      && now - this.lastCommit < this.options.coalesceTime
+      && stepSignature(latest) !== undefined && stepSignature(latest) === stepSignature(step)
+    ) {
+      // keep where the last step started from and where this one ends; the thumbnail is kept too,
+      // drawing the canvas on every keystroke of a run of typing costs more than a slightly older picture
+      const merged: HistoryStep = {
+        ...step,
+        thumbnail: latest.thumbnail,
+        changes: step.changes.map((change, i) => ({ ...change, before: latest.changes[i].before })),
+        background: step.background && { before: latest.background!.before, after: step.background.after },
+        data: step.data && { before: latest.data!.before, after: step.data.after },
+        size: 0,
+      };
+      merged.size = JSON.stringify(merged).length * 2;
+      this.stack.replaceLatest(isEmptyStep(merged) ? undefined : merged);
+      this.lastCommit = now;
+      return true;
+    }
+
+    step.thumbnail = this.thumbnail();
+    // strings take two bytes a character
+    step.size = JSON.stringify(step).length * 2;
+    this.push(step);
+    this.lastCommit = coalesce ? now : 0;
+    return true;
+  }
+
+  private push(step: HistoryStep) {
+    const dropped = this.stack.push(step).at(-1);
+    if (dropped !== undefined) {
+      this.start = { name: dropped.name, time: dropped.time, thumbnail: dropped.thumbnail };
+    }
+  }
+
+  /**
+   * Revert the last step
+   * @returns {Promise<Boolean>} whether there was a step to revert
+   */
+  public undo() {
+    return this.run(() => this.stack.undo(), 'before');
+  }
+
+  /**
+   * Apply the last reverted step again
+   * @returns {Promise<Boolean>} whether there was a step to apply
+   */
+  public redo() {
+    return this.run(() => this.stack.redo(), 'after');
+  }
+
+  public canUndo() {
+    return this.stack.canUndo();
+  }
+
+  public canRedo() {
+    return this.stack.canRedo();
+  }
+
+  /**
+   * List the states the history can go to
+   * @returns {Object} the oldest state kept followed by one state per step, and the index of the current one
+   */
+  public getEntries() {
+    const { undo, redo } = this.stack.getValues();
+    const entries: HistoryEntry[] = [this.start, ...undo, ...redo.reverse()]
+      .map(({ name, time, thumbnail }) => ({ name, time, thumbnail }));
+    return { entries, current: undo.length };
+  }
+
+  /**
+   * Undo or redo steps until a state is reached
+   * @param {Number} index index of the state in getEntries()
+   * @returns {Promise<Boolean>} whether any step was undone or redone
+   */
+  public async goTo(index: number) {
+    const current = this.stack.getValues().undo.length;
+    const steps: Promise<boolean>[] = [];
+    for (let i = current; i > index && i > 0; i--) {
+      steps.push(this.undo());
+    }
+    for (let i = current; i < index && i - current < this.stack.getValues().redo.length; i++) {
+      steps.push(this.redo());
+    }
+    return (await Promise.all(steps)).some(Boolean);
+  }
+
+  /**
+   * Get the newest steps that fit in the memory saved with a document, redo steps aren't saved
+   */
+  public toJSON(): SavedHistory {
+    const { undo } = this.stack.getValues();
+    let bytes = 0;
+    let first = undo.length;
+    while (first > 0 && bytes + undo[first - 1].size <= persistedBytes) {
+      bytes += undo[--first].size;
+    }
+    const before = undo[first - 1];
+    return {
+      order: [...this.snapshot.order],
+      start: before === undefined ? this.start : { name: before.name, time: before.time, thumbnail: before.thumbnail },
+      steps: undo.slice(first),
+    };
+  }
+
+  /**
+   * Continue the history saved with a document that was just loaded on the canvas
+   * @param {Object} saved history from toJSON()
+   * @returns {Boolean} whether it matched the canvas, the history starts over when it didn't
+   */
+  public restore(saved: SavedHistory | undefined) {
+    const objects = this.canvas.getObjects().filter(o => !o.excludeFromExport);
+    if (
+      saved === undefined || !Array.isArray(saved.order) || !Array.isArray(saved.steps)
+      || saved.order.length !== objects.length
+    ) {
+      this.reset();
+      return false;
+    }
+
+    // new objects get ids after the saved ones
+    const ids = [...saved.order, ...saved.steps.flatMap(step => step.changes.map(change => change.id))];
+    this.nextId = Math.max(this.nextId, ...ids.map(id => Number(id.substring(1)) + 1).filter(Number.isFinite));
+    objects.forEach((o, i) => this.ids.set(o, saved.order[i]));
+
+    this.reset();
+    if (saved.start !== undefined) {
+      this.start = saved.start;
+    }
+    saved.steps.forEach(step => this.push(step));
+    return true;
+  }
+
+  /**
+   * Get the approximate memory the steps take in bytes
+   */
+  public getSize() {
+    return this.stack.getSize();
+  }
+
+  private run(take: () => HistoryStep | undefined, side: 'before' | 'after') {
+    const result = this.pending.then(async () => {
+      const step = take();
+      if (step === undefined) { return false; }
+      this.lastCommit = 0;
+      await this.apply(step, side);
+      return true;
+    });
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Bring the objects a step changed to one side of it and select them
+   */
+  private async apply(step: HistoryStep, side: 'before' | 'after') {
+    // build what can't be patched first, the canvas is changed all at once afterwards
+    const rebuilt = step.changes.flatMap(change => {
+      const target = change[side];
+      if (target === undefined || (change.partial && canPatch(target))) { return []; }
+      const current = this.snapshot.objects.get(change.id);
+      if (change.partial && current === undefined) { return []; }
+      return [{ id: change.id, json: withoutUndefined(change.partial ? { ...current, ...target } : target) }];
+    });
+    const backgroundImage = step.background?.[side].image;
+    const [built, [image]] = await Promise.all([
+      fabric.util.enlivenObjects<fabric.FabricObject>(rebuilt.map(r => r.json)),
+      fabric.util.enlivenObjects<fabric.FabricImage>(backgroundImage === undefined ? [] : [backgroundImage]),
+    ]);
+    const replacements = new Map(rebuilt.map((r, i) => [r.id, built[i]]));
+    replacements.forEach((obj, id) => this.ids.set(obj, id));
+
+    this.canvas.discardActiveObject();
+    const objects = this.objectsById();
+    step.changes.forEach(change => {
+      const target = change[side];
+      const obj = objects.get(change.id);
+      const replacement = replacements.get(change.id);
+      if (target === undefined) {
+        if (obj !== undefined) { this.canvas.remove(obj); }
+      } else if (replacement !== undefined) {
+        const index = obj === undefined ? -1 : this.canvas.getObjects().indexOf(obj);
+        if (obj !== undefined) { this.canvas.remove(obj); }
+        this.canvas.insertAt(index < 0 ? this.canvas.getObjects().length : index, replacement);
+        replacement.setCoords();
+      } else if (obj !== undefined) {
+        obj.set(target);
+        obj.setCoords();
+      }
+    });
+
+    const current = this.objectsById();
+    step.order?.[side].forEach((id, i) => {
+      const obj = current.get(id);
+      if (obj !== undefined) { this.canvas.moveObjectTo(obj, i); }
+    });
+    if (step.background !== undefined) {
+      this.canvas.backgroundColor = step.background[side].color as string;
+      this.canvas.backgroundImage = image;
+    }
+    if (step.data !== undefined) {
+      this.data?.write(step.data[side]);
+    }
+    this.snapshot = this.takeSnapshot();
+
+    // objects that changed or moved in the stacking order
+    const moved = step.order === undefined ? []
+      : step.order.after.filter((id, i) => step.order!.before[i] !== id);
+    const touched = [...new Set([...step.changes.map(change => change.id), ...moved])]
+      .map(id => current.get(id))
+      .filter((o): o is fabric.FabricObject => o !== undefined && o.selectable && o.evented);
+    if (touched.length === 1) {
+      this.canvas.setActiveObject(touched[0]);
+    } else if (touched.length > 1) {
+      this.canvas.setActiveObject(new fabric.ActiveSelection(touched, { canvas: this.canvas }));
+    }
+    this.canvas.requestRenderAll();
+  }
+}
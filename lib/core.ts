@@ -1,9 +1,86 @@
-import { AlignmentButtonList, BorderStyleList, defaultButtons, defaultExtendedButtons, defaultShapes, type ButtonModes } from "./defaults.js";
+import { AlignmentButtonList, BorderStyleList, defaultButtons, defaultExtendedButtons, type ButtonModes } from "./defaults.js";
+import { resolveEditorOptions, type ImageEditorOptions, type ResolvedEditorOptions } from "./options.js";
 
 import * as fabric from 'fabric';
-import { UndoRedoStack } from "./undo-redo-stack.js";
+import { CanvasHistory, type SavedHistory } from "./canvasHistory.js";
+import { initializePathDrawing, type PathDrawing } from "./drawingPath.js";
+import { createFreehandBrush, defaultFreehandSettings, freehandBrushes, type FreehandBrush, type FreehandSettings } from "./freehand.js";
 import { alignObject, countDecimals, getActiveFontStyle, setActiveFontStyle } from "./utils.js";
 import { SaveInBrowser } from "./saveInBrowser.js";
+import {
+  DocumentConflictError,
+  IndexedDbStore,
+  LocalStorageStore,
+  type DocumentInfo,
+  type DocumentStorage,
+} from "./storage/index.js";
+import { autosaveDelay, RecoveryCopy } from "./storage/recovery.js";
+import { documentFormatVersion, migrateDocument, type LabelDocument } from "./documentFormat.js";
+import { EventEmitter, type EditorEventHandler, type ImageEditorEvents } from "./events.js";
+import {
+  Barcode,
+  barcodeSymbologies,
+  formatGs1,
+  gs1ApplicationIdentifiers,
+  gs1Symbologies,
+  isMatrixSymbology,
+  linearSymbologies,
+  matrixSymbologies,
+  qrErrorCorrectionLevels,
+  snapModuleSize,
+  splitGs1,
+  type BarcodeSymbology,
+  type Gs1Element,
+  type QrErrorCorrection,
+} from "./barcodes/index.js";
+import { labelLanguages, type LabelLanguageName } from "./languages/index.js";
+import { exportLabel, type LabelExportOptions } from "./languages/labelCommands.js";
+import { importZpl } from "./languages/zplImport.js";
+import { openPdf, renderPdfPage } from "./pdfImport.js";
+import {
+  printJob,
+  PrintTransportError,
+  type PrintStatusCallback,
+  type PrintTransport,
+} from "./printing/transport.js";
+import { WebUsbTransport } from "./printing/webUsb.js";
+import { DownloadTransport } from "./printing/download.js";
+import {
+  findObjectPlaceholders,
+  isValidFieldName,
+  mergeObject,
+  normalizeMergeFields,
+  placeholder,
+  renameObjectPlaceholder,
+  sampleRecord,
+  type MergeField,
+  type MergeRecord,
+} from "./dataMerge.js";
+import {
+  autoMapFields,
+  isDataFileName,
+  mapRecord,
+  parseDataFile,
+  type DataTable,
+  type FieldMapping,
+} from "./dataTable.js";
+import { batchFileExtension, batchFormats, exportBatch, type BatchFormat } from "./batch.js";
+import { exportFile, exportFormats, type ExportFormat, type FileExportOptions } from "./fileExport.js";
+import {
+  commonDpis,
+  convertMedia,
+  defaultLabelMedia,
+  formatLength,
+  fromDots,
+  getCanvasSizeInDots,
+  labelOrientations,
+  lengthUnits,
+  normalizeLabelMedia,
+  toDots,
+  unitDecimals,
+  type LabelMedia,
+  type LengthUnit,
+} from "./labelMedia.js";
 
 import sheet from './style.css' with { type: 'css' };
 document.adoptedStyleSheets.push(sheet);
@@ -16,16 +93,71 @@ document.adoptedStyleSheets.push(sheet);
  */
 export class ImageEditor {
   public canvas: fabric.Canvas;
-  history: UndoRedoStack;
+  history: CanvasHistory;
   mainPanelElement: HTMLElement;
   fileUploadInput: HTMLInputElement;
   toolbar: HTMLDivElement;
 
   activeTool: ButtonModes | undefined;
 
+  /** Options with their defaults filled in. */
+  private readonly options: ResolvedEditorOptions;
+
+  private readonly events = new EventEmitter<ImageEditorEvents>();
+
+  private pathDrawing: PathDrawing | undefined;
+
+  /** Brush of the draw tool. */
+  private freehand: FreehandSettings = { ...defaultFreehandSettings };
+
+  /** Physical label the canvas represents, one canvas pixel per printer dot. */
+  private media: LabelMedia = { ...defaultLabelMedia };
+
+  /** Fields the label's {{field}} placeholders take their values from. */
+  private fields: MergeField[] = [];
+
+  private dataPreviewTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /** Records loaded for a batch, with the name of their file. */
+  private dataTable: DataTable | undefined;
+  private dataFileName = '';
+  private fieldMapping: FieldMapping = {};
+  /** Record shown in the data preview. */
+  private recordIndex = 0;
+
+  /** Printers offered by the print action, and the last one used. */
+  private printTransports: PrintTransport[] = [
+    ...(WebUsbTransport.isSupported() ? [new WebUsbTransport()] : []),
+    new DownloadTransport(),
+  ];
+  private printTransport = 0;
+  private printLanguage: LabelLanguageName = 'zpl';
+  private printTextAsGraphic = false;
+
+  /** Saved labels, and the one being edited once it is saved or opened. */
+  private readonly documents: DocumentStorage;
+  private documentInfo: DocumentInfo | undefined;
+  /** Copy of unsaved work written a while after each change, and whether there is unsaved work. */
+  private readonly recovery: RecoveryCopy;
+  private dirty = false;
+
+  /**
+   * @param {HTMLElement} containerElement element the editor is built in
+   * @param {Object} options toolbar buttons, shapes, label size, storage key and features
+   * @throws {Error} on unknown option, button or feature names
+   */
   constructor(
     public readonly containerElement: HTMLElement,
+    options: ImageEditorOptions = {},
   ) {
+    this.options = resolveEditorOptions(options);
+    if (this.options.printTransports !== undefined) {
+      this.printTransports = this.options.printTransports;
+    }
+    if (this.options.media !== undefined) {
+      this.media = normalizeLabelMedia({ ...this.media, ...this.options.media });
+    }
+
     // Constrct common basic structures the interface needs to work. This avoids
     // a lot of undefined checks elsewhere..
     this.containerElement.classList.add('default-container');
@@ -48,7 +180,7 @@ export class ImageEditor {
 
     this.fileUploadInput = this.createElement('input', 'btn-image-upload') as HTMLInputElement;
     this.fileUploadInput.type = "file";
-    this.fileUploadInput.accept = "image/*";
+    this.fileUploadInput.accept = "image/*,.pdf,.zpl,.csv,.tsv,.json";
     this.fileUploadInput.multiple = true;
     this.fileUploadInput.hidden = true;
     this.containerElement.appendChild(this.fileUploadInput);
@@ -56,29 +188,660 @@ export class ImageEditor {
       'change',
       (e) => this.processFiles((e.target as HTMLInputElement).files));
 
-    this.history = new UndoRedoStack();
+    this.history = new CanvasHistory(this.canvas, this.options.history, () => this.thumbnail(), {
+      read: () => this.getMergeFields(),
+      write: fields => {
+        this.fields = normalizeMergeFields(fields);
+        this.fieldMapping = autoMapFields(this.fields, this.dataTable?.columns ?? [], this.fieldMapping);
+        this.updateDataPanel();
+      },
+    });
+    this.documents = this.options.storage ?? (IndexedDbStore.isSupported()
+      ? new IndexedDbStore(this.options.storageKey)
+      : new LocalStorageStore(this.options.storageKey));
+    this.recovery = new RecoveryCopy(`${this.options.storageKey}:recovery`, autosaveDelay,
+      error => this.showRecoveryFailure(error));
 
     this.init();
   }
 
   /**
-   * Get current state of canvas as object
+   * Get the label document: format version, label media, printer settings, merge fields and canvas
    * @returns {Object}
    */
-  public getCanvasJSON() {
-    return this.canvas?.toJSON();
+  public getCanvasJSON(): LabelDocument {
+    return {
+      formatVersion: documentFormatVersion,
+      media: this.getLabelMedia(),
+      printer: { language: this.printLanguage, textAsGraphic: this.printTextAsGraphic },
+      fields: this.getMergeFields(),
+      canvas: this.canvas.toJSON(),
+    };
   }
 
   /**
-   * Set canvas status by object
-   * @param {Object} current the object of fabric canvas status
+   * Load a label document, documents of earlier versions and bare fabric canvas JSON are upgraded first
+   * @param {String} current JSON of the document as getCanvasJSON() returns it
+   * @returns {Promise<String[]>} resolves once the canvas is loaded, with what couldn't be upgraded and was dropped
+   * @throws {DocumentFormatError} when the document isn't a label or comes from a newer version
    */
   public setCanvasJSON(current: string) {
-    if (this.canvas === undefined) { return; }
-    this.canvas.loadFromJSON(
-      JSON.parse(current),
-      this.canvas.renderAll.bind(this.canvas)
-    );
+    return this.loadDocument(JSON.parse(current));
+  }
+
+  /**
+   * Load a document as getCanvasJSON() returns it or save() stores it, in any format version
+   * @param {Object} doc document, with the history when it was saved with it
+   * @returns {Promise<String[]>} what couldn't be upgraded and was dropped
+   */
+  private async loadDocument(doc: unknown) {
+    const warnings = new Set<string>();
+    const { media, printer, fields, canvas, history } = migrateDocument(doc, message => warnings.add(message));
+    if (media !== undefined) {
+      this.setLabelMedia(media);
+    }
+    this.printLanguage = printer.language;
+    this.printTextAsGraphic = printer.textAsGraphic;
+    this.setMergeFields(fields);
+    await this.canvas.loadFromJSON(canvas);
+    this.canvas.requestRenderAll();
+    this.restoreHistory(history);
+    this.emitChange();
+    return [...warnings];
+  }
+
+  /**
+   * Tell the user what was dropped from a label they opened
+   * @param {String[]} warnings from loadDocument()
+   */
+  private showLoadWarnings(warnings: string[]) {
+    if (warnings.length > 0) {
+      window.alert(warnings.join('\n'));
+    }
+  }
+
+  /**
+   * Listen to an editor event
+   * @param {String} name change, selectionChange, toolChange, beforeSave, afterSave, historyChange or dirtyChange
+   * @param {Function} handler called with the event
+   * @returns {Function} removes the handler again
+   */
+  public on<K extends keyof ImageEditorEvents>(name: K, handler: EditorEventHandler<ImageEditorEvents[K]>) {
+    return this.events.on(name, handler);
+  }
+
+  /**
+   * Stop listening to an editor event
+   * @param {String} name event name
+   * @param {Function} handler handler given to on()
+   */
+  public off<K extends keyof ImageEditorEvents>(name: K, handler: EditorEventHandler<ImageEditorEvents[K]>) {
+    this.events.off(name, handler);
+  }
+
+  /**
+   * Save the document in the storage, unless a beforeSave handler prevents it
+   * @param {String} name name of the label, kept from the last save or open when undefined
+   * @param {Boolean} overwrite replace the stored label even if it was changed elsewhere since it was opened
+   * @returns {Promise<Boolean>} whether the document was saved
+   * @throws {StorageQuotaError} when the storage is full
+   * @throws {DocumentConflictError} when the label was changed elsewhere and overwrite is false
+   */
+  public async save(name?: string, overwrite = false) {
+    const doc = this.getCanvasJSON();
+    let prevented = false;
+    this.events.emit('beforeSave', { document: doc, preventDefault: () => { prevented = true; } });
+    if (prevented) { return false; }
+
+    const saved = this.withHistory(doc);
+    const thumbnail = this.thumbnail(160);
+    if (this.documentInfo === undefined) {
+      this.documentInfo = await this.documents.create(name ?? 'Untitled label', saved, thumbnail);
+    } else {
+      const { id, revision } = this.documentInfo;
+      this.documentInfo = await this.documents.save(id, saved, {
+        thumbnail,
+        revision: overwrite ? undefined : revision,
+      });
+      if (name !== undefined && name !== this.documentInfo.name) {
+        this.documentInfo = await this.documents.rename(id, name);
+      }
+    }
+    this.recovery.clear();
+    this.setDirty(false);
+    this.events.emit('afterSave', { document: doc });
+    return true;
+  }
+
+  /**
+   * Add the undo history to a document when history.persist is on
+   * @param {Object} doc document as getCanvasJSON() returns it
+   */
+  private withHistory(doc: LabelDocument): Record<string, unknown> {
+    return this.options.history.persist ? { ...doc, history: this.history.toJSON() } : { ...doc };
+  }
+
+  /**
+   * Save from the toolbar, asking before overwriting a label changed elsewhere
+   * @param {HTMLElement} button save button, disabled while saving
+   * @param {String} name name of the label
+   */
+  private async saveFromToolbar(button: HTMLElement, name: string) {
+    if (button.classList.contains('busy')) { return; }
+    button.classList.add('busy');
+    button.setAttribute('disabled', '');
+    try {
+      await this.save(name).catch(async e => {
+        if (!(e instanceof DocumentConflictError)
+          || !window.confirm(`${e.message} Overwrite it with this version?`)) {
+          throw e;
+        }
+        await this.save(name, true);
+      });
+    } catch (e) {
+      window.alert((e as Error).message);
+    } finally {
+      button.classList.remove('busy');
+      button.removeAttribute('disabled');
+    }
+  }
+
+  /**
+   * Get the name and times of the label being edited
+   * @returns {Object} undefined until the label is saved or opened
+   */
+  public getDocumentInfo() {
+    return this.documentInfo === undefined ? undefined : { ...this.documentInfo };
+  }
+
+  /**
+   * List the labels saved in the browser, the most recently modified first
+   */
+  public listDocuments() {
+    return this.documents.list();
+  }
+
+  /**
+   * Open a saved label, later saves replace it
+   * @param {String} id id from listDocuments()
+   * @returns {Promise<String[]>} what couldn't be upgraded and was dropped, e.g. fabric v3 clipTo functions
+   */
+  public async openDocument(id: string) {
+    const { document: doc, ...info } = await this.documents.load(id);
+    this.pathDrawing?.finish();
+    const warnings = await this.loadDocument(doc);
+    this.documentInfo = info;
+    this.recovery.clear();
+    this.setDirty(false);
+    return warnings;
+  }
+
+  /**
+   * Start a new empty label, the first save asks for its name
+   */
+  public newDocument() {
+    this.pathDrawing?.finish();
+    this.documentInfo = undefined;
+    this.canvas.clear();
+    this.canvas.backgroundColor = 'white';
+    this.canvas.requestRenderAll();
+    this.restoreHistory(undefined);
+    this.emitChange();
+    this.recovery.clear();
+    this.setDirty(false);
+  }
+
+  /**
+   * Check whether the label changed since it was last saved or opened
+   */
+  public isDirty() {
+    return this.dirty;
+  }
+
+  /**
+   * Mark the label changed or saved, a changed label gets a recovery copy when autosave is on
+   */
+  private setDirty(dirty: boolean) {
+    if (!dirty) {
+      this.recovery.cancel();
+      this.showRecoveryFailure(undefined);
+    } else if (this.options.features.autosave) {
+      // serialized once the changes stop, not on every change
+      this.recovery.schedule(() => ({
+        documentId: this.documentInfo?.id,
+        document: this.withHistory(this.getCanvasJSON()),
+      }));
+    }
+
+    if (dirty === this.dirty) { return; }
+    this.dirty = dirty;
+    this.containerElement.classList.toggle('unsaved', dirty);
+    this.toolbar.querySelector('#save')?.classList.toggle('dirty', dirty);
+    this.events.emit('dirtyChange', { dirty });
+  }
+
+  /**
+   * Mark the save button while unsaved work has no recovery copy, e.g. because localStorage is full
+   * @param {Error} error why the copy couldn't be written, undefined once it was written or the work saved
+   */
+  private showRecoveryFailure(error: Error | undefined) {
+    const save = this.toolbar.querySelector<HTMLElement>('#save');
+    if (save === null) { return; }
+    save.dataset.title ??= save.title;
+    save.classList.toggle('recovery-failed', error !== undefined);
+    save.title = error === undefined ? save.dataset.title
+      : `Unsaved work has no recovery copy, save the label to keep it. ${error.message}`;
+  }
+
+  /**
+   * Check whether there is a change to undo
+   */
+  public canUndo() {
+    return this.history.canUndo();
+  }
+
+  /**
+   * Check whether there is an undone change to redo
+   */
+  public canRedo() {
+    return this.history.canRedo();
+  }
+
+  /**
+   * Tell listeners the document changed, it is only serialized when someone listens
+   */
+  private emitChange() {
+    this.setDirty(true);
+    if (this.events.has('change')) {
+      this.events.emit('change', { document: this.getCanvasJSON() });
+    }
+  }
+
+  private emitHistoryChange() {
+    this.updateHistoryPanel();
+    this.events.emit('historyChange', { canUndo: this.history.canUndo(), canRedo: this.history.canRedo() });
+  }
+
+  /**
+   * Start the history of a loaded document, or continue the one saved with it
+   * @param {Object} saved history saved with the document, used when history.persist is on
+   */
+  private restoreHistory(saved: SavedHistory | undefined) {
+    if (this.options.history.persist) {
+      this.history.restore(saved);
+    } else {
+      this.history.reset();
+    }
+    this.emitHistoryChange();
+  }
+
+  /**
+   * Draw the canvas small, for the history panel and the saved labels
+   * @param {Number} size largest side in pixels
+   */
+  private thumbnail(size = 96) {
+    const longest = Math.max(this.canvas.getWidth(), this.canvas.getHeight());
+    try {
+      return this.canvas.toDataURL({ format: 'png', multiplier: Math.min(1, size / longest) });
+    } catch {
+      // images from other origins taint the canvas
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the physical label media the canvas represents
+   * @returns {Object} a copy of the label media
+   */
+  public getLabelMedia(): LabelMedia {
+    return { ...this.media };
+  }
+
+  /**
+   * Set the physical label media and resize the canvas to match, objects keep their place
+   * @param {Object} media label size, unit, DPI, orientation and corner radius
+   * @param {Boolean} rescale on a DPI change, scale the objects so they keep their physical size
+   */
+  public setLabelMedia(media: Partial<LabelMedia>, rescale = false) {
+    const previousDpi = this.media.dpi;
+    this.media = normalizeLabelMedia({ ...this.media, ...media });
+    if (rescale && this.media.dpi !== previousDpi) {
+      this.scaleContent(this.media.dpi / previousDpi);
+      this.canvas.fire('object:modified');
+    }
+    this.canvas.setDimensions(getCanvasSizeInDots(this.media));
+    this.updateCornerPreview();
+    this.canvas.requestRenderAll();
+    this.updateGeometryReadout();
+    this.updateBackgroundPanel();
+    this.emitChange();
+  }
+
+  /**
+   * Set the color of the label stock, shown on screen and in images but not printed
+   * @param {String} color CSS color
+   */
+  public setBackgroundColor(color: string) {
+    this.canvas.backgroundColor = color;
+    this.canvas.requestRenderAll();
+    this.canvas.fire('object:modified');
+    this.updateBackgroundPanel();
+  }
+
+  /**
+   * Set an image behind the objects, scaled to fit the label, it prints as a graphic
+   * @param {String} url image URL or data URL, undefined to remove the image
+   */
+  public async setBackgroundImage(url: string | undefined) {
+    if (url === undefined) {
+      this.canvas.backgroundImage = undefined;
+    } else {
+      const image = await fabric.FabricImage.fromURL(url);
+      const { width, height } = getCanvasSizeInDots(this.media);
+      const scale = Math.min(width / image.width, height / image.height);
+      image.set({ left: 0, top: 0, originX: 'left', originY: 'top', scaleX: scale, scaleY: scale });
+      this.canvas.backgroundImage = image;
+    }
+    this.canvas.requestRenderAll();
+    this.canvas.fire('object:modified');
+    this.updateBackgroundPanel();
+  }
+
+  /**
+   * Get the brush settings of the draw tool
+   */
+  public getFreehandSettings(): FreehandSettings {
+    return { ...this.freehand };
+  }
+
+  /**
+   * Set the brush of the draw tool
+   * @param {Object} settings brush (pencil, spray or eraser), width, color, smoothing and simplification
+   */
+  public setFreehandSettings(settings: Partial<FreehandSettings>) {
+    this.freehand = { ...this.freehand, ...settings };
+    if (this.activeTool === 'draw') {
+      this.canvas.freeDrawingBrush = createFreehandBrush(this.canvas, this.freehand);
+    }
+    this.updateDrawPanel();
+  }
+
+  /**
+   * Get the merge fields of the label
+   * @returns {Array} copies of the fields with their sample values
+   */
+  public getMergeFields(): MergeField[] {
+    return this.fields.map(f => ({ ...f }));
+  }
+
+  /**
+   * Set the merge fields of the label, malformed or repeated names are dropped
+   * @param {Array} fields field names and sample values
+   */
+  public setMergeFields(fields: ReadonlyArray<MergeField> | undefined) {
+    this.fields = normalizeMergeFields(fields);
+    this.fieldMapping = autoMapFields(this.fields, this.dataTable?.columns ?? [], this.fieldMapping);
+    this.updateDataPanel();
+    this.commitFields('Changed fields');
+  }
+
+  /**
+   * Record a change to the merge fields as an undo step, the same way as changes to the canvas
+   * @param {String} name name of the step in the history panel
+   * @param {Boolean} coalesce merge with the last step when it changed the fields moments ago, e.g. while typing
+   */
+  private commitFields(name: string, coalesce = false) {
+    if (this.history.commit(coalesce, name)) {
+      this.emitHistoryChange();
+    }
+    this.emitChange();
+  }
+
+  /**
+   * Load the records of a CSV or JSON file for batch printing
+   * @param {File} file .csv, .tsv or .json file, JSON holding an array of objects
+   * @throws {DataFileError} when the file can't be read as records
+   */
+  public async loadDataFile(file: File) {
+    this.setDataTable(parseDataFile(file.name, await file.text()), file.name);
+  }
+
+  /**
+   * Set the records for batch printing, fields are mapped to columns of the same name
+   * @param {Object} table column names and records, undefined to go back to sample values
+   * @param {String} name where the records came from, shown in the data panel
+   */
+  public setDataTable(table: DataTable | undefined, name = '') {
+    this.dataTable = table;
+    this.dataFileName = name;
+    this.recordIndex = 0;
+    this.fieldMapping = autoMapFields(this.fields, table?.columns ?? [], this.fieldMapping);
+    this.updateDataPanel();
+  }
+
+  /**
+   * Get the records loaded for batch printing
+   */
+  public getDataTable(): DataTable | undefined {
+    return this.dataTable;
+  }
+
+  /**
+   * Get the column each field takes its value from
+   */
+  public getFieldMapping(): FieldMapping {
+    return { ...this.fieldMapping };
+  }
+
+  /**
+   * Set the column each field takes its value from, unmapped fields use their sample value
+   * @param {Object} mapping column name by field name
+   */
+  public setFieldMapping(mapping: FieldMapping) {
+    this.fieldMapping = { ...this.fieldMapping, ...mapping };
+    this.updateDataPanel();
+  }
+
+  /**
+   * Get the merge records of the batch, mapped to the label's fields
+   * @returns {Array} one record per data row, or the sample values when no data is loaded
+   */
+  public getRecords(): MergeRecord[] {
+    if (this.dataTable === undefined) { return [sampleRecord(this.fields)]; }
+    return this.dataTable.records.map(row => mapRecord(row, this.fields, this.fieldMapping));
+  }
+
+  /**
+   * Export one label per record in a single file
+   * @param {String} format png for a zip of images, pdf, or zpl, epl or tspl for a command stream
+   * @param {Function} onProgress called with the labels done and the total
+   * @param {Object} options export options for command streams
+   * @returns {Blob} the batch file
+   * @throws {BatchExportError} when the label of a record can't be exported
+   */
+  public async exportBatch(
+    format: BatchFormat,
+    onProgress?: (done: number, total: number) => void,
+    options: LabelExportOptions = {},
+  ) {
+    return exportBatch(this.getRecords(), format, {
+      ...options,
+      render: record => this.render(record),
+      media: this.media,
+      onProgress,
+    });
+  }
+
+  /**
+   * Export the label as an image or PDF at the size of the label, placeholders show their sample values
+   * @param {String} format png for an image of the printer dots, svg, or pdf
+   * @param {Object} options whether SVG and PDF text is drawn as outlines
+   * @returns {Blob} the file
+   */
+  public async exportFile(format: ExportFormat, options: FileExportOptions = {}) {
+    const canvas = await this.render();
+    try {
+      return exportFile(canvas, format, this.media, options);
+    } finally {
+      canvas.dispose();
+    }
+  }
+
+  /**
+   * Draw the label with its placeholders replaced, the template is left as is
+   * @param {Object} record values by field name, the sample values by default
+   * @returns {Object} a fabric static canvas in printer dots
+   */
+  public async render(record: MergeRecord = sampleRecord(this.fields)) {
+    const canvas = new fabric.StaticCanvas(undefined, {
+      ...getCanvasSizeInDots(this.media),
+      renderOnAddRemove: false,
+    });
+    await canvas.loadFromJSON(this.canvas.toJSON());
+    canvas.getObjects().forEach(o => mergeObject(o, record));
+    canvas.renderAll();
+    return canvas;
+  }
+
+  /**
+   * Export the label in a printer command language, placeholders print their sample values
+   * @param {String} language zpl, epl or tspl
+   * @param {Object} options export options
+   * @returns {Promise<String>} commands for one label
+   */
+  public async getPrinterCommands(language: LabelLanguageName, options: LabelExportOptions = {}) {
+    const canvas = await this.render();
+    try {
+      return exportLabel(canvas, this.media, labelLanguages[language], options);
+    } finally {
+      canvas.dispose();
+    }
+  }
+
+  /**
+   * Export the label as ZPL II for Zebra printers, placeholders print their sample values
+   * @param {Object} options export options
+   * @returns {Promise<String>} ZPL from ^XA to ^XZ
+   */
+  public async getZPL(options: LabelExportOptions = {}) {
+    return this.getPrinterCommands('zpl', options);
+  }
+
+  /**
+   * Send the label to a printer, placeholders print their sample values
+   * @param {Object} transport printer connection, connected first when needed
+   * @param {String} language zpl, epl or tspl
+   * @param {Object} options export options
+   * @param {Function} onStatus called with the job status, from connecting to sent or failed
+   * @throws {PrintTransportError} when the printer can't be reached
+   */
+  public async print(
+    transport: PrintTransport,
+    language: LabelLanguageName = 'zpl',
+    options: LabelExportOptions = {},
+    onStatus?: PrintStatusCallback,
+  ) {
+    const labelLanguage = labelLanguages[language];
+    await printJob(transport, {
+      data: labelLanguage.encode(await this.getPrinterCommands(language, options)),
+      fileName: `label.${labelLanguage.fileExtension}`,
+    }, onStatus);
+  }
+
+  /**
+   * Get the printers offered by the print action
+   */
+  public getPrintTransports(): PrintTransport[] {
+    return [...this.printTransports];
+  }
+
+  /**
+   * Set the printers offered by the print action
+   * @param {Array} transports e.g. a WebUsbTransport, RelayTransport or DownloadTransport
+   */
+  public setPrintTransports(transports: ReadonlyArray<PrintTransport>) {
+    this.printTransports = [...transports];
+    this.printTransport = 0;
+  }
+
+  /**
+   * Replace the canvas content with a ZPL II label
+   * @param {String} zpl ZPL source, only the first label is read
+   * @returns {Array} the commands that couldn't be imported
+   */
+  public async importZPL(zpl: string) {
+    const label = await importZpl(zpl);
+
+    if (label.width !== undefined || label.height !== undefined) {
+      const { unit, dpi } = this.media;
+      const width = label.width ?? getCanvasSizeInDots(this.media).width;
+      const height = label.height ?? getCanvasSizeInDots(this.media).height;
+      this.setLabelMedia({
+        width: fromDots(width, unit, dpi),
+        height: fromDots(height, unit, dpi),
+        orientation: 'portrait',
+      });
+    }
+
+    this.canvas.discardActiveObject();
+    this.batch(() => {
+      this.canvas.remove(...this.canvas.getObjects());
+      this.canvas.add(...label.objects);
+    }, 'Imported ZPL');
+    this.canvas.requestRenderAll();
+
+    return label.warnings;
+  }
+
+  /**
+   * Replace the label with a dropped or uploaded ZPL file once the user agrees, and show what was left out
+   * @param {File} file ZPL file
+   */
+  private async importZplFile(file: File) {
+    if ((this.dirty || this.canvas.getObjects().length > 0)
+      && !window.confirm(`Replace the label with ${file.name}?`)) {
+      return;
+    }
+
+    const warnings = await this.importZPL(await file.text());
+    if (warnings.length > 0) {
+      const shown = warnings.slice(0, 10);
+      if (warnings.length > shown.length) {
+        shown.push(`and ${warnings.length - shown.length} more`);
+      }
+      window.alert(`Some of ${file.name} could not be imported:\n${shown.join('\n')}`);
+    }
+  }
+
+  /**
+   * Place a page of a PDF on the label, drawn at the label's DPI and scaled down to fit
+   * @param {Blob} file PDF file
+   * @param {Number} pageNumber page to place, from 1
+   * @throws {PdfImportError} when the file isn't a readable PDF or has no such page
+   */
+  public async importPdf(file: Blob, pageNumber = 1) {
+    const pdf = await openPdf(await file.arrayBuffer());
+    try {
+      await this.placePdfPage(await renderPdfPage(pdf, pageNumber, this.media.dpi));
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  /**
+   * Add a drawn PDF page as an image in the middle of the label, pages larger than the label are scaled down
+   * @param {HTMLCanvasElement} page page drawn at the label's DPI
+   */
+  private async placePdfPage(page: HTMLCanvasElement) {
+    const img = await fabric.FabricImage.fromURL(page.toDataURL('image/png'));
+    const { width, height } = getCanvasSizeInDots(this.media);
+    img.scale(Math.min(1, width / page.width, height / page.height));
+    this.canvas.add(img);
+    this.canvas.centerObject(img);
+    img.setCoords();
+    this.canvas.setActiveObject(img);
+    this.canvas.requestRenderAll();
+    this.canvas.fire('object:modified');
   }
 
   /**
@@ -86,7 +849,14 @@ export class ImageEditor {
    * @param {String} id tool id
    */
   public setActiveTool(id: ButtonModes) {
+    if (id !== 'path') {
+      this.pathDrawing?.finish();
+    }
+    const previous = this.activeTool;
     this.activeTool = id;
+    if (previous !== id) {
+      this.events.emit('toolChange', { tool: id, previous });
+    }
 
     // Set only the active tool as active
     this.toolbar.querySelectorAll('button').forEach(e => e.classList.remove('active'));
@@ -102,11 +872,14 @@ export class ImageEditor {
 
       if (id === 'select') {
         console.log('selection');
-        let selectType: 'group' | 'textbox' | 'image' | 'other';
+        let selectType: 'group' | 'textbox' | 'image' | 'barcode' | 'other';
         switch (true) {
           default:
             selectType = 'other';
             break;
+          case activeSelection.at(0) instanceof Barcode:
+            selectType = 'barcode';
+            break;
           case activeSelection.at(0) instanceof fabric.FabricImage:
             selectType = 'image';
             break;
@@ -119,6 +892,8 @@ export class ImageEditor {
         }
         this.containerElement.querySelector(`.toolpanel#select-panel`)
           ?.setAttribute('class', `toolpanel visible type-${selectType}`);
+        this.updateGeometryReadout();
+        this.updateBarcodeSettings();
       } else {
         this.canvas.discardActiveObject();
         this.canvas.requestRenderAll();
@@ -126,6 +901,7 @@ export class ImageEditor {
     }
 
     this.canvas.isDrawingMode = false;
+    this.canvas.freeDrawingBrush = undefined;
     this.canvas.defaultCursor = 'default';
     this.canvas.selection = true;
     this.canvas.forEachObject(o => {
@@ -143,6 +919,19 @@ export class ImageEditor {
           o.evented = false
         });
         break;
+      case 'draw':
+        this.canvas.isDrawingMode = true;
+        this.canvas.freeDrawingBrush = createFreehandBrush(this.canvas, this.freehand);
+        this.updateDrawPanel();
+        break;
+      case 'path':
+        this.canvas.defaultCursor = 'crosshair';
+        this.canvas.selection = false;
+        this.canvas.forEachObject(o => {
+          o.selectable = false;
+          o.evented = false;
+        });
+        break;
       case 'textbox':
         this.canvas.isDrawingMode = true
         this.canvas.defaultCursor = 'crosshair'
@@ -152,6 +941,24 @@ export class ImageEditor {
           o.evented = false
         });
         break;
+      case 'barcode':
+      case 'qrcode':
+        this.canvas.defaultCursor = 'crosshair';
+        this.canvas.selection = false;
+        this.canvas.forEachObject(o => {
+          o.selectable = false;
+          o.evented = false;
+        });
+        break;
+      case 'data':
+        this.updateDataPanel();
+        break;
+      case 'background':
+        this.updateBackgroundPanel();
+        break;
+      case 'history':
+        this.updateHistoryPanel();
+        break;
       case 'upload':
         this.openDragDropPanel();
         break;
@@ -161,24 +968,59 @@ export class ImageEditor {
   }
 
   /**
-   * Event handler when perform undo
+   * Make the changes of a function one undo step
+   * @param {Function} fn changes to the canvas, run right away
+   * @param {String} name name of the step in the history panel, made up from the changes by default
    */
-  private async undo() {
-    const op = this.history.undo();
-    if (op !== undefined) {
-      await this.canvas.loadFromJSON(JSON.parse(op));
-      this.canvas.requestRenderAll();
+  public batch(fn: () => void, name?: string) {
+    if (this.history.batch(fn, name)) {
+      this.emitHistoryChange();
+      this.emitChange();
     }
   }
 
   /**
-   * Event handler when perform redo
+   * List the states the history panel offers
+   * @returns {Object} names, times and thumbnails, oldest first, and the index of the current state
    */
-  private async redo() {
-    const op = this.history.redo();
-    if (op !== undefined) {
-      await this.canvas.loadFromJSON(JSON.parse(op));
-      this.canvas.requestRenderAll();
+  public getHistory() {
+    return this.history.getEntries();
+  }
+
+  /**
+   * Undo or redo until a state of the history is reached
+   * @param {Number} index index of the state in getHistory()
+   */
+  public async goToHistoryStep(index: number) {
+    this.pathDrawing?.finish();
+    if (await this.history.goTo(index)) {
+      this.emitHistoryChange();
+      this.updateGeometryReadout();
+      this.emitChange();
+    }
+  }
+
+  /**
+   * Undo the last change, the objects it changed are selected
+   */
+  public async undo() {
+    this.pathDrawing?.finish();
+    if (await this.history.undo()) {
+      this.emitHistoryChange();
+      this.updateGeometryReadout();
+      this.emitChange();
+    }
+  }
+
+  /**
+   * Redo the last undone change, the objects it changed are selected
+   */
+  public async redo() {
+    this.pathDrawing?.finish();
+    if (await this.history.redo()) {
+      this.emitHistoryChange();
+      this.updateGeometryReadout();
+      this.emitChange();
     }
   }
 
@@ -200,7 +1042,9 @@ export class ImageEditor {
    * Initialize image editor
    */
   private init() {
-    this.configUndoRedoStack();
+    if (this.options.features.keyboard) {
+      this.configUndoRedoStack();
+    }
 
     this.initializeToolbar();
 
@@ -208,11 +1052,26 @@ export class ImageEditor {
 
     this.initializeSelectionSettings();
 
+    this.initializeDataPanel();
+
+    this.initializeDrawPanel();
+
+    this.initializeBackgroundPanel();
+
+    this.initializeHistoryPanel();
+
     this.initializeCanvas();
 
     this.initializeLineDrawing();
+    this.pathDrawing = initializePathDrawing(this.canvas, () => this.activeTool === 'path', () => {
+      this.canvas.requestRenderAll();
+      this.canvas.fire('object:modified');
+    });
     this.initializeTextBoxDrawing();
-    this.initializeCopyPaste();
+    this.initializeBarcodeDrawing();
+    if (this.options.features.copyPaste) {
+      this.initializeCopyPaste();
+    }
 
     this.extendHideShowToolPanel();
   }
@@ -286,6 +1145,105 @@ export class ImageEditor {
     return input;
   }
 
+  /**
+   * Show position and size of the active selection in label units
+   */
+  private updateGeometryReadout() {
+    const readout = this.containerElement.querySelector('#select-panel .geometry-section');
+    const obj = this.canvas.getActiveObject();
+    if (readout === null || obj === undefined) { return; }
+
+    const bound = obj.getBoundingRect();
+    const values = {
+      'geometry-x': bound.left,
+      'geometry-y': bound.top,
+      'geometry-width': bound.width,
+      'geometry-height': bound.height,
+    };
+    Object.entries(values).forEach(([id, dots]) => {
+      const elem = readout.querySelector(`#${id}`);
+      if (elem !== null) {
+        elem.textContent = formatLength(dots, this.media);
+      }
+    });
+  }
+
+  /**
+   * Show the settings of the selected barcode
+   */
+  private updateBarcodeSettings() {
+    const section = this.containerElement.querySelector('#select-panel .barcode-section');
+    const obj = this.canvas.getActiveObject();
+    if (section === null || !(obj instanceof Barcode)) { return; }
+
+    (section.querySelector('#barcode-symbology') as HTMLSelectElement).value = obj.symbology;
+    (section.querySelector('#barcode-data') as HTMLInputElement).value = obj.data;
+    (section.querySelector('#barcode-module-width') as HTMLInputElement).value = obj.moduleWidth.toString();
+    (section.querySelector('#barcode-height') as HTMLInputElement).value = obj.barHeight.toString();
+    (section.querySelector('#barcode-ratio') as HTMLInputElement).value = obj.ratio.toString();
+    (section.querySelector('#barcode-show-text') as HTMLInputElement).checked = obj.showText;
+    (section.querySelector('#barcode-error-correction') as HTMLSelectElement).value = obj.errorCorrection;
+    (section.querySelector('#barcode-security-level') as HTMLInputElement).value = obj.securityLevel.toString();
+    (section.querySelector('#barcode-columns') as HTMLInputElement).value = obj.columns.toString();
+    section.querySelector('#barcode-module-size')!.textContent = formatLength(obj.moduleWidth, this.media, 2);
+    (section.querySelector('#barcode-gs1') as HTMLInputElement).checked = obj.gs1;
+    const gs1 = obj.gs1 && gs1Symbologies.includes(obj.symbology);
+    if (gs1) {
+      this.updateGs1Fields(section.querySelector('.barcode-gs1-fields')!, splitGs1(obj.data) ?? []);
+    }
+
+    // only show the options the symbology uses
+    const matrix = isMatrixSymbology(obj.symbology);
+    const options: ReadonlyArray<string> = isMatrixSymbology(obj.symbology)
+      ? matrixSymbologies[obj.symbology].options
+      : [];
+    const shown = {
+      'barcode-plain-data': !gs1,
+      'barcode-gs1': gs1Symbologies.includes(obj.symbology),
+      'barcode-gs1-fields': gs1,
+      'barcode-ratio': !isMatrixSymbology(obj.symbology) && linearSymbologies[obj.symbology].usesRatio,
+      'barcode-bar-height': !matrix,
+      'barcode-show-text': !matrix,
+      'barcode-error-correction': options.includes('errorCorrection'),
+      'barcode-security-level': options.includes('securityLevel'),
+      'barcode-columns': options.includes('columns'),
+    };
+    Object.entries(shown).forEach(([name, visible]) =>
+      section.querySelector(`.${name}`)?.classList.toggle('hidden', !visible));
+    section.querySelector('.barcode-error')!.textContent = obj.error ?? '';
+  }
+
+  /**
+   * Show one row per GS1 element, keeping the rows being typed in
+   */
+  private updateGs1Fields(container: Element, elements: Gs1Element[]) {
+    const rows = [...container.querySelectorAll('.gs1-field')];
+    const sameFields = rows.length === elements.length
+      && rows.every((row, i) => (row.querySelector('.gs1-ai') as HTMLSelectElement).value === elements[i].ai);
+
+    if (sameFields) {
+      rows.forEach((row, i) => {
+        const value = row.querySelector('.gs1-value') as HTMLInputElement;
+        if (value.value !== elements[i].value) { value.value = elements[i].value; }
+      });
+      return;
+    }
+
+    rows.forEach(row => row.remove());
+    const addButton = container.querySelector('.gs1-add');
+    elements.forEach(element => {
+      const ai = this.createElement('select', undefined, ['gs1-ai'],
+        gs1ApplicationIdentifiers.map(a => this.createOption(a.ai, `(${a.ai}) ${a.title}`, a.ai === element.ai))
+      );
+      const value = this.createElement('input', undefined, ['gs1-value']) as HTMLInputElement;
+      value.type = 'text';
+      value.value = element.value;
+      const remove = this.createElement('button', undefined, ['gs1-remove'], [], '×');
+      remove.title = 'Remove field';
+      container.insertBefore(this.createElement('div', undefined, ['gs1-field'], [ai, value, remove]), addButton);
+    });
+  }
+
   private createOption(value: string, text: string, selected =false) {
     const o = this.createElement('option') as HTMLOptionElement;
     o.value = value;
@@ -294,6 +1252,15 @@ export class ImageEditor {
     return o;
   }
 
+  /**
+   * Create a label for an input, the input needs an id
+   */
+  private createLabel(text: string, input: HTMLElement) {
+    const elem = this.createElement('label', undefined, [], [], text);
+    elem.setAttribute('for', input.id);
+    return elem;
+  }
+
   /**
    * Add features to hide/show tool panel
    */
@@ -313,46 +1280,295 @@ export class ImageEditor {
     mainButtons.classList.add('main-buttons');
     this.toolbar.appendChild(mainButtons);
 
-    defaultButtons.forEach(item => {
-      const elem = document.createElement('button');
-      elem.id = item.name;
-      elem.innerHTML = item.icon;
-      mainButtons.appendChild(elem);
-      elem.addEventListener('click', () => this.setActiveTool(item.name));
+    this.options.buttons.forEach(name => {
+      const item = defaultButtons.find(b => b.name === name)!;
+      const elem = document.createElement('button');
+      elem.id = item.name;
+      elem.innerHTML = item.icon;
+      mainButtons.appendChild(elem);
+      elem.addEventListener('click', () => this.setActiveTool(item.name));
+    });
+
+    const extendedButtons = document.createElement('div');
+    extendedButtons.classList.add('extended-buttons');
+    this.toolbar.appendChild(extendedButtons);
+
+    this.options.extendedButtons.forEach(name => {
+      const item = defaultExtendedButtons.find(b => b.name === name)!;
+      const elem = document.createElement("button");
+      elem.id = item.name;
+      elem.innerHTML = item.icon;
+      extendedButtons.appendChild(elem);
+      elem.addEventListener('click', () => {
+        const id = item.name;
+        if (id === 'save') {
+          // a new label is named on its first save
+          const name = this.documentInfo === undefined
+            ? window.prompt('Save the label as', 'Untitled label')
+            : this.documentInfo.name;
+          if (name !== null) {
+            this.saveFromToolbar(elem, name.trim() || 'Untitled label');
+          }
+        } else if (id === 'open') {
+          this.openDocumentsDialog();
+        } else if (id === 'clear') {
+          if (window.confirm('This will clear the canvas! Are you sure?')) {
+            this.canvas.clear();
+            this.canvas.fire('object:modified');
+          }
+        } else if (id === 'undo') {
+          this.undo();
+        } else if (id === 'redo') {
+          this.redo();
+        } else if (id === 'print') {
+          this.openPrintDialog();
+        } else if (id === 'export') {
+          this.openExportDialog();
+        }
+      });
+    });
+  }
+
+  private openExportDialog() {
+    const format = this.createElement('select', 'export-format', [],
+      Object.entries(exportFormats).map(([value, name]) => this.createOption(value, name))
+    ) as HTMLSelectElement;
+    const outlines = this.createElement('input', 'export-text-outlines') as HTMLInputElement;
+    outlines.type = 'checkbox';
+    const status = this.createElement('p', undefined, ['export-status']);
+    const save = this.createElement('button', undefined, ['export-save'], [], 'Export');
+    const cancel = this.createElement('button', undefined, ['export-cancel'], [], 'Close');
+
+    const modalContent = this.createElement('div', 'export-dialog', ['custom-modal-content'], [
+      this.createElement('p', undefined, ['title'], [], 'Export'),
+      this.createElement('div', undefined, ['input-container'], [this.createLabel('Format', format), format]),
+      this.createElement('div', undefined, ['input-container'],
+        [outlines, this.createLabel('Text as outlines', outlines)]),
+      status,
+      this.createElement('div', undefined, ['export-actions'], [save, cancel]),
+    ]);
+    const modalContainer = this.createElement('div', undefined, ['custom-modal-container'], [modalContent]);
+    document.querySelector('body')?.appendChild(modalContainer);
+
+    modalContainer.addEventListener('click', e => {
+      if (e.target === modalContainer) { modalContainer.remove(); }
+    });
+    cancel.addEventListener('click', () => modalContainer.remove());
+
+    // text in a PNG is pixels already
+    const updateOutlines = () => outlines.toggleAttribute('disabled', format.value === 'png');
+    format.addEventListener('change', updateOutlines);
+    updateOutlines();
+
+    save.addEventListener('click', async () => {
+      const selected = format.value as ExportFormat;
+      save.toggleAttribute('disabled', true);
+      status.textContent = '';
+      status.classList.remove('error');
+      try {
+        const blob = await this.exportFile(selected, { textAsOutlines: outlines.checked });
+        this.downloadBlob(blob, `${this.documentInfo?.name ?? 'label'}.${selected}`);
+        modalContainer.remove();
+      } catch (e) {
+        status.textContent = (e as Error).message;
+        status.classList.add('error');
+      } finally {
+        save.toggleAttribute('disabled', false);
+      }
+    });
+  }
+
+  private openPrintDialog() {
+    const transport = this.createElement('select', 'print-transport', [],
+      this.printTransports.map((t, i) => this.createOption(i.toString(), t.name, i === this.printTransport))
+    ) as HTMLSelectElement;
+    const language = this.createElement('select', 'print-language', [],
+      Object.entries(labelLanguages).map(([value, l]) => this.createOption(value, l.name, value === this.printLanguage))
+    ) as HTMLSelectElement;
+    const textAsGraphic = this.createElement('input', 'print-text-graphic') as HTMLInputElement;
+    textAsGraphic.type = 'checkbox';
+    textAsGraphic.checked = this.printTextAsGraphic;
+    const status = this.createElement('p', undefined, ['print-status']);
+    const print = this.createElement('button', undefined, ['print-send'], [], 'Print');
+    const cancel = this.createElement('button', undefined, ['print-cancel'], [], 'Close');
+
+    const modalContent = this.createElement('div', 'print-dialog', ['custom-modal-content'], [
+      this.createElement('p', undefined, ['title'], [], 'Print'),
+      this.createElement('div', undefined, ['input-container'], [this.createLabel('Printer', transport), transport]),
+      this.createElement('div', undefined, ['input-container'], [this.createLabel('Language', language), language]),
+      this.createElement('div', undefined, ['input-container'],
+        [textAsGraphic, this.createLabel('Text as graphic', textAsGraphic)]),
+      status,
+      this.createElement('div', undefined, ['print-actions'], [print, cancel]),
+    ]);
+    const modalContainer = this.createElement('div', undefined, ['custom-modal-container'], [modalContent]);
+    document.querySelector('body')?.appendChild(modalContainer);
+
+    modalContainer.addEventListener('click', e => {
+      if (e.target === modalContainer) { modalContainer.remove(); }
+    });
+    cancel.addEventListener('click', () => modalContainer.remove());
+
+    print.addEventListener('click', async () => {
+      this.printTransport = Number(transport.value);
+      // the language and text setting are saved with the label
+      if (language.value !== this.printLanguage || textAsGraphic.checked !== this.printTextAsGraphic) {
+        this.printLanguage = language.value as LabelLanguageName;
+        this.printTextAsGraphic = textAsGraphic.checked;
+        this.emitChange();
+      }
+      const selected = this.printTransports[this.printTransport];
+      if (selected === undefined) { return; }
+
+      print.toggleAttribute('disabled', true);
+      try {
+        await this.print(selected, this.printLanguage, { textAsGraphic: this.printTextAsGraphic }, e => {
+          const progress = e.total > 0 ? ` ${Math.round(e.sent / e.total * 100)}%` : '';
+          status.textContent = {
+            connecting: 'Connecting…',
+            sending: `Sending…${progress}`,
+            sent: 'Sent.',
+            failed: 'Failed: ',
+          }[e.status] + (e.message ?? '');
+          status.classList.toggle('error', e.status === 'failed');
+        });
+      } catch (e) {
+        // the failed status shows why the printer didn't take the job, other errors come before it
+        if (!(e instanceof PrintTransportError)) {
+          status.textContent = `Failed: ${(e as Error).message}`;
+          status.classList.add('error');
+        }
+      } finally {
+        print.toggleAttribute('disabled', false);
+      }
+    });
+  }
+
+  /**
+   * Show the saved labels to open, rename, duplicate or delete
+   */
+  private openDocumentsDialog() {
+    const list = this.createElement('ul', undefined, ['documents-list']);
+    const status = this.createElement('p', undefined, ['documents-status']);
+    const usage = this.createElement('p', undefined, ['documents-usage']);
+    const create = this.createElement('button', undefined, ['documents-new'], [], 'New label');
+    const close = this.createElement('button', undefined, ['documents-close'], [], 'Close');
+    const modalContent = this.createElement('div', 'documents-dialog', ['custom-modal-content'], [
+      this.createElement('p', undefined, ['title'], [], 'Open'),
+      list,
+      status,
+      usage,
+      this.createElement('div', undefined, ['documents-actions'], [create, close]),
+    ]);
+    const modalContainer = this.createElement('div', undefined, ['custom-modal-container'], [modalContent]);
+    document.querySelector('body')?.appendChild(modalContainer);
+
+    modalContainer.addEventListener('click', e => {
+      if (e.target === modalContainer) { modalContainer.remove(); }
+    });
+    close.addEventListener('click', () => modalContainer.remove());
+    const discardUnsaved = () => !this.dirty || window.confirm('Discard the unsaved changes of this label?');
+    create.addEventListener('click', () => {
+      if (!discardUnsaved()) { return; }
+      this.newDocument();
+      modalContainer.remove();
     });
 
-    const extendedButtons = document.createElement('div');
-    extendedButtons.classList.add('extended-buttons');
-    this.toolbar.appendChild(extendedButtons);
+    const showError = (e: Error) => {
+      status.textContent = e.message;
+      status.classList.add('error');
+    };
+    const formatBytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+    const refresh = async () => {
+      list.classList.add('loading');
+      const [documents, estimate] = await Promise.all([this.documents.list(), this.documents.estimate?.()])
+        .finally(() => list.classList.remove('loading'));
+      usage.textContent = estimate === undefined ? ''
+        : `${formatBytes(estimate.usage)} of ${formatBytes(estimate.quota)} used`;
+      if (documents.length === 0) {
+        list.replaceChildren(this.createElement('li', undefined, ['documents-empty'], [], 'No saved labels yet.'));
+        return;
+      }
 
-    defaultExtendedButtons.forEach(item => {
-      const elem = document.createElement("button");
-      elem.id = item.name;
-      elem.innerHTML = item.icon;
-      extendedButtons.appendChild(elem);
-      elem.addEventListener('click', () => {
-        const id = item.name;
-        if (id === 'save') {
-          if (window.confirm('The current canvas will be saved in your local! Are you sure?')) {
-            SaveInBrowser.save('canvasEditor', this.canvas.toJSON());
+      list.replaceChildren(...documents.map(info => {
+        const actions = [
+          { name: 'open', text: 'Open' },
+          { name: 'rename', text: 'Rename' },
+          { name: 'duplicate', text: 'Duplicate' },
+          { name: 'delete', text: 'Delete' },
+        ].map(({ name, text }) => {
+          const button = this.createElement('button', undefined, [`document-${name}`], [], text);
+          button.dataset.action = name;
+          return button;
+        });
+        const item = this.createElement('li', undefined, ['document-item'], [
+          this.createElement('span', undefined, ['document-name'], [], info.name),
+          this.createElement('span', undefined, ['document-modified'], [], new Date(info.modified).toLocaleString()),
+          this.createElement('span', undefined, ['document-actions'], actions),
+        ]);
+        if (info.thumbnail !== undefined) {
+          const thumbnail = this.createElement('img', undefined, ['document-thumbnail']) as HTMLImageElement;
+          thumbnail.src = info.thumbnail;
+          thumbnail.alt = '';
+          item.prepend(thumbnail);
+        }
+        item.classList.toggle('current', info.id === this.documentInfo?.id);
+        item.dataset.id = info.id;
+        item.dataset.name = info.name;
+        return item;
+      }));
+    };
+
+    list.addEventListener('click', async e => {
+      const button = (e.target as HTMLElement).closest<HTMLElement>('[data-action]');
+      const item = button?.closest<HTMLElement>('.document-item');
+      if (button === null || item === null || item === undefined) { return; }
+      const id = item.dataset.id!;
+      const name = item.dataset.name!;
+      status.textContent = '';
+      status.classList.remove('error');
+
+      try {
+        switch (button.dataset.action) {
+          case 'open': {
+            if (!discardUnsaved()) { return; }
+            status.textContent = 'Opening…';
+            const warnings = await this.openDocument(id);
+            modalContainer.remove();
+            this.showLoadWarnings(warnings);
+            return;
           }
-        } else if (id === 'clear') {
-          if (window.confirm('This will clear the canvas! Are you sure?')) {
-            this.canvas.clear(), SaveInBrowser.remove('canvasEditor');
+          case 'rename': {
+            const renamed = window.prompt('Rename the label', name);
+            if (renamed === null || renamed.trim() === '') { return; }
+            const info = await this.documents.rename(id, renamed.trim());
+            if (info.id === this.documentInfo?.id) { this.documentInfo = info; }
+            break;
           }
-        } else if (id === 'undo') {
-          this.undo();
-        } else if (id === 'redo') {
-          this.redo();
+          case 'duplicate':
+            await this.documents.duplicate(id);
+            break;
+          case 'delete':
+            if (!window.confirm(`Delete ${name}? This can't be undone.`)) { return; }
+            await this.documents.delete(id);
+            // the label stays on the canvas, saving it again makes a new one
+            if (id === this.documentInfo?.id) { this.documentInfo = undefined; }
+            break;
         }
-      });
+        await refresh();
+      } catch (e) {
+        showError(e as Error);
+      }
     });
+
+    refresh().catch(showError);
   }
 
   private openDragDropPanel() {
     console.log('open drag drop panel');
     const para = this.createElement('div');
-    para.innerHTML = 'Drag & drop files<br>or click to browse.<br>JPG, PNG or SVG only!';
+    para.innerHTML = 'Drag & drop files<br>or click to browse.<br>JPG, PNG, SVG, PDF, ZPL,<br>or CSV/JSON records.';
     const dragDropInput = this.createElement('div', undefined, ['drag-drop-input'], [para]);
     const modalContent = this.createElement('div', undefined, ['custom-modal-content'], [dragDropInput]);
     const modalContainer = this.createElement('div', undefined, ['custom-modal-container'], [modalContent]);
@@ -386,13 +1602,105 @@ export class ImageEditor {
     });
   }
 
+  /**
+   * Place the page of a PDF, letting the user choose one when there are several
+   * @param {File} file PDF file
+   */
+  private async openPdfFile(file: File) {
+    const pdf = await openPdf(await file.arrayBuffer());
+    if (pdf.numPages === 1) {
+      try {
+        await this.placePdfPage(await renderPdfPage(pdf, 1, this.media.dpi));
+      } finally {
+        await pdf.destroy();
+      }
+      return;
+    }
+
+    const pageList = this.createElement('ol', undefined, ['pdf-pages']);
+    const status = this.createElement('p', undefined, ['pdf-status']);
+    const cancel = this.createElement('button', undefined, ['pdf-cancel'], [], 'Close');
+    const modalContent = this.createElement('div', 'pdf-pages-dialog', ['custom-modal-content'], [
+      this.createElement('p', undefined, ['title'], [], `Choose a page of ${file.name}`),
+      pageList,
+      status,
+      this.createElement('div', undefined, ['pdf-actions'], [cancel]),
+    ]);
+    const modalContainer = this.createElement('div', undefined, ['custom-modal-container'], [modalContent]);
+    document.querySelector('body')?.appendChild(modalContainer);
+
+    const close = () => {
+      modalContainer.remove();
+      pdf.destroy();
+    };
+    modalContainer.addEventListener('click', e => {
+      if (e.target === modalContainer) { close(); }
+    });
+    cancel.addEventListener('click', close);
+
+    pageList.addEventListener('click', async e => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('.pdf-page');
+      if (button === null || button.disabled) { return; }
+      pageList.querySelectorAll('button').forEach(b => b.toggleAttribute('disabled', true));
+      status.textContent = 'Importing…';
+      status.classList.remove('error');
+      try {
+        await this.placePdfPage(await renderPdfPage(pdf, Number(button.dataset.page), this.media.dpi));
+        close();
+      } catch (e) {
+        status.textContent = (e as Error).message;
+        status.classList.add('error');
+        pageList.querySelectorAll('button').forEach(b => b.toggleAttribute('disabled', false));
+      }
+    });
+
+    // thumbnails one page at a time, they show up as they are drawn
+    const failedPages: number[] = [];
+    for (let n = 1; n <= pdf.numPages && modalContainer.isConnected; n++) {
+      const button = this.createElement('button', undefined, ['pdf-page'], [
+        this.createElement('span', undefined, ['pdf-page-number'], [], `Page ${n}`),
+      ]) as HTMLButtonElement;
+      button.dataset.page = n.toString();
+      pageList.appendChild(this.createElement('li', undefined, [], [button]));
+      try {
+        const thumbnail = await renderPdfPage(pdf, n, 18);
+        thumbnail.classList.add('pdf-thumbnail');
+        button.prepend(thumbnail);
+      } catch (e) {
+        // the page can still be chosen, drawing it will show the error again
+        failedPages.push(n);
+        button.title = (e as Error).message;
+        status.textContent = `${failedPages.length === 1 ? 'Page' : 'Pages'} ${failedPages.join(', ')}`
+          + ` could not be drawn: ${(e as Error).message}`;
+        status.classList.add('error');
+      }
+    }
+  }
+
   private processFiles(files: FileList | null) {
     if (!(files instanceof FileList) || files.length === 0) { return; }
 
-    // TODO: PDF!
     const allowedTypes = ['image/jpeg', 'image/png', 'image/svg+xml'];
 
     for (let file of files) {
+      // a page of a PDF, chosen when there are several
+      if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) {
+        this.openPdfFile(file).catch(e => window.alert(e.message));
+        continue
+      }
+
+      // ZPL has no registered MIME type, go by the extension
+      if (/\.zpl$/i.test(file.name)) {
+        this.importZplFile(file).catch(e => window.alert(e.message));
+        continue
+      }
+
+      // records for a batch merge
+      if (isDataFileName(file.name)) {
+        this.loadDataFile(file).catch(e => window.alert(e.message));
+        continue
+      }
+
       // check type
       if (!allowedTypes.includes(file.type)) continue
 
@@ -439,10 +1747,8 @@ export class ImageEditor {
   }
 
   private initializeCanvas() {
-      this.canvas.setDimensions({
-        width: 800,
-        height: 600
-      })
+      this.canvas.setDimensions(getCanvasSizeInDots(this.media));
+      this.updateCornerPreview();
 
       // set up selection style
       fabric.FabricObject.prototype.transparentCorners = false;
@@ -456,22 +1762,46 @@ export class ImageEditor {
       this.canvas.on('selection:created', () => this.setActiveTool('select'))
       this.canvas.on('selection:updated', () => this.setActiveTool('select'))
       this.canvas.on('selection:cleared', () => this.setActiveTool('select'))
+      const emitSelection = () =>
+        this.events.emit('selectionChange', { selected: this.canvas.getActiveObjects() });
+      this.canvas.on('selection:created', emitSelection);
+      this.canvas.on('selection:updated', emitSelection);
+      this.canvas.on('selection:cleared', emitSelection);
 
-      this.canvas.on('object:modified', () => {
+      this.canvas.on('object:modified', (e) => {
         if (this.canvas === undefined) { return; }
         console.log('trigger: modified')
-        let currentState = this.canvas.toJSON();
-        this.history.push(JSON.stringify(currentState));
+        // rapid edits from inputs and keys are merged, each drag on the canvas is its own step
+        if (this.history.commit(e?.transform === undefined)) {
+          this.emitHistoryChange();
+        }
+        this.emitChange();
       })
 
-      const savedCanvas = SaveInBrowser.load('canvasEditor');
-      if (savedCanvas) {
-        this.canvas.loadFromJSON(savedCanvas, this.canvas.renderAll.bind(this.canvas));
-      }
+      // freehand strokes are added by the brush
+      this.canvas.on('path:created', () => this.canvas.fire('object:modified'));
+
+      // keep the size read-out live while transforming
+      this.canvas.on('object:moving', () => this.updateGeometryReadout());
+      this.canvas.on('object:scaling', () => this.updateGeometryReadout());
+      this.canvas.on('object:resizing', () => this.updateGeometryReadout());
+      this.canvas.on('object:modified', () => this.updateGeometryReadout());
+
+      this.history.reset();
+      this.setDirty(false);
+      this.restoreOnStart().catch(e => window.alert(e.message));
+
+      // write the recovery copy now and ask before leaving unsaved work
+      window.addEventListener('beforeunload', (e) => {
+        if (!this.dirty) { return; }
+        this.recovery.flush();
+        e.preventDefault();
+        e.returnValue = '';
+      });
 
       // move objects with arrow keys
       document.addEventListener('keydown', (e) => {
-        if (this.canvas === undefined) { return; }
+        if (this.canvas === undefined || !this.options.features.keyboard) { return; }
         const key = e.which || e.keyCode;
         const isArrow = key === 37 || key === 38 || key === 39 || key === 40;
 
@@ -503,7 +1833,7 @@ export class ImageEditor {
 
       // delete object on del key
       document.addEventListener('keydown', (e) => {
-        if (this.canvas === undefined) { return; }
+        if (this.canvas === undefined || !this.options.features.keyboard) { return; }
         const key = e.which || e.keyCode;
         if (
           key === 46 &&
@@ -520,11 +1850,62 @@ export class ImageEditor {
         }
       });
 
-      setTimeout(() => {
-        if (this.canvas === undefined) { return; }
-        let currentState = this.canvas.toJSON();
-        this.history.push(JSON.stringify(currentState));
-      }, 2000);
+  }
+
+  /**
+   * Offer to recover unsaved work newer than its saved label, otherwise open the last saved label
+   */
+  private async restoreOnStart() {
+    if (this.options.features.autosave && await this.recoverUnsavedWork()) { return; }
+    if (this.options.features.restoreSaved) {
+      await this.openLastDocument();
+    }
+  }
+
+  /**
+   * Ask whether to load the recovery copy when it is newer than the label it was made from
+   * @returns {Promise<Boolean>} whether the copy was loaded
+   */
+  private async recoverUnsavedWork() {
+    const recovered = this.recovery.load();
+    if (recovered === undefined) { return false; }
+
+    const saved = recovered.documentId === undefined ? undefined
+      : (await this.documents.list()).find(info => info.id === recovered.documentId);
+    if (saved !== undefined && saved.modified >= recovered.time) {
+      this.recovery.clear();
+      return false;
+    }
+
+    const name = saved?.name ?? 'a new label';
+    if (!window.confirm(`Recover the unsaved work on ${name} from ${new Date(recovered.time).toLocaleString()}?`)) {
+      this.recovery.clear();
+      return false;
+    }
+
+    // later saves replace the label the work started from
+    await this.loadDocument(recovered.document);
+    this.documentInfo = saved;
+    return true;
+  }
+
+  /**
+   * Open the most recently saved label, a label earlier versions saved in localStorage is moved to the store first
+   */
+  private async openLastDocument() {
+    const warnings: string[] = [];
+    const legacy = SaveInBrowser.load(this.options.storageKey);
+    if (legacy !== undefined) {
+      // the store keeps the upgraded label, what was dropped is only known now
+      await this.documents.create('Saved label', { ...migrateDocument(legacy, message => warnings.push(message)) });
+      SaveInBrowser.remove(this.options.storageKey);
+    }
+
+    const [last] = await this.documents.list();
+    if (last !== undefined) {
+      warnings.push(...await this.openDocument(last.id));
+    }
+    this.showLoadWarnings([...new Set(warnings)]);
   }
 
   private initializeCopyPaste() {
@@ -770,6 +2151,39 @@ export class ImageEditor {
     });
   }
 
+  private initializeBarcodeDrawing() {
+    this.canvas.on('mouse:down', (o) => {
+      if (this.activeTool !== 'barcode' && this.activeTool !== 'qrcode') { return; }
+
+      // start from common module sizes, snapped to whole dots
+      const pointer = this.canvas.getViewportPoint(o.e);
+      const matrix = this.activeTool === 'qrcode';
+      const barcode = new Barcode({
+        symbology: matrix ? 'qrcode' : 'code128',
+        data: matrix ? 'https://example.com' : '1234567890',
+        moduleWidth: snapModuleSize(matrix ? 0.5 : 0.25, this.media.dpi),
+        barHeight: Math.round(toDots(12.5, 'mm', this.media.dpi)),
+        left: Math.round(pointer.x),
+        top: Math.round(pointer.y),
+      });
+      this.canvas.add(barcode);
+      this.canvas.setActiveObject(barcode);
+      this.setActiveTool('select');
+      this.canvas.fire('object:modified');
+      this.canvas.requestRenderAll();
+    });
+
+    // keep bars on whole printer dots
+    this.canvas.on('object:moving', (e) => {
+      if (e.target instanceof Barcode) {
+        e.target.set({
+          left: Math.round(e.target.left),
+          top: Math.round(e.target.top),
+        });
+      }
+    });
+  }
+
   private initializeShapes() {
     const contentElem = this.createElement('div', undefined, ['content'], [
       this.createElement('p', undefined, ['title'], [], "Shapes")
@@ -778,7 +2192,7 @@ export class ImageEditor {
       this.createElement('div', 'shapes-panel', ['toolpanel'], [contentElem])
     );
 
-    defaultShapes.forEach(svg => {
+    this.options.shapes.forEach(svg => {
       const elem = this.createElement('div', undefined, ['button'])
       elem.innerHTML = svg;
       contentElem.appendChild(elem);
@@ -800,6 +2214,522 @@ export class ImageEditor {
     });
   }
 
+  private initializeDrawPanel() {
+    const contentElem = this.createElement('div', undefined, ['content'], [
+      this.createElement('p', undefined, ['title'], [], "Freehand Drawing")
+    ]);
+    this.mainPanelElement.appendChild(
+      this.createElement('div', 'draw-panel', ['toolpanel'], [contentElem])
+    );
+
+    const brushNames: Record<FreehandBrush, string> = { pencil: 'Pencil', spray: 'Spray', eraser: 'Eraser' };
+    const brush = this.createElement('select', 'draw-brush', [],
+      freehandBrushes.map(b => this.createOption(b, brushNames[b]))
+    ) as HTMLSelectElement;
+    contentElem.appendChild(this.createElement('div', undefined, ['input-container'], [
+      this.createElement('label', undefined, [], [], 'Brush'),
+      brush,
+    ]));
+    const width = this.createCustomNumInput(contentElem, 'draw-width', 'Width', this.freehand.width, 1, 200, 1);
+    const color = this.createElement('input', 'draw-color') as HTMLInputElement;
+    color.type = 'color';
+    contentElem.appendChild(this.createElement('div', undefined, ['input-container', 'draw-color-setting'], [
+      this.createElement('label', undefined, [], [], 'Color'),
+      color,
+    ]));
+    const smoothing = this.createCustomNumInput(contentElem, 'draw-smoothing', 'Smoothing',
+      this.freehand.smoothing, 0, 20, 0.5);
+    const simplify = this.createCustomNumInput(contentElem, 'draw-simplify', 'Simplify',
+      this.freehand.simplify, 0, 20, 0.5);
+    simplify.title = 'Largest deviation in dots, 0 keeps every point';
+
+    brush.addEventListener('change', () => this.setFreehandSettings({ brush: brush.value as FreehandBrush }));
+    color.addEventListener('input', () => this.setFreehandSettings({ color: color.value }));
+    [
+      { input: width, key: 'width' as const, min: 1 },
+      { input: smoothing, key: 'smoothing' as const, min: 0 },
+      { input: simplify, key: 'simplify' as const, min: 0 },
+    ].forEach(({ input, key, min }) => input.addEventListener('change', () => {
+      const value = Number(input.value);
+      if (input.value !== '' && value >= min) { this.setFreehandSettings({ [key]: value }); }
+    }));
+  }
+
+  /**
+   * Show the brush settings in the draw panel
+   */
+  private updateDrawPanel() {
+    const panel = this.containerElement.querySelector('#draw-panel');
+    if (panel === null) { return; }
+
+    const setValue = (id: string, value: string) => {
+      const input = panel.querySelector<HTMLInputElement | HTMLSelectElement>(`#${id}`);
+      if (input !== null && input !== document.activeElement) { input.value = value; }
+    };
+    setValue('draw-brush', this.freehand.brush);
+    setValue('draw-width', this.freehand.width.toString());
+    setValue('draw-color', this.freehand.color);
+    setValue('draw-smoothing', this.freehand.smoothing.toString());
+    setValue('draw-simplify', this.freehand.simplify.toString());
+    // spray dots are kept as they are and the eraser draws nothing
+    panel.querySelector('.draw-color-setting')!.classList.toggle('hidden', this.freehand.brush === 'eraser');
+    ['#draw-smoothing', '#draw-simplify'].forEach(id => panel.querySelector(id)?.closest('.input-container')
+      ?.classList.toggle('hidden', this.freehand.brush !== 'pencil'));
+  }
+
+  private initializeBackgroundPanel() {
+    const contentElem = this.createElement('div', undefined, ['content'], [
+      this.createElement('p', undefined, ['title'], [], "Canvas Options")
+    ]);
+    this.mainPanelElement.appendChild(
+      this.createElement('div', 'background-panel', ['toolpanel'], [contentElem])
+    );
+
+    // label size section
+    const sizeSection = this.createElement('div', undefined, ['canvas-size-setting'], [
+      this.createElement('h4', undefined, [], [], 'Label Size')
+    ]);
+    contentElem.appendChild(sizeSection);
+
+    const unit = this.createElement('select', 'media-unit', [],
+      lengthUnits.map(u => this.createOption(u, u))
+    ) as HTMLSelectElement;
+    sizeSection.appendChild(this.createElement('div', undefined, ['input-container'], [
+      this.createElement('label', undefined, [], [], 'Unit'),
+      unit,
+    ]));
+    const width = this.createCustomNumInput(sizeSection, 'media-width', 'Width');
+    const height = this.createCustomNumInput(sizeSection, 'media-height', 'Height');
+    const dpi = this.createElement('select', 'media-dpi') as HTMLSelectElement;
+    const orientation = this.createElement('select', 'media-orientation', [],
+      labelOrientations.map(o => this.createOption(o, o))
+    ) as HTMLSelectElement;
+    sizeSection.appendChild(this.createElement('div', undefined, ['input-container'], [
+      this.createElement('label', undefined, [], [], 'DPI'),
+      dpi,
+    ]));
+    sizeSection.appendChild(this.createElement('div', undefined, ['input-container'], [
+      this.createElement('label', undefined, [], [], 'Orientation'),
+      orientation,
+    ]));
+    const cornerRadius = this.createCustomNumInput(sizeSection, 'media-corner-radius', 'Corners', 0, 0);
+    sizeSection.appendChild(this.createElement('p', undefined, ['media-dots']));
+    contentElem.appendChild(this.createElement('hr'));
+
+    // apply sizes while typing, leaving an incomplete value for the user to finish
+    const applyLength = (input: HTMLInputElement, key: 'width' | 'height' | 'cornerRadius') => {
+      const value = Number(input.value);
+      const valid = input.value !== '' && (key === 'cornerRadius' ? value >= 0 : value > 0);
+      input.classList.toggle('invalid', !valid);
+      if (valid) { this.setLabelMedia({ [key]: value }); }
+    };
+    [
+      { input: width, key: 'width' as const },
+      { input: height, key: 'height' as const },
+      { input: cornerRadius, key: 'cornerRadius' as const },
+    ].forEach(({ input, key }) => {
+      input.addEventListener('input', () => applyLength(input, key));
+      input.addEventListener('change', () => applyLength(input, key));
+    });
+    unit.addEventListener('change', () =>
+      this.setLabelMedia(convertMedia(this.media, unit.value as LengthUnit)));
+    dpi.addEventListener('change', () => this.setLabelMedia({ dpi: Number(dpi.value) }, true));
+    orientation.addEventListener('change', () =>
+      this.setLabelMedia({ orientation: orientation.value as LabelMedia['orientation'] }));
+
+    // background section
+    const color = this.createElement('input', 'background-color') as HTMLInputElement;
+    color.type = 'color';
+    const imageInput = this.createElement('input', 'background-image-input') as HTMLInputElement;
+    imageInput.type = 'file';
+    imageInput.accept = 'image/*';
+    imageInput.hidden = true;
+    const chooseImage = this.createElement('button', undefined, ['background-image'], [], 'Image…');
+    const removeImage = this.createElement('button', undefined, ['background-image-remove'], [], 'Remove');
+    contentElem.appendChild(this.createElement('div', undefined, ['background-setting'], [
+      this.createElement('h4', undefined, [], [], 'Background'),
+      this.createElement('div', undefined, ['input-container'], [
+        this.createElement('label', undefined, [], [], 'Color'),
+        color,
+      ]),
+      this.createElement('div', undefined, ['input-container'], [
+        this.createElement('label', undefined, [], [], 'Image'),
+        chooseImage,
+        removeImage,
+        imageInput,
+      ]),
+    ]));
+
+    color.addEventListener('input', () => this.setBackgroundColor(color.value));
+    chooseImage.addEventListener('click', () => imageInput.click());
+    removeImage.addEventListener('click', () => this.setBackgroundImage(undefined));
+    imageInput.addEventListener('change', () => {
+      const file = imageInput.files?.[0];
+      if (file === undefined) { return; }
+      const reader = new FileReader();
+      reader.onload = () => this.setBackgroundImage(reader.result as string);
+      reader.readAsDataURL(file);
+      imageInput.value = '';
+    });
+  }
+
+  /**
+   * Show the label media and background in the canvas options panel
+   */
+  private updateBackgroundPanel() {
+    const panel = this.containerElement.querySelector('#background-panel');
+    if (panel === null) { return; }
+
+    const { unit } = this.media;
+    const decimals = unitDecimals(unit);
+    const step = unit === 'dots' ? '1' : (10 ** -decimals).toString();
+    // don't rewrite what the user is typing
+    const setValue = (id: string, value: string) => {
+      const input = panel.querySelector<HTMLInputElement | HTMLSelectElement>(`#${id}`);
+      if (input === null || input === document.activeElement) { return; }
+      input.value = value;
+      input.classList.remove('invalid');
+      if (input instanceof HTMLInputElement && input.type === 'number') { input.step = step; }
+    };
+    setValue('media-unit', unit);
+    setValue('media-width', Number(this.media.width.toFixed(decimals)).toString());
+    setValue('media-height', Number(this.media.height.toFixed(decimals)).toString());
+    setValue('media-corner-radius', Number(this.media.cornerRadius.toFixed(decimals)).toString());
+    setValue('media-orientation', this.media.orientation);
+
+    const dpis = [...new Set([...commonDpis, this.media.dpi])].sort((a, b) => a - b);
+    panel.querySelector('#media-dpi')!.replaceChildren(
+      ...dpis.map(d => this.createOption(d.toString(), `${d} dpi`, d === this.media.dpi))
+    );
+
+    const dots = getCanvasSizeInDots(this.media);
+    panel.querySelector('.media-dots')!.textContent = `${dots.width} × ${dots.height} dots`;
+
+    const background = typeof this.canvas.backgroundColor === 'string' && this.canvas.backgroundColor !== ''
+      ? this.canvas.backgroundColor
+      : '#ffffff';
+    setValue('background-color', `#${new fabric.Color(background).toHex()}`);
+    panel.querySelector('.background-image-remove')!
+      .toggleAttribute('disabled', this.canvas.backgroundImage === undefined);
+  }
+
+  private initializeHistoryPanel() {
+    const contentElem = this.createElement('div', undefined, ['content'], [
+      this.createElement('p', undefined, ['title'], [], "History"),
+      this.createElement('ol', undefined, ['history-steps']),
+    ]);
+    this.mainPanelElement.appendChild(
+      this.createElement('div', 'history-panel', ['toolpanel'], [contentElem])
+    );
+
+    contentElem.querySelector('.history-steps')!.addEventListener('click', e => {
+      const step = (e.target as HTMLElement).closest<HTMLElement>('.history-step');
+      if (step !== null) {
+        this.goToHistoryStep(Number(step.dataset.index));
+      }
+    });
+  }
+
+  /**
+   * List the history steps with their thumbnails, undone steps are shown dimmed
+   */
+  private updateHistoryPanel() {
+    const list = this.containerElement.querySelector('#history-panel .history-steps');
+    if (list === null) { return; }
+
+    const { entries, current } = this.history.getEntries();
+    list.replaceChildren(...entries.map((entry, i) => {
+      const step = this.createElement('button', undefined, ['history-step'], [
+        this.createElement('span', undefined, ['history-name'], [], entry.name),
+        this.createElement('span', undefined, ['history-time'], [],
+          new Date(entry.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })),
+      ]);
+      if (entry.thumbnail !== undefined) {
+        const thumbnail = this.createElement('img', undefined, ['history-thumbnail']) as HTMLImageElement;
+        thumbnail.src = entry.thumbnail;
+        thumbnail.alt = '';
+        step.prepend(thumbnail);
+      }
+      step.dataset.index = i.toString();
+      step.classList.toggle('current', i === current);
+      step.classList.toggle('undone', i > current);
+      return this.createElement('li', undefined, [], [step]);
+    }));
+    list.querySelector('.current')?.scrollIntoView({ block: 'nearest' });
+  }
+
+  /**
+   * Round the canvas corners on screen like die-cut labels, export is unaffected
+   */
+  private updateCornerPreview() {
+    const radius = toDots(this.media.cornerRadius, this.media.unit, this.media.dpi);
+    this.canvas.lowerCanvasEl.style.borderRadius = radius > 0 ? `${radius}px` : '';
+  }
+
+  /**
+   * Scale positions and sizes of every object, barcodes through their module width and bar height
+   * @param {Number} factor scale around the top left corner of the label
+   */
+  private scaleContent(factor: number) {
+    this.canvas.getObjects().forEach(obj => {
+      obj.set({ left: obj.left * factor, top: obj.top * factor });
+      if (obj instanceof Barcode) {
+        obj.set({
+          moduleWidth: Math.max(1, Math.round(obj.moduleWidth * factor)),
+          barHeight: Math.max(1, Math.round(obj.barHeight * factor)),
+        });
+      } else {
+        obj.set({ scaleX: obj.scaleX * factor, scaleY: obj.scaleY * factor });
+      }
+      obj.setCoords();
+    });
+
+    const background = this.canvas.backgroundImage;
+    if (background !== undefined) {
+      background.set({ scaleX: background.scaleX * factor, scaleY: background.scaleY * factor });
+    }
+  }
+
+  private initializeDataPanel() {
+    const contentElem = this.createElement('div', undefined, ['content'], [
+      this.createElement('p', undefined, ['title'], [], "Data Fields")
+    ]);
+    this.mainPanelElement.appendChild(
+      this.createElement('div', 'data-panel', ['toolpanel'], [contentElem])
+    );
+
+    const fieldList = this.createElement('div', undefined, ['data-fields']);
+    const addField = this.createElement('button', undefined, ['data-add'], [], 'Add Field');
+    contentElem.appendChild(fieldList);
+    contentElem.appendChild(addField);
+    contentElem.appendChild(this.createElement('p', undefined, ['data-unknown']));
+    contentElem.appendChild(this.createElement('hr'));
+
+    // records for a batch
+    const loadData = this.createElement('button', undefined, ['data-load'], [], 'Load CSV/JSON');
+    const previous = this.createElement('button', undefined, ['data-previous'], [], '‹');
+    const next = this.createElement('button', undefined, ['data-next'], [], '›');
+    const format = this.createElement('select', 'data-batch-format', [],
+      Object.entries(batchFormats).map(([value, name]) => this.createOption(value, name))
+    ) as HTMLSelectElement;
+    const exportAll = this.createElement('button', undefined, ['data-export'], [], 'Export All');
+    const progress = this.createElement('span', undefined, ['data-progress']);
+    contentElem.appendChild(this.createElement('div', undefined, ['data-records'], [
+      this.createElement('h4', undefined, [], [], 'Records'),
+      this.createElement('p', undefined, ['data-source']),
+      loadData,
+      this.createElement('div', undefined, ['data-stepper'], [
+        previous,
+        this.createElement('span', undefined, ['data-step']),
+        next,
+      ]),
+      this.createElement('div', undefined, ['data-batch'], [format, exportAll, progress]),
+    ]));
+    contentElem.appendChild(this.createElement('hr'));
+    contentElem.appendChild(this.createElement('h4', undefined, [], [], 'Preview'));
+    contentElem.appendChild(this.createElement('img', undefined, ['data-preview']));
+
+    loadData.addEventListener('click', () => this.fileUploadInput.dispatchEvent(new Event('click')));
+    const step = (by: number) => {
+      const count = this.dataTable?.records.length ?? 0;
+      this.recordIndex = Math.min(count - 1, Math.max(0, this.recordIndex + by));
+      this.updateDataPanel();
+    };
+    previous.addEventListener('click', () => step(-1));
+    next.addEventListener('click', () => step(1));
+
+    exportAll.addEventListener('click', async () => {
+      const batchFormat = format.value as BatchFormat;
+      exportAll.toggleAttribute('disabled', true);
+      try {
+        const blob = await this.exportBatch(batchFormat, (done, total) => {
+          progress.textContent = `${done} / ${total}`;
+        }, { textAsGraphic: this.printTextAsGraphic });
+        this.downloadBlob(blob, `labels.${batchFileExtension(batchFormat)}`);
+      } catch (e) {
+        window.alert((e as Error).message);
+      } finally {
+        exportAll.toggleAttribute('disabled', false);
+        progress.textContent = '';
+      }
+    });
+
+    addField.addEventListener('click', () => {
+      let n = this.fields.length + 1;
+      while (this.fields.some(f => f.name === `field${n}`)) { n++; }
+      this.fields.push({ name: `field${n}`, sample: '' });
+      this.updateDataPanel();
+      this.commitFields('Added field');
+    });
+
+    fieldList.addEventListener('change', e => {
+      const select = e.target as HTMLSelectElement;
+      const field = this.fields[Number(select.closest('.data-field')?.getAttribute('data-index'))];
+      if (field === undefined || !select.classList.contains('data-column')) { return; }
+      this.setFieldMapping({ [field.name]: select.value === '' ? undefined : select.value });
+    });
+
+    fieldList.addEventListener('input', e => {
+      const input = e.target as HTMLInputElement;
+      const field = this.fields[Number(input.closest('.data-field')?.getAttribute('data-index'))];
+      if (field !== undefined && input.classList.contains('data-sample')) {
+        field.sample = input.value;
+        this.refreshDataPreview();
+        this.commitFields('Changed preview value', true);
+      }
+    });
+
+    // rename on commit, so half typed names don't rewrite the placeholders
+    fieldList.addEventListener('change', e => {
+      const input = e.target as HTMLInputElement;
+      const field = this.fields[Number(input.closest('.data-field')?.getAttribute('data-index'))];
+      if (field === undefined || !input.classList.contains('data-name')) { return; }
+
+      const name = input.value.trim();
+      if (!isValidFieldName(name) || this.fields.some(f => f !== field && f.name === name)) {
+        input.value = field.name;
+        return;
+      }
+      this.batch(() => {
+        this.canvas.getObjects().forEach(o => renameObjectPlaceholder(o, field.name, name));
+        field.name = name;
+      }, 'Renamed field');
+      this.canvas.requestRenderAll();
+      this.updateDataPanel();
+    });
+
+    fieldList.addEventListener('click', e => {
+      const button = (e.target as HTMLElement).closest('button');
+      const index = Number(button?.closest('.data-field')?.getAttribute('data-index'));
+      const field = this.fields[index];
+      if (button === null || field === undefined) { return; }
+
+      if (button.classList.contains('data-remove')) {
+        this.fields.splice(index, 1);
+        this.updateDataPanel();
+        this.commitFields('Removed field');
+      } else if (button.classList.contains('data-insert')) {
+        this.insertPlaceholder(field.name);
+      }
+    });
+
+    this.canvas.on('object:modified', () => {
+      if (this.containerElement.querySelector('#data-panel.visible') !== null) {
+        this.updateDataPanel();
+      }
+    });
+  }
+
+  /**
+   * Show the merge fields, placeholders without a field and the preview
+   */
+  private updateDataPanel() {
+    const panel = this.containerElement.querySelector('#data-panel');
+    if (panel === null) { return; }
+
+    const list = panel.querySelector('.data-fields')!;
+    list.replaceChildren(...this.fields.map((field, i) => {
+      const name = this.createElement('input', undefined, ['data-name']) as HTMLInputElement;
+      name.type = 'text';
+      name.value = field.name;
+      name.title = 'Field name';
+      const sample = this.createElement('input', undefined, ['data-sample']) as HTMLInputElement;
+      sample.type = 'text';
+      sample.value = field.sample;
+      sample.placeholder = 'Preview value';
+      const insert = this.createElement('button', undefined, ['data-insert'], [], placeholder('…'));
+      insert.title = 'Insert into the selected text or barcode';
+      const remove = this.createElement('button', undefined, ['data-remove'], [], '×');
+      remove.title = 'Remove field';
+      const row = this.createElement('div', undefined, ['data-field'], [name, sample, insert, remove]);
+      row.setAttribute('data-index', i.toString());
+
+      // the column the field reads from once records are loaded
+      if (this.dataTable !== undefined) {
+        const column = this.createElement('select', undefined, ['data-column'], [
+          this.createOption('', '(preview value)'),
+          ...this.dataTable.columns.map(c => this.createOption(c, c, this.fieldMapping[field.name] === c)),
+        ]);
+        column.title = 'Column';
+        row.insertBefore(column, insert);
+      }
+      return row;
+    }));
+
+    const count = this.dataTable?.records.length ?? 0;
+    panel.querySelector('.data-source')!.textContent = this.dataTable === undefined
+      ? 'No records loaded, the preview uses the preview values.'
+      : `${this.dataFileName || 'Records'}: ${count} record${count === 1 ? '' : 's'}`;
+    panel.querySelector('.data-stepper')!.classList.toggle('hidden', count === 0);
+    panel.querySelector('.data-step')!.textContent = `${this.recordIndex + 1} / ${count}`;
+
+    const unknown = findObjectPlaceholders(this.canvas.getObjects())
+      .filter(name => !this.fields.some(f => f.name === name));
+    panel.querySelector('.data-unknown')!.textContent = unknown.length > 0
+      ? `No field for ${unknown.map(placeholder).join(', ')}, they print empty.`
+      : '';
+
+    this.refreshDataPreview();
+  }
+
+  /**
+   * Redraw the merged preview once edits settle
+   */
+  private refreshDataPreview() {
+    clearTimeout(this.dataPreviewTimer);
+    this.dataPreviewTimer = setTimeout(async () => {
+      const preview = this.containerElement.querySelector('#data-panel.visible .data-preview');
+      if (!(preview instanceof HTMLImageElement)) { return; }
+      const row = this.dataTable?.records[this.recordIndex];
+      const canvas = await this.render(row === undefined
+        ? sampleRecord(this.fields)
+        : mapRecord(row, this.fields, this.fieldMapping));
+      preview.src = canvas.toDataURL({ multiplier: 1 });
+      canvas.dispose();
+    }, 300);
+  }
+
+  /**
+   * Save a file through the browser
+   * @param {Blob} blob file content
+   * @param {String} name suggested file name
+   */
+  private downloadBlob(blob: Blob, name: string) {
+    const url = URL.createObjectURL(blob);
+    const link = this.createElement('a') as HTMLAnchorElement;
+    link.href = url;
+    link.download = name;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+
+  /**
+   * Insert a field placeholder into the selected textbox or barcode
+   * @param {String} name field name
+   */
+  private insertPlaceholder(name: string) {
+    const obj = this.canvas.getActiveObject();
+    const text = placeholder(name);
+
+    if (obj instanceof fabric.IText && obj.isEditing) {
+      const start = obj.selectionStart;
+      obj.insertChars(text, undefined, start, obj.selectionEnd);
+      obj.selectionStart = obj.selectionEnd = start + text.length;
+      if (obj.hiddenTextarea) { obj.hiddenTextarea.value = obj.text; }
+    } else if (obj instanceof fabric.FabricText) {
+      obj.set('text', obj.text + text);
+    } else if (obj instanceof Barcode) {
+      obj.set('data', text);
+      this.updateBarcodeSettings();
+    } else {
+      return;
+    }
+
+    obj.setCoords();
+    this.canvas.requestRenderAll();
+    this.canvas.fire('object:modified');
+  }
+
   private initializeSelectionSettings() {
     const contentElem = this.createElement('div', undefined, ['content'], [
       this.createElement('p', undefined, ['title'], [], "Selection Settings")
@@ -808,6 +2738,168 @@ export class ImageEditor {
       this.createElement('div', 'select-panel', ['toolpanel'], [contentElem])
     );
 
+    // geometry section
+    {
+      const geometrySection = this.createElement('div', undefined, ['geometry-section'], [
+        this.createElement('h4', undefined, [], [], 'Position & Size')
+      ]);
+      contentElem.appendChild(geometrySection);
+
+      [
+        { id: 'geometry-x', label: 'X' },
+        { id: 'geometry-y', label: 'Y' },
+        { id: 'geometry-width', label: 'Width' },
+        { id: 'geometry-height', label: 'Height' },
+      ].forEach(item => geometrySection.appendChild(
+        this.createElement('div', undefined, ['input-container'], [
+          this.createElement('label', undefined, [], [], item.label),
+          this.createElement('span', item.id, ['readout']),
+        ])
+      ));
+
+      geometrySection.appendChild(this.createElement('hr'));
+    }
+    // end geometry section
+
+    // barcode section
+    {
+      const barcodeSection = this.createElement('div', undefined, ['barcode-section'], [
+        this.createElement('h4', undefined, [], [], 'Barcode')
+      ]);
+      contentElem.appendChild(barcodeSection);
+
+      const updateBarcodes = (props: Partial<Barcode>, modified: boolean) => {
+        this.canvas.getActiveObjects().forEach(o => {
+          if (o instanceof Barcode) {
+            o.set(props);
+            o.setCoords();
+          }
+        });
+        this.canvas.requestRenderAll();
+        this.updateBarcodeSettings();
+        this.updateGeometryReadout();
+        if (modified) { this.canvas.fire('object:modified'); }
+      };
+
+      const symbology = this.createElement('select', 'barcode-symbology', [],
+        Object.entries(barcodeSymbologies).map(([value, s]) => this.createOption(value, s.name))
+      ) as HTMLSelectElement;
+      barcodeSection.appendChild(
+        this.createElement('div', undefined, ['input-container'], [
+          this.createElement('label', undefined, [], [], 'Type'),
+          symbology,
+        ])
+      );
+      symbology.addEventListener('change', () =>
+        updateBarcodes({ symbology: symbology.value as BarcodeSymbology }, true));
+
+      const data = this.createElement('input', 'barcode-data') as HTMLInputElement;
+      data.type = 'text';
+      barcodeSection.appendChild(
+        this.createElement('div', undefined, ['input-container'], [
+          this.createElement('label', undefined, [], [], 'Data'),
+          data,
+        ])
+      );
+      data.addEventListener('input', () => updateBarcodes({ data: data.value }, false));
+      data.addEventListener('change', () => updateBarcodes({ data: data.value }, true));
+      data.parentElement!.classList.add('barcode-plain-data');
+
+      // GS1 data is edited as one row per Application Identifier
+      const gs1 = this.createElement('input', 'barcode-gs1') as HTMLInputElement;
+      gs1.type = 'checkbox';
+      barcodeSection.appendChild(
+        this.createElement('div', undefined, ['input-container', 'barcode-gs1'], [
+          this.createElement('label', undefined, [], [], 'GS1'),
+          gs1,
+        ])
+      );
+      gs1.addEventListener('change', () => {
+        const obj = this.canvas.getActiveObject();
+        const isGs1Data = obj instanceof Barcode && splitGs1(obj.data) !== undefined;
+        updateBarcodes(gs1.checked && !isGs1Data
+          ? { gs1: true, data: '(01)09501101530003' }
+          : { gs1: gs1.checked }, true);
+      });
+
+      const addField = this.createElement('button', undefined, ['gs1-add'], [], 'Add Field');
+      const gs1Fields = this.createElement('div', undefined, ['barcode-gs1-fields'], [addField]);
+      barcodeSection.appendChild(gs1Fields);
+      const readGs1Fields = () => [...gs1Fields.querySelectorAll('.gs1-field')].map(row => ({
+        ai: (row.querySelector('.gs1-ai') as HTMLSelectElement).value,
+        value: (row.querySelector('.gs1-value') as HTMLInputElement).value,
+      }));
+      gs1Fields.addEventListener('input', () => updateBarcodes({ data: formatGs1(readGs1Fields()) }, false));
+      gs1Fields.addEventListener('change', () => updateBarcodes({ data: formatGs1(readGs1Fields()) }, true));
+      gs1Fields.addEventListener('click', e => {
+        const remove = (e.target as HTMLElement).closest('.gs1-remove');
+        if (remove === null) { return; }
+        remove.closest('.gs1-field')!.remove();
+        updateBarcodes({ data: formatGs1(readGs1Fields()) }, true);
+      });
+      addField.addEventListener('click', () => {
+        const fields = readGs1Fields();
+        const next = gs1ApplicationIdentifiers.find(a => !fields.some(f => f.ai === a.ai))!;
+        updateBarcodes({ data: formatGs1([...fields, { ai: next.ai, value: '' }]) }, true);
+      });
+
+      const moduleContainer = this.createElement('div', undefined, ['barcode-module-width']);
+      barcodeSection.appendChild(moduleContainer);
+      const moduleWidth = this.createCustomNumInput(moduleContainer, 'barcode-module-width', 'Module Size (dots)', 2, 1, 20);
+      moduleContainer.appendChild(this.createElement('span', 'barcode-module-size', ['readout']));
+      moduleWidth.addEventListener('change', () =>
+        updateBarcodes({ moduleWidth: Math.max(1, Math.round(Number(moduleWidth.value))) }, true));
+
+      const heightContainer = this.createElement('div', undefined, ['barcode-bar-height']);
+      barcodeSection.appendChild(heightContainer);
+      const barHeight = this.createCustomNumInput(heightContainer, 'barcode-height', 'Bar Height (dots)', 100, 1, undefined, 10);
+      barHeight.addEventListener('change', () =>
+        updateBarcodes({ barHeight: Math.max(1, Math.round(Number(barHeight.value))) }, true));
+
+      const ratioContainer = this.createElement('div', undefined, ['barcode-ratio']);
+      barcodeSection.appendChild(ratioContainer);
+      const ratio = this.createCustomNumInput(ratioContainer, 'barcode-ratio', 'Wide Ratio', 3, 2, 3, 0.5);
+      ratio.addEventListener('change', () => updateBarcodes({ ratio: Number(ratio.value) }, true));
+
+      const showText = this.createElement('input', 'barcode-show-text') as HTMLInputElement;
+      showText.type = 'checkbox';
+      barcodeSection.appendChild(
+        this.createElement('div', undefined, ['input-container', 'barcode-show-text'], [
+          this.createElement('label', undefined, [], [], 'Show Text'),
+          showText,
+        ])
+      );
+      showText.addEventListener('change', () => updateBarcodes({ showText: showText.checked }, true));
+
+      const errorCorrection = this.createElement('select', 'barcode-error-correction', [],
+        qrErrorCorrectionLevels.map(level => this.createOption(level, level))
+      ) as HTMLSelectElement;
+      barcodeSection.appendChild(
+        this.createElement('div', undefined, ['input-container', 'barcode-error-correction'], [
+          this.createElement('label', undefined, [], [], 'Error Correction'),
+          errorCorrection,
+        ])
+      );
+      errorCorrection.addEventListener('change', () =>
+        updateBarcodes({ errorCorrection: errorCorrection.value as QrErrorCorrection }, true));
+
+      const securityContainer = this.createElement('div', undefined, ['barcode-security-level']);
+      barcodeSection.appendChild(securityContainer);
+      const securityLevel = this.createCustomNumInput(securityContainer, 'barcode-security-level', 'Security Level', 2, 0, 8);
+      securityLevel.addEventListener('change', () =>
+        updateBarcodes({ securityLevel: Math.min(8, Math.max(0, Math.round(Number(securityLevel.value)))) }, true));
+
+      const columnsContainer = this.createElement('div', undefined, ['barcode-columns']);
+      barcodeSection.appendChild(columnsContainer);
+      const columns = this.createCustomNumInput(columnsContainer, 'barcode-columns', 'Columns (0 = auto)', 0, 0, 30);
+      columns.addEventListener('change', () =>
+        updateBarcodes({ columns: Math.min(30, Math.max(0, Math.round(Number(columns.value)))) }, true));
+
+      barcodeSection.appendChild(this.createElement('p', undefined, ['barcode-error']));
+      barcodeSection.appendChild(this.createElement('hr'));
+    }
+    // end barcode section
+
     // font section
     {
       const textSection = this.createElement('div', undefined, ['text-section'], [
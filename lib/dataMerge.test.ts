@@ -0,0 +1,102 @@
+import * as fabric from 'fabric';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Barcode } from './barcodes/barcodeObject.js';
+import {
+  findObjectPlaceholders,
+  findPlaceholders,
+  hasPlaceholders,
+  mergeObject,
+  mergeText,
+  normalizeMergeFields,
+  renameObjectPlaceholder,
+  sampleRecord,
+} from './dataMerge.js';
+
+beforeEach(() => {
+  // happy-dom has no 2D context, fabric only needs one that takes calls
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+    return new Proxy({ canvas: this }, {
+      get: (target, key) => key in target ? Reflect.get(target, key) : () => ({}),
+      set: () => true,
+    }) as unknown as CanvasRenderingContext2D;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('placeholders', () => {
+  it('finds field names once each, with spaces inside the braces', () => {
+    expect(findPlaceholders('{{name}}, {{ sku }} and {{name}}')).toEqual(['name', 'sku']);
+    expect(hasPlaceholders('Ship to {{ name }}')).toBe(true);
+    expect(hasPlaceholders('{name} or {{}')).toBe(false);
+  });
+
+  it('replaces them with record values, missing ones with nothing', () => {
+    const record = { name: 'Ada', qty: 3, note: null };
+    expect(mergeText('{{name}} x{{ qty }} {{note}}{{missing}}!', record)).toBe('Ada x3 !');
+  });
+
+  it('previews the fields with their sample values', () => {
+    const fields = [{ name: 'name', sample: 'Ada' }, { name: 'sku', sample: '123' }];
+    expect(mergeText('{{name}} {{sku}}', sampleRecord(fields))).toBe('Ada 123');
+  });
+});
+
+describe('normalizeMergeFields', () => {
+  it('drops malformed, invalid and repeated fields', () => {
+    expect(normalizeMergeFields([
+      { name: 'name', sample: 'Ada' },
+      { name: 'sku' },
+      { name: 'name', sample: 'again' },
+      { name: '1st' },
+      { name: 'a b' },
+      null,
+      'qty',
+      { name: 'order.id', sample: 7 },
+    ])).toEqual([
+      { name: 'name', sample: 'Ada' },
+      { name: 'sku', sample: '' },
+      { name: 'order.id', sample: '' },
+    ]);
+  });
+
+  it('reads anything but an array as no fields', () => {
+    expect(normalizeMergeFields(undefined)).toEqual([]);
+    expect(normalizeMergeFields({ name: 'name' })).toEqual([]);
+  });
+});
+
+describe('objects', () => {
+  const createObjects = () => {
+    const text = new fabric.Textbox('Ship to {{name}}');
+    const barcode = new Barcode({ symbology: 'code128', data: '{{sku}}' });
+    const group = new fabric.Group([new fabric.Textbox('{{ name }} x{{qty}}'), new fabric.Rect()]);
+    return { text, barcode, group };
+  };
+
+  it('lists the fields of texts, barcodes and grouped objects', () => {
+    const { text, barcode, group } = createObjects();
+    expect(findObjectPlaceholders([text, barcode, group])).toEqual(['name', 'sku', 'qty']);
+  });
+
+  it('merges a record into texts, barcode data and grouped objects', () => {
+    const { text, barcode, group } = createObjects();
+    const record = { name: 'Ada', sku: '12345678', qty: 2 };
+    [text, barcode, group].forEach(obj => mergeObject(obj, record));
+
+    expect(text.text).toBe('Ship to Ada');
+    expect(barcode).toMatchObject({ data: '12345678', isTemplate: false, error: undefined });
+    expect((group.getObjects()[0] as fabric.Textbox).text).toBe('Ada x2');
+  });
+
+  it('renames the placeholders of one field only', () => {
+    const { text, group } = createObjects();
+    renameObjectPlaceholder(text, 'name', 'customer');
+    renameObjectPlaceholder(group, 'name', 'customer');
+
+    expect(text.text).toBe('Ship to {{customer}}');
+    expect((group.getObjects()[0] as fabric.Textbox).text).toBe('{{customer}} x{{qty}}');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Define {{field}} placeholders and merge records into a label
+ */
+
+import * as fabric from 'fabric';
+import { Barcode } from './barcodes/barcodeObject.js';
+
+/** A merge field of the document and the value shown while designing. */
+export interface MergeField {
+  name: string;
+  /** Preview value, used when no record is given. */
+  sample: string;
+}
+
+/** Values to merge, by field name. */
+export type MergeRecord = Record<string, unknown>;
+
+/** Matches {{name}}, spaces inside the braces are allowed. */
+const placeholderPattern = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+/**
+ * Check a field name, so it can be written inside a placeholder
+ * @param {String} name field name
+ */
+export function isValidFieldName(name: string) {
+  return /^[A-Za-z_][\w.-]*$/.test(name);
+}
+
+/**
+ * Write the placeholder for a field
+ * @param {String} name field name
+ */
+export function placeholder(name: string) {
+  return `{{${name}}}`;
+}
+
+/**
+ * List the field names used in a text, in order and without repeats
+ * @param {String} text text with {{field}} placeholders
+ */
+export function findPlaceholders(text: string): string[] {
+  const names = [...text.matchAll(placeholderPattern)].map(m => m[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Check whether a text has any placeholder
+ * @param {String} text text that may hold {{field}} placeholders
+ */
+export function hasPlaceholders(text: string) {
+  return findPlaceholders(text).length > 0;
+}
+
+/**
+ * Replace the placeholders in a text, fields missing from the record become empty
+ * @param {String} text text with {{field}} placeholders
+ * @param {Object} record values by field name
+ */
+export function mergeText(text: string, record: MergeRecord) {
+  return text.replace(placeholderPattern, (_, name: string) => {
+    const value = record[name];
+    return value === undefined || value === null ? '' : String(value);
+  });
+}
+
+/**
+ * Get the record that previews the fields with their sample values
+ * @param {Array} fields merge fields of the document
+ */
+export function sampleRecord(fields: ReadonlyArray<MergeField>): MergeRecord {
+  return Object.fromEntries(fields.map(f => [f.name, f.sample]));
+}
+
+/**
+ * Read merge fields from a saved document, dropping malformed entries
+ * @param {Array} fields fields as stored
+ */
+export function normalizeMergeFields(fields: unknown): MergeField[] {
+  if (!Array.isArray(fields)) { return []; }
+  const result: MergeField[] = [];
+  fields.forEach(f => {
+    const name = typeof f?.name === 'string' ? f.name : '';
+    if (!isValidFieldName(name) || result.some(r => r.name === name)) { return; }
+    result.push({ name, sample: typeof f.sample === 'string' ? f.sample : '' });
+  });
+  return result;
+}
+
+/**
+ * Get the text of an object that can hold placeholders
+ * @returns the property holding the text and its value, if the object has one
+ */
+function mergeableText(obj: fabric.FabricObject): { key: string, text: string } | undefined {
+  if (obj instanceof fabric.FabricText) {
+    return { key: 'text', text: obj.text };
+  }
+  if (obj instanceof Barcode) {
+    return { key: 'data', text: obj.data };
+  }
+  return undefined;
+}
+
+/**
+ * List the field names used by objects, including objects in groups
+ * @param {Array} objects canvas objects
+ */
+export function findObjectPlaceholders(objects: ReadonlyArray<fabric.FabricObject>): string[] {
+  const names = objects.flatMap(obj => {
+    if (obj instanceof fabric.Group) {
+      return findObjectPlaceholders(obj.getObjects());
+    }
+    return findPlaceholders(mergeableText(obj)?.text ?? '');
+  });
+  return [...new Set(names)];
+}
+
+/**
+ * Rewrite the text of an object and of the objects in a group
+ */
+function updateObjectText(obj: fabric.FabricObject, update: (text: string) => string) {
+  if (obj instanceof fabric.Group) {
+    obj.getObjects().forEach(o => updateObjectText(o, update));
+    return;
+  }
+  const mergeable = mergeableText(obj);
+  if (mergeable === undefined) { return; }
+  const text = update(mergeable.text);
+  if (text !== mergeable.text) {
+    obj.set(mergeable.key, text);
+    obj.setCoords();
+  }
+}
+
+/**
+ * Replace the placeholders of an object in place, objects in groups included
+ * @param {Object} obj a copy of a template object
+ * @param {Object} record values by field name
+ */
+export function mergeObject(obj: fabric.FabricObject, record: MergeRecord) {
+  updateObjectText(obj, text => mergeText(text, record));
+}
+
+/**
+ * Point the placeholders of a field to its new name
+ * @param {Object} obj template object
+ * @param {String} from previous field name
+ * @param {String} to new field name
+ */
+export function renameObjectPlaceholder(obj: fabric.FabricObject, from: string, to: string) {
+  updateObjectText(obj, text =>
+    text.replace(placeholderPattern, (match, name: string) => name === from ? placeholder(to) : match));
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  autoMapFields,
+  DataFileError,
+  mapRecord,
+  parseCsv,
+  parseDataFile,
+  parseJsonRecords,
+} from './dataTable.js';
+
+describe('parseCsv', () => {
+  it('reads quoted values with delimiters, doubled quotes and line breaks', () => {
+    expect(parseCsv('name,address\n"Doe, Jane","1 Main St\nApt ""B"""\nSmith,2 Oak Rd')).toEqual({
+      columns: ['name', 'address'],
+      records: [
+        { name: 'Doe, Jane', address: '1 Main St\nApt "B"' },
+        { name: 'Smith', address: '2 Oak Rd' },
+      ],
+    });
+  });
+
+  it('reads CRLF and CR line endings and skips blank lines', () => {
+    expect(parseCsv('a,b\r\n1,2\r\n\r\n3,4\r5,6\r\n').records).toEqual([
+      { a: '1', b: '2' },
+      { a: '3', b: '4' },
+      { a: '5', b: '6' },
+    ]);
+    expect(parseCsv('a\r\n"x\r\ny"').records).toEqual([{ a: 'x\r\ny' }]);
+  });
+
+  it('detects semicolon and tab delimiters and drops a byte order mark', () => {
+    expect(parseCsv('\uFEFFname;qty\nAda;3').records).toEqual([{ name: 'Ada', qty: '3' }]);
+    expect(parseCsv('name\tqty\nAda, Jr\t3').records).toEqual([{ name: 'Ada, Jr', qty: '3' }]);
+  });
+
+  it('names blank header cells and fills short rows', () => {
+    expect(parseCsv('name, ,qty\nAda')).toEqual({
+      columns: ['name', 'Column 2', 'qty'],
+      records: [{ name: 'Ada', 'Column 2': '', qty: '' }],
+    });
+  });
+
+  it('rejects an empty file and an unclosed quote', () => {
+    expect(() => parseCsv('\n \n')).toThrow(new DataFileError('The CSV file is empty.'));
+    expect(() => parseCsv('a\n"open')).toThrow('The CSV file ends inside a quoted value.');
+  });
+});
+
+describe('parseJsonRecords', () => {
+  it('collects the columns of all records and keeps nested values as JSON', () => {
+    expect(parseJsonRecords('[{"name":"Ada","tags":["a"]},{"qty":2,"name":null}]')).toEqual({
+      columns: ['name', 'tags', 'qty'],
+      records: [
+        { name: 'Ada', tags: '["a"]', qty: '' },
+        { name: '', tags: '', qty: '2' },
+      ],
+    });
+  });
+
+  it('rejects invalid JSON and anything but an array of objects', () => {
+    expect(() => parseJsonRecords('[')).toThrow(DataFileError);
+    expect(() => parseJsonRecords('[{"a":1},[2]]')).toThrow('The JSON file must hold an array of objects.');
+  });
+});
+
+describe('parseDataFile', () => {
+  it('reads a file by its extension', () => {
+    expect(parseDataFile('DATA.TSV', 'a\tb\n1\t2').records).toEqual([{ a: '1', b: '2' }]);
+    expect(parseDataFile('data.json', '[]').records).toEqual([]);
+    expect(() => parseDataFile('data.xlsx', '')).toThrow('data.xlsx is not a CSV or JSON file.');
+  });
+});
+
+describe('field mapping', () => {
+  const fields = [{ name: 'first_name', sample: 'Ada' }, { name: 'sku', sample: '000' }];
+
+  it('maps fields to columns by name, keeping earlier choices that still exist', () => {
+    expect(autoMapFields(fields, ['First Name', 'SKU'])).toEqual({ first_name: 'First Name', sku: 'SKU' });
+    expect(autoMapFields(fields, ['First Name', 'Item'], { sku: 'Item' }))
+      .toEqual({ first_name: 'First Name', sku: 'Item' });
+    expect(autoMapFields(fields, ['Name'], { sku: 'Item' })).toEqual({ first_name: undefined, sku: undefined });
+  });
+
+  it('builds records with sample values for unmapped fields', () => {
+    expect(mapRecord({ 'First Name': 'Grace' }, fields, { first_name: 'First Name', sku: undefined }))
+      .toEqual({ first_name: 'Grace', sku: '000' });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Define CSV and JSON record tables for batch merging
+ */
+
+import type { MergeField, MergeRecord } from './dataMerge.js';
+
+export class DataFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataFileError';
+  }
+}
+
+/** Records read from a data file, every value as text. */
+export interface DataTable {
+  columns: string[];
+  records: Record<string, string>[];
+}
+
+/** Column each merge field takes its value from, by field name. */
+export type FieldMapping = Record<string, string | undefined>;
+
+/**
+ * Pick the delimiter used most on the header line
+ */
+function detectDelimiter(text: string) {
+  const header = text.substring(0, text.search(/\r?\n|$/));
+  const counts = [',', ';', '\t'].map(d => ({ d, n: header.split(d).length }));
+  return counts.reduce((a, b) => b.n > a.n ? b : a).d;
+}
+
+/**
+ * Split CSV text into rows of cells, following RFC 4180 quoting
+ * @param {String} text CSV text
+ * @param {String} delimiter cell separator
+ */
+function splitCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') { i++; }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  if (quoted) {
+    throw new DataFileError('The CSV file ends inside a quoted value.');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Read a CSV file whose first line names the columns
+ * @param {String} text CSV text, comma, semicolon or tab separated
+ */
+export function parseCsv(text: string): DataTable {
+  const content = text.replace(/^\uFEFF/, '');
+  const rows = splitCsv(content, detectDelimiter(content))
+    .filter(row => row.some(cell => cell.trim() !== ''));
+  if (rows.length === 0) {
+    throw new DataFileError('The CSV file is empty.');
+  }
+
+  const columns = rows[0].map((name, i) => name.trim() || `Column ${i + 1}`);
+  const records = rows.slice(1).map(row =>
+    Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])));
+  return { columns, records };
+}
+
+/**
+ * Read a JSON array of objects, nested values are kept as JSON text
+ * @param {String} text JSON text
+ */
+export function parseJsonRecords(text: string): DataTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new DataFileError(`The JSON file can't be read: ${(e as Error).message}`);
+  }
+  if (!Array.isArray(data) || data.some(r => r === null || typeof r !== 'object' || Array.isArray(r))) {
+    throw new DataFileError('The JSON file must hold an array of objects.');
+  }
+
+  const columns = [...new Set(data.flatMap(r => Object.keys(r)))];
+  const records = data.map(r => Object.fromEntries(columns.map(column => {
+    const value = r[column];
+    const text = value === undefined || value === null ? ''
+      : typeof value === 'object' ? JSON.stringify(value)
+      : String(value);
+    return [column, text];
+  })));
+  return { columns, records };
+}
+
+/**
+ * Read a data file by its extension
+ * @param {String} name file name, .csv, .tsv or .json
+ * @param {String} text file content
+ */
+export function parseDataFile(name: string, text: string): DataTable {
+  if (/\.json$/i.test(name)) { return parseJsonRecords(text); }
+  if (/\.(csv|tsv)$/i.test(name)) { return parseCsv(text); }
+  throw new DataFileError(`${name} is not a CSV or JSON file.`);
+}
+
+/**
+ * Check whether a file name is one parseDataFile reads
+ */
+export function isDataFileName(name: string) {
+  return /\.(csv|tsv|json)$/i.test(name);
+}
+
+/**
+ * Map fields to the columns with the same name, ignoring case and spacing
+ * @param {Array} fields merge fields of the label
+ * @param {Array} columns column names of the data
+ * @param {Object} previous mapping to keep where its columns still exist
+ */
+export function autoMapFields(
+  fields: ReadonlyArray<MergeField>,
+  columns: ReadonlyArray<string>,
+  previous: FieldMapping = {},
+): FieldMapping {
+  const key = (name: string) => name.toLowerCase().replace(/[\s_.-]/g, '');
+  return Object.fromEntries(fields.map(field => {
+    const kept = previous[field.name];
+    if (kept !== undefined && columns.includes(kept)) { return [field.name, kept]; }
+    return [field.name, columns.find(c => key(c) === key(field.name))];
+  }));
+}
+
+/**
+ * Build the merge record of a row, unmapped fields keep their sample value
+ * @param {Object} row values by column
+ * @param {Array} fields merge fields of the label
+ * @param {Object} mapping column of each field
+ */
+export function mapRecord(
+  row: Readonly<Record<string, string>>,
+  fields: ReadonlyArray<MergeField>,
+  mapping: FieldMapping,
+): MergeRecord {
+  return Object.fromEntries(fields.map(field => {
+    const column = mapping[field.name];
+    return [field.name, column === undefined ? field.sample : row[column] ?? ''];
+  }));
+}
@@ -9,14 +9,34 @@ export const defaultButtons = [{
   name: 'shapes',
   title: 'Shapes',
   icon: `<svg id="Capa_1" x="0px" y="0px" viewBox="0 0 490.927 490.927" xml:space="preserve"><path d="M336.738,178.502c-12.645,0-24.852,1.693-36.627,4.582L202.57,11.786c-5.869-10.321-22.84-10.321-28.709,0L2.163,313.311 c-2.906,5.105-2.889,11.385,0.078,16.466c2.953,5.088,8.389,8.216,14.275,8.216l166.314,0.009 c2.818,82.551,70.688,148.88,153.906,148.88c85.012,0,154.19-69.167,154.19-154.186S421.749,178.502,336.738,178.502z  M44.917,304.964l143.299-251.63L331.515,304.97L44.917,304.964z"></path></svg>`
+}, {
+  name: 'draw',
+  title: 'Freehand drawing',
+  icon: `<svg x="0px" y="0px" viewBox="0 0 512 512" xml:space="preserve"><path d="M368,32l112,112L176,448H64V336L368,32z M112,356v44h44l212-212l-44-44L112,356z M96,480h384v32H96V480z"></path></svg>`
 }, {
   name: 'line',
   title: 'Line',
   icon: `<svg id="Capa_1" x="0px" y="0px" viewBox="0 0 512 512" xml:space="preserve"><path d="M349.091,0v124.516L124.516,349.091H0V512h162.909V387.484l224.574-224.574H512V0H349.091z M54.303,457.696v-54.303 h54.303v54.303H54.303z M457.696,108.605h-54.303V54.303h54.303V108.605z"></path></svg>`
+}, {
+  name: 'path',
+  title: 'Path, click to add points and drag to curve (Esc to finish)',
+  icon: `<svg x="0px" y="0px" viewBox="0 0 512 512" xml:space="preserve"><path d="M32,400h64v64H32V400z M416,48h64v64h-64V48z M64,384c0-176,96-208,176-208c88,0,112-64,160-80l10,30c-38,13-64,82-170,82c-72,0-144,24-144,176H64z M224,352h64v64h-64V352z"></path></svg>`
 }, {
   name: 'textbox',
   title: 'Text box',
   icon: `<svg id="Capa_1" x="0px" y="0px" viewBox="0 0 512 512" xml:space="preserve"><g><g><path d="M497,90c8.291,0,15-6.709,15-15V15c0-8.291-6.709-15-15-15h-60c-8.291,0-15,6.709-15,15v15H90V15c0-8.401-6.599-15-15-15 H15C6.599,0,0,6.599,0,15v60c0,8.399,6.599,15,15,15h15v332H15c-8.291,0-15,6.709-15,15v60c0,8.291,6.709,15,15,15h60 c8.291,0,15-6.709,15-15v-15h332v15c0,8.399,6.599,15,15,15h60c8.401,0,15-6.601,15-15v-60c0-8.401-6.599-15-15-15h-15V90H497z  M452,422h-15c-8.401,0-15,6.599-15,15v15H90v-15c0-8.291-6.709-15-15-15H60V90h15c8.401,0,15-6.601,15-15V60h332v15 c0,8.291,6.709,15,15,15h15V422z"></path></g></g><g><g><path d="M361,105H151c-8.291,0-15,6.709-15,15v60c0,6.064,3.647,11.543,9.258,13.857c5.625,2.329,12.056,1.04,16.348-3.252 L187.211,165H226v176.459l-27.48,42.221c-3.062,4.6-3.354,10.518-0.747,15.396S205.463,407,211,407h90 c5.537,0,10.62-3.047,13.228-7.925c2.608-4.878,2.314-10.796-0.747-15.396L286,341.459V165h38.789l25.605,25.605 c4.307,4.307,10.781,5.596,16.348,3.252c5.61-2.314,9.258-7.793,9.258-13.857v-60C376,111.709,369.291,105,361,105z"></path></g></g></svg>`
+}, {
+  name: 'barcode',
+  title: 'Barcode',
+  icon: `<svg x="0px" y="0px" viewBox="0 0 512 512" xml:space="preserve"><path d="M32,64h32v384H32V64z M96,64h16v384H96V64z M144,64h48v384h-48V64z M224,64h16v384h-16V64z M272,64h32v384h-32V64z M336,64h16v384h-16V64z M384,64h48v384h-48V64z M464,64h16v384h-16V64z"></path></svg>`
+}, {
+  name: 'qrcode',
+  title: '2D code (QR, Data Matrix, PDF417)',
+  icon: `<svg x="0px" y="0px" viewBox="0 0 512 512" xml:space="preserve"><path d="M32,32h192v192H32V32z M80,80v96h96V80H80z M288,32h192v192H288V32z M336,80v96h96V80H336z M32,288h192v192H32V288z M80,336v96h96v-96H80z M112,112h32v32h-32V112z M368,112h32v32h-32V112z M112,368h32v32h-32V368z M288,288h64v64h-64V288z M352,352h64v64h-64V352z M416,288h64v64h-64V288z M288,416h64v64h-64V416z M416,416h64v64h-64V416z"></path></svg>`
+}, {
+  name: 'data',
+  title: 'Data fields',
+  icon: `<svg x="0px" y="0px" viewBox="0 0 512 512" xml:space="preserve"><path d="M256,32C141.1,32,48,66.4,48,112v288c0,45.6,93.1,80,208,80s208-34.4,208-80V112C464,66.4,370.9,32,256,32z M416,400c0,15.1-62.3,40-160,40S96,415.1,96,400v-58.4c38.1,18.7,97.4,26.4,160,26.4s121.9-7.7,160-26.4V400z M416,288c0,15.1-62.3,40-160,40S96,303.1,96,288v-58.4c38.1,18.7,97.4,26.4,160,26.4s121.9-7.7,160-26.4V288z M256,216c-97.7,0-160-24.9-160-40s62.3-40,160-40s160,24.9,160,40S353.7,216,256,216z"></path></svg>`
 }, {
   name: 'upload',
   title: 'Upload image',
@@ -25,6 +45,10 @@ export const defaultButtons = [{
   name: 'background',
   title: 'Canvas option',
   icon: `<svg height="512pt" viewBox="0 0 512 512" width="512pt"><path d="m499.953125 197.703125-39.351563-8.554687c-3.421874-10.476563-7.660156-20.695313-12.664062-30.539063l21.785156-33.886719c3.890625-6.054687 3.035156-14.003906-2.050781-19.089844l-61.304687-61.304687c-5.085938-5.085937-13.035157-5.941406-19.089844-2.050781l-33.886719 21.785156c-9.84375-5.003906-20.0625-9.242188-30.539063-12.664062l-8.554687-39.351563c-1.527344-7.03125-7.753906-12.046875-14.949219-12.046875h-86.695312c-7.195313 0-13.421875 5.015625-14.949219 12.046875l-8.554687 39.351563c-10.476563 3.421874-20.695313 7.660156-30.539063 12.664062l-33.886719-21.785156c-6.054687-3.890625-14.003906-3.035156-19.089844 2.050781l-61.304687 61.304687c-5.085937 5.085938-5.941406 13.035157-2.050781 19.089844l21.785156 33.886719c-5.003906 9.84375-9.242188 20.0625-12.664062 30.539063l-39.351563 8.554687c-7.03125 1.53125-12.046875 7.753906-12.046875 14.949219v86.695312c0 7.195313 5.015625 13.417969 12.046875 14.949219l39.351563 8.554687c3.421874 10.476563 7.660156 20.695313 12.664062 30.539063l-21.785156 33.886719c-3.890625 6.054687-3.035156 14.003906 2.050781 19.089844l61.304687 61.304687c5.085938 5.085937 13.035157 5.941406 19.089844 2.050781l33.886719-21.785156c9.84375 5.003906 20.0625 9.242188 30.539063 12.664062l8.554687 39.351563c1.527344 7.03125 7.753906 12.046875 14.949219 12.046875h86.695312c7.195313 0 13.421875-5.015625 14.949219-12.046875l8.554687-39.351563c10.476563-3.421874 20.695313-7.660156 30.539063-12.664062l33.886719 21.785156c6.054687 3.890625 14.003906 3.039063 19.089844-2.050781l61.304687-61.304687c5.085937-5.085938 5.941406-13.035157 2.050781-19.089844l-21.785156-33.886719c5.003906-9.84375 9.242188-20.0625 12.664062-30.539063l39.351563-8.554687c7.03125-1.53125 12.046875-7.753906 12.046875-14.949219v-86.695312c0-7.195313-5.015625-13.417969-12.046875-14.949219zm-152.160156 58.296875c0 50.613281-41.179688 91.792969-91.792969 91.792969s-91.792969-41.179688-91.792969-91.792969 41.179688-91.792969 91.792969-91.792969 91.792969 41.179688 91.792969 91.792969zm0 0"></path></svg>`
+}, {
+  name: 'history',
+  title: 'History',
+  icon: `<svg viewBox="0 0 512 512"><path d="M256,32C132.3,32,32,132.3,32,256h48c0-97.2,78.8-176,176-176s176,78.8,176,176s-78.8,176-176,176c-48.6,0-92.6-19.7-124.5-51.5L165.5,346H64v101.5l33.6-33.6C138.1,454.6,194.2,480,256,480c123.7,0,224-100.3,224-224S379.7,32,256,32z M232,128v144l112,67.2l24-40.3l-88-52.2V128H232z"></path></svg>`
 }] as const;
 export type ButtonModes = typeof defaultButtons[number]['name'];
 
@@ -36,6 +60,18 @@ export const defaultExtendedButtons = [{
   name: 'redo',
   title: 'Redo',
   icon: `<svg id="Capa_1" x="0px" y="0px" viewBox="0 0 512.011 512.011" xml:space="preserve" style="transform: scale(-1, 1);"><path d="M511.136,286.255C502.08,194.863,419.84,128.015,328,128.015H192v-80c0-6.144-3.52-11.744-9.056-14.432             c-5.568-2.656-12.128-1.952-16.928,1.92l-160,128C2.208,166.575,0,171.151,0,176.015s2.208,9.44,5.984,12.512l160,128             c2.912,2.304,6.464,3.488,10.016,3.488c2.368,0,4.736-0.512,6.944-1.568c5.536-2.688,9.056-8.288,9.056-14.432v-80h139.392             c41.856,0,80,30.08,84.192,71.712c4.832,47.872-32.704,88.288-79.584,88.288H208c-8.832,0-16,7.168-16,16v64             c0,8.832,7.168,16,16,16h128C438.816,480.015,521.472,391.151,511.136,286.255z"></path></svg>`
+}, {
+  name: 'print',
+  title: 'Print',
+  icon: `<svg x="0px" y="0px" viewBox="0 0 512 512" xml:space="preserve"><path d="M128,32h256v96H128V32z M64,160h384c26.5,0,48,21.5,48,48v160h-80v112H96V368H16V208C16,181.5,37.5,160,64,160z M144,320v128h224V320H144z M408,200c-13.3,0-24,10.7-24,24s10.7,24,24,24s24-10.7,24-24S421.3,200,408,200z"></path></svg>`
+}, {
+  name: 'export',
+  title: 'Export…',
+  icon: `<svg viewBox="0 0 512 512"><path d="M224,32h64v226l67-67l45,45L256,380L112,236l45-45l67,67V32z M48,352h64v64h288v-64h64v128H48V352z"></path></svg>`
+}, {
+  name: 'open',
+  title: 'Open…',
+  icon: `<svg viewBox="0 0 512 512"><path d="M464,128H272l-64-64H48C21.5,64,0,85.5,0,112v288c0,26.5,21.5,48,48,48h416c26.5,0,48-21.5,48-48V176C512,149.5,490.5,128,464,128z"></path></svg>`
 }, {
   name: 'save',
   title: 'Save',
@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { DocumentFormatError, documentFormatVersion, migrateDocument } from './documentFormat.js';
+
+/** Bare canvas JSON as fabric v3 saved it, before the editor recorded a format version. */
+const version0 = {
+  version: '3.6.3',
+  objects: [
+    { type: 'rect', left: 10, top: 10, width: 50, height: 20, clipTo: 'function (ctx) { ctx.arc(0, 0, 10, 0, 7); }' },
+    {
+      type: 'group',
+      objects: [
+        { type: 'text', text: 'Ship to', clipTo: 'function (ctx) { ctx.rect(0, 0, 10, 10); }' },
+        { type: 'circle', radius: 5, clipPath: { type: 'rect', width: 4, height: 4, clipTo: null } },
+      ],
+    },
+  ],
+  backgroundImage: { type: 'image', src: 'data:image/png;base64,', clipTo: 'function (ctx) {}' },
+};
+
+/** Canvas JSON with the label media, fields and history next to the objects. */
+const version1 = {
+  version: '5.3.0',
+  objects: [{ type: 'textbox', text: '{{name}}' }],
+  background: 'white',
+  media: { width: 4, height: 6, unit: 'in', dpi: 203 },
+  fields: [{ name: 'name', sample: 'Ada' }],
+  history: { order: ['o1'], steps: [] },
+};
+
+/** The canvas wrapped with the label media, printer settings and fields. */
+const version2 = {
+  formatVersion: 2,
+  media: { width: 100, height: 50, unit: 'mm', dpi: 300 },
+  printer: { language: 'epl', textAsGraphic: true },
+  fields: [{ name: 'sku', sample: '1234' }],
+  canvas: { version: '6.5.4', objects: [{ type: 'rect' }] },
+};
+
+describe('migrateDocument', () => {
+  it('wraps fabric v3 canvas JSON and drops clipTo everywhere with a warning', () => {
+    const onWarning = vi.fn();
+    const doc = migrateDocument(structuredClone(version0), onWarning);
+
+    expect(doc).toMatchObject({ formatVersion: documentFormatVersion, printer: { language: 'zpl', textAsGraphic: false }, fields: [] });
+    expect(doc.media).toBeUndefined();
+    expect(JSON.stringify(doc.canvas)).not.toContain('clipTo');
+    expect(doc.canvas).toMatchObject({
+      objects: [
+        { type: 'rect', width: 50 },
+        { type: 'group', objects: [{ text: 'Ship to' }, { clipPath: { type: 'rect', width: 4 } }] },
+      ],
+      backgroundImage: { type: 'image' },
+    });
+    expect(onWarning.mock.calls).toEqual([
+      ['The clipping of the rect was dropped, clipTo functions of fabric v3 no longer load.'],
+      ['The clipping of the text was dropped, clipTo functions of fabric v3 no longer load.'],
+      ['The clipping of the image was dropped, clipTo functions of fabric v3 no longer load.'],
+    ]);
+  });
+
+  it('gives bare canvas JSON without objects an empty list', () => {
+    expect(migrateDocument({ background: 'white' }).canvas).toEqual({ background: 'white', objects: [] });
+  });
+
+  it('moves the canvas of version 1 into the wrapper', () => {
+    const { media, fields, history, ...canvas } = version1;
+    expect(migrateDocument(structuredClone(version1))).toEqual({
+      formatVersion: documentFormatVersion,
+      media,
+      printer: { language: 'zpl', textAsGraphic: false },
+      fields,
+      canvas,
+      history,
+    });
+  });
+
+  it('keeps version 2 documents as they are', () => {
+    const onWarning = vi.fn();
+    expect(migrateDocument(structuredClone(version2), onWarning)).toEqual({ ...version2, history: undefined });
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+
+  it('replaces printer settings it does not know', () => {
+    const doc = migrateDocument({ ...version2, printer: { language: 'postscript', textAsGraphic: 'yes' } });
+    expect(doc.printer).toEqual({ language: 'zpl', textAsGraphic: false });
+    expect(migrateDocument({ ...version2, printer: { language: 'constructor' } }).printer.language).toBe('zpl');
+  });
+
+  it('rejects documents of a newer version', () => {
+    expect(() => migrateDocument({ ...version2, formatVersion: documentFormatVersion + 1 }))
+      .toThrow(`format ${documentFormatVersion + 1} instead of ${documentFormatVersion}`);
+  });
+
+  it.each([
+    ['null', null],
+    ['an array', []],
+    ['a string', 'label'],
+  ])('rejects %s', (_name, doc) => {
+    expect(() => migrateDocument(doc)).toThrow(DocumentFormatError);
+  });
+
+  it('rejects unknown versions and documents without a canvas', () => {
+    expect(() => migrateDocument({ formatVersion: '2' })).toThrow('Unknown label document format version 2.');
+    expect(() => migrateDocument({ formatVersion: 2, canvas: [] })).toThrow('The label document has no canvas.');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Define the saved label document and upgrade documents saved by earlier versions
+ */
+
+import type { SavedHistory } from './canvasHistory.js';
+import { normalizeMergeFields, type MergeField } from './dataMerge.js';
+import { labelLanguages, type LabelLanguageName } from './languages/index.js';
+import type { LabelMedia } from './labelMedia.js';
+
+/**
+ * Version of the documents getCanvasJSON() returns.
+ * 0 is bare fabric canvas JSON, from fabric v3 on,
+ * 1 the canvas JSON with media and fields next to the objects,
+ * 2 the canvas wrapped with the label media, printer settings and fields.
+ */
+export const documentFormatVersion = 2;
+
+export interface LabelPrinterSettings {
+  /** Printer language last printed with. */
+  language: LabelLanguageName;
+  /** Whether text is sent as a graphic instead of printer fonts. */
+  textAsGraphic: boolean;
+}
+
+export const defaultPrinterSettings: Readonly<LabelPrinterSettings> = {
+  language: 'zpl',
+  textAsGraphic: false,
+};
+
+export interface LabelDocument {
+  formatVersion: number;
+  /** Label size, missing in documents upgraded from bare canvas JSON, which keep the editor's size. */
+  media?: LabelMedia;
+  printer: LabelPrinterSettings;
+  fields: MergeField[];
+  /** fabric canvas JSON. */
+  canvas: Record<string, unknown>;
+  /** Undo history, saved with the document when history.persist is on. */
+  history?: SavedHistory;
+}
+
+export class DocumentFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentFormatError';
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Drop what fabric v6 can't load from objects saved by fabric v3, in groups, clip paths and canvas images too
+ * @param {Function} onWarning called with what was dropped
+ */
+function upgradeFabricObject(object: JsonObject, onWarning: (message: string) => void): JsonObject {
+  // clipTo was a function, fabric v4 replaced it with clipPath; the function can't be turned into a path
+  const { clipTo, ...upgraded } = object;
+  if (clipTo !== undefined && clipTo !== null) {
+    onWarning(`The clipping of ${typeof upgraded.type === 'string' ? `the ${upgraded.type}` : 'an object'}`
+      + ' was dropped, clipTo functions of fabric v3 no longer load.');
+  }
+  if (Array.isArray(upgraded.objects)) {
+    upgraded.objects = upgraded.objects.map(o => isObject(o) ? upgradeFabricObject(o, onWarning) : o);
+  }
+  ['clipPath', 'backgroundImage', 'overlayImage'].forEach(key => {
+    const value = upgraded[key];
+    if (isObject(value)) {
+      upgraded[key] = upgradeFabricObject(value, onWarning);
+    }
+  });
+  return upgraded;
+}
+
+/** Upgrade a document of the version it is indexed by to the next version. */
+const migrations: ReadonlyArray<(doc: JsonObject, onWarning: (message: string) => void) => JsonObject> = [
+  // bare canvas JSON of fabric v3, v5 or v6
+  (doc, onWarning) => upgradeFabricObject({ ...doc, objects: Array.isArray(doc.objects) ? doc.objects : [] }, onWarning),
+  // the canvas is moved into the wrapper
+  ({ media, fields, history, ...canvas }) => ({
+    formatVersion: 2,
+    ...(media !== undefined ? { media } : {}),
+    printer: { ...defaultPrinterSettings },
+    fields: fields ?? [],
+    canvas,
+    ...(history !== undefined ? { history } : {}),
+  }),
+];
+
+/**
+ * Get the format version of a document, documents before version 2 don't record it
+ */
+function formatVersionOf(doc: JsonObject) {
+  if (doc.formatVersion !== undefined) {
+    return doc.formatVersion;
+  }
+  return doc.media !== undefined || doc.fields !== undefined ? 1 : 0;
+}
+
+/**
+ * Upgrade a document saved by any version of the editor to the current format
+ * @param {Object} doc document as getCanvasJSON() returns it now or did before, or fabric canvas JSON
+ * @param {Function} onWarning called with each part of the document that couldn't be upgraded and was dropped
+ * @returns {Object} the document in the current format
+ * @throws {DocumentFormatError} when the document isn't a label or comes from a newer version
+ */
+export function migrateDocument(doc: unknown, onWarning: (message: string) => void = () => {}): LabelDocument {
+  if (!isObject(doc)) {
+    throw new DocumentFormatError('The label document is not an object.');
+  }
+
+  const version = formatVersionOf(doc);
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new DocumentFormatError(`Unknown label document format version ${String(version)}.`);
+  }
+  if (version > documentFormatVersion) {
+    throw new DocumentFormatError(
+      `The label was saved by a newer version of the editor, format ${version} instead of ${documentFormatVersion}.`);
+  }
+  const upgraded = migrations.slice(version).reduce((upgrading, migrate) => migrate(upgrading, onWarning), doc);
+
+  const { media, printer, canvas, history } = upgraded;
+  if (!isObject(canvas)) {
+    throw new DocumentFormatError('The label document has no canvas.');
+  }
+  const language = isObject(printer) ? printer.language : undefined;
+  return {
+    ...upgraded,
+    formatVersion: documentFormatVersion,
+    // the editor normalizes the media and checks the history against the canvas when it loads them
+    media: isObject(media) ? media as unknown as LabelMedia : undefined,
+    printer: {
+      language: typeof language === 'string' && Object.hasOwn(labelLanguages, language)
+        ? language as LabelLanguageName : defaultPrinterSettings.language,
+      textAsGraphic: isObject(printer) && printer.textAsGraphic === true,
+    },
+    fields: normalizeMergeFields(upgraded.fields),
+    canvas,
+    history: isObject(history) ? history as unknown as SavedHistory : undefined,
+  };
+}
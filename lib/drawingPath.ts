@@ -1,266 +1,199 @@
-// import { inRange } from "./utils.js";
-
-// function initializePathDrawing(fabricCanvas) {
-
-//   let isDrawingPath = false,
-//     pathToDraw,
-//     pointer,
-//     updatedPath,
-//     isMouseDown = false,
-//     isDrawingCurve = false,
-//     rememberX, rememberY
-
-
-//   fabricCanvas.on('mouse:down', (o) => {
-//     if (!fabricCanvas.isDrawingPathMode) return
-
-//     isMouseDown = true
-//     isDrawingPath = true
-//     pointer = fabricCanvas.getPointer(o.e)
-
-
-//     // if first point, no extras, just place the point
-//     if (!pathToDraw) {
-//       pathToDraw = new fabric.Path(`M${pointer.x} ${pointer.y} L${pointer.x} ${pointer.y}`, {
-//         strokeWidth: 2,
-//         stroke: '#000000',
-//         fill: false
-//       })
-//       pathToDraw.selectable = false
-//       pathToDraw.evented = false
-//       pathToDraw.strokeUniform = true
-//       fabricCanvas.add(pathToDraw)
-
-//       return
-//     }
-
-//     // not the first point, add a new line
-//     if (pathToDraw) {
-//       pathToDraw.path.push(['L', pointer.x, pointer.y])
-
-//       // recalc path dimensions
-//       let dims = pathToDraw._calcDimensions()
-//       pathToDraw.set({
-//         width: dims.width,
-//         height: dims.height,
-//         left: dims.left,
-//         top: dims.top,
-//         pathOffset: {
-//           x: dims.width / 2 + dims.left,
-//           y: dims.height / 2 + dims.top
-//         },
-//         dirty: true
-//       })
-//       pathToDraw.setCoords()
-//       fabricCanvas.renderAll()
-
-//       return
-//     }
-//   });
-
-
-
-//   fabricCanvas.on('mouse:move', (o) => {
-
-//     if (!fabricCanvas.isDrawingPathMode) return
-
-//     if (!isDrawingPath) return
-
-//     // update the last path command as we move the mouse
-//     pointer = fabricCanvas.getPointer(o.e)
-
-//     if (!isDrawingCurve) {
-//       updatedPath = ['L', pointer.x, pointer.y]
-//     }
-
-//     pathToDraw.path.pop()
-
-
-//     // shift key is down, jump angles
-//     if (o.e.shiftKey && !isDrawingCurve) {
-//       // last fix, placed point
-//       let lastPoint = [...pathToDraw.path].pop()
-//       let startX = lastPoint[1]
-//       let startY = lastPoint[2]
-
-//       let x2 = pointer.x - startX
-//       let y2 = pointer.y - startY
-//       let r = Math.sqrt(x2 * x2 + y2 * y2)
-//       let angle = (Math.atan2(y2, x2) / Math.PI * 180)
-
-//       angle = parseInt(((angle + 7.5) % 360) / 15) * 15
-
-//       let cosx = r * Math.cos(angle * Math.PI / 180)
-//       let sinx = r * Math.sin(angle * Math.PI / 180)
-
-//       updatedPath[1] = cosx + startX
-//       updatedPath[2] = sinx + startY
-//     }
-
-
-//     // detect and snap to closest line if within range
-//     if (pathToDraw.path.length > 1 && !isDrawingCurve) {
-//       // foreach all points, except last
-//       let snapPoints = [...pathToDraw.path]
-//       snapPoints.pop()
-//       for (let p of snapPoints) {
-//         // line
-//         if ((p[0] === 'L' || p[0] === 'M') && inRange(10, pointer.x, pointer.y, p[1], p[2])) {
-//           updatedPath[1] = p[1]
-//           updatedPath[2] = p[2]
-//           break
-//         }
-
-//         // curve
-//         if (p[0] === 'Q' && inRange(10, pointer.x, pointer.y, p[3], p[4])) {
-//           updatedPath[1] = p[3]
-//           updatedPath[2] = p[4]
-//           break
-//         }
-
-//       }
-//     }
-
-//     // curve creating
-//     if (isMouseDown) {
-
-//       if (!isDrawingCurve && pathToDraw.path.length > 1) {
-
-//         isDrawingCurve = true
-
-//         // get last path position and remove last path so we can update it
-//         let lastPath = pathToDraw.path.pop()
-
-//         if (lastPath[0] === 'Q') {
-//           updatedPath = ['Q', lastPath[3], lastPath[4], lastPath[3], lastPath[4]]
-//           rememberX = lastPath[3]
-//           rememberY = lastPath[4]
-//         } else {
-//           updatedPath = ['Q', lastPath[1], lastPath[2], lastPath[1], lastPath[2]]
-//           rememberX = lastPath[1]
-//           rememberY = lastPath[2]
-//         }
-
-//       } else if (isDrawingCurve) {
-
-//         // detect mouse move and calc Q position
-//         let mouseMoveX = pointer.x - updatedPath[3]
-//         let mouseMoveY = pointer.y - updatedPath[4]
-
-//         updatedPath = [
-//           'Q',
-//           rememberX - mouseMoveX,
-//           rememberY - mouseMoveY,
-//           rememberX,
-//           rememberY
-//         ]
-
-//       }
-
-//     }
-
-//     // add new path
-//     pathToDraw.path.push(updatedPath)
-
-//     // recalc path dimensions
-//     let dims = pathToDraw._calcDimensions();
-//     pathToDraw.set({
-//       width: dims.width,
-//       height: dims.height,
-//       left: dims.left,
-//       top: dims.top,
-//       pathOffset: {
-//         x: dims.width / 2 + dims.left,
-//         y: dims.height / 2 + dims.top
-//       },
-//       dirty: true
-//     })
-//     fabricCanvas.renderAll()
-
-//   })
-
-//   fabricCanvas.on('mouse:up', (o) => {
-//     if (!fabricCanvas.isDrawingPathMode) {
-//       isMouseDown = false
-//       isDrawingCurve = false
-//       return
-//     }
-
-//     isMouseDown = false
-
-//     if (isDrawingCurve) {
-//       // place current curve by starting a new line
-//       pointer = fabricCanvas.getPointer(o.e)
-//       pathToDraw.path.push(['L', pointer.x, pointer.y])
-
-//       // recalc path dimensions
-//       let dims = pathToDraw._calcDimensions()
-//       pathToDraw.set({
-//         width: dims.width,
-//         height: dims.height,
-//         left: dims.left,
-//         top: dims.top,
-//         pathOffset: {
-//           x: dims.width / 2 + dims.left,
-//           y: dims.height / 2 + dims.top
-//         },
-//         dirty: true
-//       })
-//       pathToDraw.setCoords()
-//       fabricCanvas.renderAll()
-//     }
-
-//     isDrawingCurve = false
-
-//   })
-
-//   // cancel drawing, remove last line
-//   const cancelDrawing = () => {
-//     // remove last line
-//     pathToDraw.path.pop()
-
-//     if (pathToDraw.path.length > 1) {
-
-//       let dims = pathToDraw._calcDimensions();
-//       pathToDraw.set({
-//         width: dims.width,
-//         height: dims.height,
-//         left: dims.left,
-//         top: dims.top,
-//         pathOffset: {
-//           x: dims.width / 2 + dims.left,
-//           y: dims.height / 2 + dims.top
-//         },
-//         dirty: true
-//       })
-
-//     } else {
-//       // if there is no line, just the starting point then remove
-//       fabricCanvas.remove(pathToDraw);
-//     }
-
-//     fabricCanvas.renderAll()
-//     fabricCanvas.trigger('object:modified')
-
-//     pathToDraw = null
-//     isDrawingPath = false
-//   }
-
-//   // cancel drawing on esc key or outside click
-//   document.addEventListener('keydown', (e) => {
-//     if (!isDrawingPath) return
-
-//     const key = e.which || e.keyCode;
-//     if (key === 27) cancelDrawing()
-//   })
-
-//   document.addEventListener('mousedown', (e) => {
-//     if (!isDrawingPath) return
-
-//     if (!document.querySelector('.canvas-container').contains(e.target)) {
-//       cancelDrawing()
-//     }
-//   })
-
-// }
-
+/**
+ * Define the path tool: click to add points, drag while placing a point to bend
+ * the segment into a quadratic curve, hold shift to snap to 15° angles, and
+ * points snap to the ones already placed. Esc or a click outside the canvas ends the path.
+ */
+
+import * as fabric from 'fabric';
+import { inRange } from './utils.js';
+
+/** Distance in dots within which a point snaps to an earlier one. */
+const snapRadius = 10;
+
+export interface PathDrawing {
+  /** Keep the path drawn so far without the segment following the mouse. */
+  finish(): void;
+  /** Whether a path is being drawn. */
+  readonly drawing: boolean;
+}
+
+/**
+ * Get the point a path command ends at
+ */
+function endPoint(command: fabric.TSimpleParsedCommand): fabric.XY | undefined {
+  switch (command[0]) {
+    case 'M':
+    case 'L':
+      return { x: command[1], y: command[2] };
+    case 'Q':
+      return { x: command[3], y: command[4] };
+    case 'C':
+      return { x: command[5], y: command[6] };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Turn a point around a start point to the closest multiple of 15°
+ */
+function snapAngle(start: fabric.XY, point: fabric.XY): fabric.XY {
+  const dx = point.x - start.x;
+  const dy = point.y - start.y;
+  const r = Math.sqrt(dx * dx + dy * dy);
+  const angle = Math.round(Math.atan2(dy, dx) / Math.PI * 180 / 15) * 15 / 180 * Math.PI;
+  return { x: start.x + r * Math.cos(angle), y: start.y + r * Math.sin(angle) };
+}
+
+/**
+ * Draw paths on a canvas while a tool is active
+ * @param {Object} canvas canvas to draw on
+ * @param {Function} isActive whether the path tool is the active tool
+ * @param {Function} onFinish called with the path once it is placed, e.g. to record undo history
+ */
+export function initializePathDrawing(
+  canvas: fabric.Canvas,
+  isActive: () => boolean,
+  onFinish: (path: fabric.Path) => void,
+): PathDrawing {
+  let pathToDraw: fabric.Path | undefined;
+  let isMouseDown = false;
+  let isDrawingCurve = false;
+  // end point of the segment being bent into a curve
+  let curveEnd: fabric.XY = { x: 0, y: 0 };
+
+  const commands = (path: fabric.Path) => path.path as fabric.TSimpleParsedCommand[];
+
+  const updateDimensions = (path: fabric.Path) => {
+    path.setBoundingBox(true);
+    path.set({ dirty: true });
+    path.setCoords();
+    canvas.requestRenderAll();
+  };
+
+  canvas.on('mouse:down', (o) => {
+    if (!isActive()) { return; }
+
+    isMouseDown = true;
+    const pointer = canvas.getViewportPoint(o.e);
+
+    // the first point starts a path with a segment that follows the mouse
+    if (pathToDraw === undefined) {
+      pathToDraw = new fabric.Path(`M ${pointer.x} ${pointer.y} L ${pointer.x} ${pointer.y}`, {
+        strokeWidth: 2,
+        stroke: '#000000',
+        fill: '',
+        selectable: false,
+        evented: false,
+        strokeUniform: true,
+        objectCaching: false,
+      });
+      canvas.add(pathToDraw);
+      return;
+    }
+
+    // the segment following the mouse stays, a new one starts
+    commands(pathToDraw).push(['L', pointer.x, pointer.y]);
+    updateDimensions(pathToDraw);
+  });
+
+  canvas.on('mouse:move', (o) => {
+    if (pathToDraw === undefined) { return; }
+
+    const pointer = canvas.getViewportPoint(o.e);
+    const path = commands(pathToDraw);
+    let updated = path.pop()!;
+    if (!isDrawingCurve) {
+      updated = ['L', pointer.x, pointer.y];
+    }
+
+    if (!isDrawingCurve) {
+      const start = endPoint(path[path.length - 1]);
+      let point: fabric.XY = pointer;
+
+      // shift key is down, jump angles
+      if ((o.e as MouseEvent).shiftKey && start !== undefined) {
+        point = snapAngle(start, pointer);
+      }
+
+      // snap to an earlier point within range
+      const snap = path.slice(0, -1).map(endPoint)
+        .find(p => p !== undefined && inRange(snapRadius, pointer.x, pointer.y, p.x, p.y));
+      if (snap !== undefined) {
+        point = snap;
+      }
+      updated = ['L', point.x, point.y];
+    }
+
+    // dragging while placing a point bends the last segment into a curve
+    if (isMouseDown) {
+      if (!isDrawingCurve && path.length > 1) {
+        isDrawingCurve = true;
+        const last = path.pop()!;
+        curveEnd = endPoint(last)!;
+        updated = ['Q', curveEnd.x, curveEnd.y, curveEnd.x, curveEnd.y];
+      } else if (isDrawingCurve) {
+        // the control point mirrors the mouse around the end point
+        updated = [
+          'Q',
+          2 * curveEnd.x - pointer.x,
+          2 * curveEnd.y - pointer.y,
+          curveEnd.x,
+          curveEnd.y,
+        ];
+      }
+    }
+
+    path.push(updated);
+    updateDimensions(pathToDraw);
+  });
+
+  canvas.on('mouse:up', (o) => {
+    isMouseDown = false;
+    if (pathToDraw === undefined || !isDrawingCurve) {
+      isDrawingCurve = false;
+      return;
+    }
+
+    // place the curve by starting a new segment
+    const pointer = canvas.getViewportPoint(o.e);
+    commands(pathToDraw).push(['L', pointer.x, pointer.y]);
+    updateDimensions(pathToDraw);
+    isDrawingCurve = false;
+  });
+
+  const finish = () => {
+    const path = pathToDraw;
+    if (path === undefined) { return; }
+    pathToDraw = undefined;
+    isMouseDown = false;
+    isDrawingCurve = false;
+
+    // drop the segment following the mouse, a lone starting point is dropped altogether
+    commands(path).pop();
+    if (commands(path).length < 2) {
+      canvas.remove(path);
+      canvas.requestRenderAll();
+      return;
+    }
+
+    updateDimensions(path);
+    path.set({ objectCaching: true });
+    onFinish(path);
+  };
+
+  // end the path with Esc or a click outside this canvas
+  document.addEventListener('keydown', (e) => {
+    if (pathToDraw !== undefined && e.key === 'Escape') { finish(); }
+  });
+  document.addEventListener('mousedown', (e) => {
+    if (pathToDraw !== undefined && !canvas.wrapperEl.contains(e.target as Node)) { finish(); }
+  });
+
+  return {
+    finish,
+    get drawing() {
+      return pathToDraw !== undefined;
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from './events.js';
+
+interface TestEvents {
+  change: { value: number };
+  clear: { reason: string };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('EventEmitter', () => {
+  it('calls the handlers of an event in the order they were added', () => {
+    const events = new EventEmitter<TestEvents>();
+    const calls: string[] = [];
+    events.on('change', e => calls.push(`first ${e.value}`));
+    events.on('change', e => calls.push(`second ${e.value}`));
+    events.on('clear', e => calls.push(`clear ${e.reason}`));
+    events.emit('change', { value: 1 });
+
+    expect(calls).toEqual(['first 1', 'second 1']);
+    expect(events.has('change')).toBe(true);
+    expect(events.has('clear')).toBe(true);
+  });
+
+  it('removes a handler with off() or the function on() returns', () => {
+    const events = new EventEmitter<TestEvents>();
+    const first = vi.fn();
+    const second = vi.fn();
+    events.on('change', first);
+    const remove = events.on('change', second);
+    events.off('change', first);
+    remove();
+    events.emit('change', { value: 1 });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).not.toHaveBeenCalled();
+    expect(events.has('change')).toBe(false);
+  });
+
+  it('calls the other handlers when one throws and throws its error again afterwards', () => {
+    const queued: (() => void)[] = [];
+    vi.stubGlobal('queueMicrotask', (task: () => void) => queued.push(task));
+    const events = new EventEmitter<TestEvents>();
+    const error = new Error('handler failed');
+    const after = vi.fn();
+    events.on('change', () => { throw error; });
+    events.on('change', after);
+    events.emit('change', { value: 1 });
+
+    expect(after).toHaveBeenCalled();
+    expect(queued).toHaveLength(1);
+    expect(queued[0]).toThrow(error);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Define the events the editor reports to host applications
+ */
+
+import type * as fabric from 'fabric';
+import type { ImageEditor } from './core.js';
+import type { ButtonModes } from './defaults.js';
+
+/** The document as getCanvasJSON() returns it. */
+export type EditorDocument = ReturnType<ImageEditor['getCanvasJSON']>;
+
+export interface ImageEditorEvents {
+  /** The label, its media or its fields changed. */
+  change: { document: EditorDocument };
+  /** Objects were selected or the selection was cleared. */
+  selectionChange: { selected: fabric.FabricObject[] };
+  toolChange: { tool: ButtonModes; previous: ButtonModes | undefined };
+  /** Sent before saving, preventDefault() keeps the document from being saved. */
+  beforeSave: { document: EditorDocument; preventDefault(): void };
+  afterSave: { document: EditorDocument };
+  historyChange: { canUndo: boolean; canRedo: boolean };
+  /** The label changed since it was saved or opened, or was just saved. */
+  dirtyChange: { dirty: boolean };
+}
+
+export type EditorEventHandler<T> = (event: T) => void;
+
+/**
+ * Keep handlers by event name and call them in the order they were added
+ */
+export class EventEmitter<Events extends object> {
+  private readonly handlers: { [K in keyof Events]?: Set<EditorEventHandler<Events[K]>> } = {};
+
+  /**
+   * Add a handler
+   * @returns {Function} removes the handler again
+   */
+  public on<K extends keyof Events>(name: K, handler: EditorEventHandler<Events[K]>) {
+    (this.handlers[name] ??= new Set()).add(handler);
+    return () => this.off(name, handler);
+  }
+
+  public off<K extends keyof Events>(name: K, handler: EditorEventHandler<Events[K]>) {
+    this.handlers[name]?.delete(handler);
+  }
+
+  /**
+   * Check whether an event has handlers, to skip building costly events nobody listens to
+   */
+  public has(name: keyof Events) {
+    return (this.handlers[name]?.size ?? 0) > 0;
+  }
+
+  /**
+   * Call the handlers of an event. A handler that throws doesn't stop the others or the editor,
+   * its error is thrown again once they ran, so it reaches window.onerror as an uncaught error.
+   */
+  public emit<K extends keyof Events>(name: K, event: Events[K]) {
+    [...this.handlers[name] ?? []].forEach(handler => {
+      try {
+        handler(event);
+      } catch (e) {
+        queueMicrotask(() => { throw e; });
+      }
+    });
+  }
+}
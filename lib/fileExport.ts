@@ -0,0 +1,322 @@
+/**
+ * Define export of a label as a PNG image, an SVG image or a vector PDF, sized to the label media
+ */
+
+import * as fabric from 'fabric';
+import { Barcode } from './barcodes/index.js';
+import { dataUrlToBytes } from './batch.js';
+import { getCanvasSizeInDots, type LabelMedia } from './labelMedia.js';
+import { bitmapRects, isBlankBitmap, rasterizeObject, type MonochromeBitmap } from './languages/bitmap.js';
+import { buildLabelCommands, textLinePositions, type LabelCommand } from './languages/labelCommands.js';
+import { createPdf, type PdfMaskImage } from './pdf.js';
+import { crc32 } from './zip.js';
+
+export type ExportFormat = 'png' | 'svg' | 'pdf';
+
+export const exportFormats: Record<ExportFormat, string> = {
+  png: 'PNG image',
+  svg: 'SVG image',
+  pdf: 'PDF document',
+};
+
+export interface FileExportOptions {
+  /**
+   * SVG and PDF only: draw text as outlines of its printer dots, so it looks the same without the fonts.
+   * Outlined text is black, as a monochrome printer prints it.
+   */
+  textAsOutlines?: boolean;
+}
+
+/** Graphics covered by more rectangles than this are written to PDFs as images. */
+const maxGraphicRects = 4000;
+
+/**
+ * Widths of the WinAnsi characters from space to tilde in Helvetica, in thousandths of the font size.
+ * Other characters are taken as wide as a digit.
+ */
+const helveticaWidths = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/**
+ * Measure a line of Helvetica
+ * @param {String} text line of text
+ * @param {Number} size font size
+ */
+function helveticaWidth(text: string, size: number) {
+  return [...text].reduce((width, c) => width + (helveticaWidths[c.charCodeAt(0) - 32] ?? 556), 0) * size / 1000;
+}
+
+/**
+ * Write text as a PDF string in the WinAnsi encoding, characters outside Latin-1 become a question mark
+ */
+function pdfString(text: string) {
+  const latin1 = [...text].map(c => c.charCodeAt(0) > 0xff ? '?' : c).join('');
+  return `(${latin1.replace(/[\\()]/g, c => `\\${c}`)})`;
+}
+
+/**
+ * Add the resolution to a PNG, so it prints at the size of the label
+ * @param {Uint8Array} png PNG file, its first chunk is the header
+ * @param {Number} dpi dots per inch
+ */
+function setPngResolution(png: Uint8Array, dpi: number) {
+  const chunk = new DataView(new ArrayBuffer(21));
+  chunk.setUint32(0, 9);
+  [0x70, 0x48, 0x59, 0x73].forEach((c, i) => chunk.setUint8(4 + i, c));
+  const dotsPerMeter = Math.round(dpi / 0.0254);
+  chunk.setUint32(8, dotsPerMeter);
+  chunk.setUint32(12, dotsPerMeter);
+  // the unit is the meter
+  chunk.setUint8(16, 1);
+  chunk.setUint32(17, crc32(new Uint8Array(chunk.buffer, 4, 13)));
+
+  // the signature and the header chunk come first
+  const headerEnd = 8 + 25;
+  const result = new Uint8Array(png.length + 21);
+  result.set(png.subarray(0, headerEnd));
+  result.set(new Uint8Array(chunk.buffer), headerEnd);
+  result.set(png.subarray(headerEnd), headerEnd + 21);
+  return result;
+}
+
+/**
+ * Export a label as a PNG image of its printer dots
+ * @param {Object} canvas fabric canvas in printer dots
+ * @param {Object} media label media the canvas represents
+ */
+export function exportPng(canvas: fabric.StaticCanvas, media: LabelMedia) {
+  const png = dataUrlToBytes(canvas.toDataURL({ format: 'png', multiplier: 1 }));
+  return setPngResolution(png, media.dpi);
+}
+
+/**
+ * Check whether an object draws text, on its own or in a group
+ */
+function hasText(obj: fabric.FabricObject): boolean {
+  if (obj instanceof fabric.Text) { return true; }
+  if (obj instanceof Barcode) { return obj.showText; }
+  return obj instanceof fabric.Group && obj.getObjects().some(hasText);
+}
+
+/**
+ * Replace text on a canvas by paths covering its printer dots
+ * @param {Object} canvas fabric canvas in printer dots, changed in place
+ */
+function outlineText(canvas: fabric.StaticCanvas) {
+  canvas.getObjects().forEach(obj => {
+    if (!obj.visible || !hasText(obj)) { return; }
+
+    const { left, top, bitmap } = rasterizeObject(obj);
+    const index = canvas.getObjects().indexOf(obj);
+    canvas.remove(obj);
+    if (isBlankBitmap(bitmap)) { return; }
+
+    const d = bitmapRects(bitmap)
+      .map(r => `M ${left + r.x} ${top + r.y} h ${r.width} v ${r.height} h ${-r.width} z`)
+      .join(' ');
+    canvas.insertAt(index, new fabric.Path(d, { fill: '#000000', stroke: null, strokeWidth: 0 }));
+  });
+}
+
+/**
+ * Export a label as an SVG image sized to the label
+ * @param {Object} canvas fabric canvas in printer dots, text is outlined in place when asked to
+ * @param {Object} media label media the canvas represents
+ * @param {Object} options whether to outline text
+ */
+export function exportSvg(canvas: fabric.StaticCanvas, media: LabelMedia, options: FileExportOptions = {}) {
+  if (options.textAsOutlines) {
+    outlineText(canvas);
+  }
+  const { width, height } = getCanvasSizeInDots(media);
+  const toMm = (dots: number) => `${Math.round(dots / media.dpi * 25.4 * 1000) / 1000}mm`;
+  return canvas.toSVG({
+    width: toMm(width),
+    height: toMm(height),
+    viewBox: { x: 0, y: 0, width, height },
+  });
+}
+
+/**
+ * Write the PDF operators drawing a label command, in dots with y going down
+ * @param {Object} command label command in canvas coordinates
+ * @param {Array} images masks the content draws, graphics too large for paths are added
+ */
+function commandToPdf(command: LabelCommand, images: PdfMaskImage[]): string {
+  const color = (black: boolean) => black ? '0 g 0 G' : '1 g 1 G';
+  switch (command.kind) {
+    case 'box': {
+      const { x, y, width, height, thickness, rounding } = command;
+      const radius = rounding / 8 * Math.min(width, height) / 2;
+      const filled = thickness * 2 >= Math.min(width, height);
+      // a stroke is centered on the path, keep it inside the box
+      const inset = filled ? 0 : thickness / 2;
+      return `${color(command.color === 'B')} ${filled ? '' : `${thickness} w `}`
+        + roundedRect(x + inset, y + inset, width - 2 * inset, height - 2 * inset, Math.max(0, radius - inset))
+        + (filled ? ' f' : ' S');
+    }
+    case 'ellipse': {
+      const { x, y, width, height, thickness } = command;
+      const filled = thickness * 2 >= Math.min(width, height);
+      const inset = filled ? 0 : thickness / 2;
+      return `${color(true)} ${filled ? '' : `${thickness} w `}`
+        + ellipse(x + inset, y + inset, width - 2 * inset, height - 2 * inset)
+        + (filled ? ' f' : ' S');
+    }
+    case 'diagonal': {
+      const { x, y, width, height, thickness } = command;
+      // L leans like a backslash, from the top left to the bottom right
+      const points = command.lean === 'L'
+        ? [[x, y], [x + thickness, y], [x + width, y + height], [x + width - thickness, y + height]]
+        : [[x + width - thickness, y], [x + width, y], [x + thickness, y + height], [x, y + height]];
+      return `${color(true)} ${points.map(([px, py], i) => `${px} ${py} ${i === 0 ? 'm' : 'l'}`).join(' ')} h f`;
+    }
+    case 'text': {
+      const size = command.fontHeight;
+      const directions = {
+        0: { right: [1, 0], down: [0, 1] },
+        90: { right: [0, 1], down: [-1, 0] },
+        180: { right: [-1, 0], down: [0, -1] },
+        270: { right: [0, -1], down: [1, 0] },
+      } as const;
+      const { right, down } = directions[command.orientation];
+      // the baseline is below the top of the line, and y goes down so glyphs are flipped back up
+      const ascent = size * 0.9;
+      return textLinePositions(command, line => helveticaWidth(line, size))
+        .map(line => `BT /F0 ${size} Tf ${right[0]} ${right[1]} ${-down[0]} ${-down[1]} `
+          + `${line.x + down[0] * ascent} ${line.y + down[1] * ascent} Tm ${pdfString(line.text)} Tj ET`)
+        .join('\n');
+    }
+    case 'graphic':
+      return graphicToPdf(command.x, command.y, command.bitmap, images);
+    default:
+      // barcodes are drawn as graphics
+      return '';
+  }
+}
+
+/**
+ * Draw a graphic as rectangles, or as a mask image when that takes too many of them
+ */
+function graphicToPdf(x: number, y: number, bitmap: MonochromeBitmap, images: PdfMaskImage[]) {
+  const rects = bitmapRects(bitmap);
+  if (rects.length <= maxGraphicRects) {
+    return `0 g ${rects.map(r => `${x + r.x} ${y + r.y} ${r.width} ${r.height} re`).join(' ')} f`;
+  }
+
+  const name = `Im${images.length}`;
+  images.push({ name, width: bitmap.width, height: bitmap.height, mask: bitmap.data });
+  // the first row of an image is at the top of the unit square, which y going down puts at the bottom
+  return `0 g q ${bitmap.width} 0 0 ${-bitmap.height} ${x} ${y + bitmap.height} cm /${name} Do Q`;
+}
+
+/**
+ * Path of a rectangle with rounded corners
+ */
+function roundedRect(x: number, y: number, width: number, height: number, radius: number) {
+  if (radius <= 0) {
+    return `${x} ${y} ${width} ${height} re`;
+  }
+  // control points of a quarter circle drawn with a cubic curve
+  const k = radius * (1 - 0.5523);
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    `${x + radius} ${y} m`,
+    `${right - radius} ${y} l`,
+    `${right - k} ${y} ${right} ${y + k} ${right} ${y + radius} c`,
+    `${right} ${bottom - radius} l`,
+    `${right} ${bottom - k} ${right - k} ${bottom} ${right - radius} ${bottom} c`,
+    `${x + radius} ${bottom} l`,
+    `${x + k} ${bottom} ${x} ${bottom - k} ${x} ${bottom - radius} c`,
+    `${x} ${y + radius} l`,
+    `${x} ${y + k} ${x + k} ${y} ${x + radius} ${y} c`,
+    'h',
+  ].join(' ');
+}
+
+/**
+ * Path of an ellipse in a box
+ */
+function ellipse(x: number, y: number, width: number, height: number) {
+  const rx = width / 2;
+  const ry = height / 2;
+  const cx = x + rx;
+  const cy = y + ry;
+  const kx = rx * 0.5523;
+  const ky = ry * 0.5523;
+  return [
+    `${cx + rx} ${cy} m`,
+    `${cx + rx} ${cy + ky} ${cx + kx} ${cy + ry} ${cx} ${cy + ry} c`,
+    `${cx - kx} ${cy + ry} ${cx - rx} ${cy + ky} ${cx - rx} ${cy} c`,
+    `${cx - rx} ${cy - ky} ${cx - kx} ${cy - ry} ${cx} ${cy - ry} c`,
+    `${cx + kx} ${cy - ry} ${cx + rx} ${cy - ky} ${cx + rx} ${cy} c`,
+    'h',
+  ].join(' ');
+}
+
+/**
+ * Export a label as a vector PDF page the size of the label.
+ * The page shows the label as a monochrome printer prints it: shapes and plain black text stay vectors,
+ * barcodes and everything else are drawn from their printer dots.
+ * @param {Object} canvas fabric canvas in printer dots
+ * @param {Object} media label media the canvas represents
+ * @param {Object} options whether to draw text from its dots instead of with Helvetica
+ */
+export function exportPdf(canvas: fabric.StaticCanvas, media: LabelMedia, options: FileExportOptions = {}) {
+  // commands stay in canvas coordinates, the page is turned like the canvas
+  const commands = buildLabelCommands(canvas, { ...media, orientation: 'portrait' }, {
+    textAsGraphic: options.textAsOutlines,
+    supports: ['text', 'box', 'diagonal', 'ellipse'],
+    gs1Symbologies: [],
+  });
+
+  const { width, height } = getCanvasSizeInDots(media);
+  const scale = 72 / media.dpi;
+  const images: PdfMaskImage[] = [];
+  const content = [
+    // draw in dots from the top left corner
+    `q ${scale} 0 0 ${-scale} 0 ${height * scale} cm`,
+    // the label is white, whatever the canvas background
+    `1 g 0 0 ${width} ${height} re f`,
+    ...commands.map(c => commandToPdf(c, images)),
+    'Q',
+  ].join('\n');
+
+  return createPdf([{
+    width: width * scale,
+    height: height * scale,
+    content,
+    images,
+    fonts: { F0: 'Helvetica' },
+  }]);
+}
+
+/**
+ * Export a label as a file
+ * @param {Object} canvas fabric canvas in printer dots, text may be outlined in place
+ * @param {String} format png, svg or pdf
+ * @param {Object} media label media the canvas represents
+ * @param {Object} options export options
+ */
+export function exportFile(
+  canvas: fabric.StaticCanvas,
+  format: ExportFormat,
+  media: LabelMedia,
+  options: FileExportOptions = {},
+): Blob {
+  switch (format) {
+    case 'png':
+      return new Blob([exportPng(canvas, media)], { type: 'image/png' });
+    case 'svg':
+      return new Blob([exportSvg(canvas, media, options)], { type: 'image/svg+xml' });
+    case 'pdf':
+      return new Blob([exportPdf(canvas, media, options)], { type: 'application/pdf' });
+  }
+}
@@ -0,0 +1,199 @@
+/**
+ * Define the freehand brushes and the simplification of drawn paths
+ */
+
+import * as fabric from 'fabric';
+
+export const freehandBrushes = ['pencil', 'spray', 'eraser'] as const;
+export type FreehandBrush = typeof freehandBrushes[number];
+
+export interface FreehandSettings {
+  brush: FreehandBrush;
+  /** Line width, or spray diameter, in dots. */
+  width: number;
+  color: string;
+  /** Points closer than this many dots are dropped while drawing, larger is smoother. */
+  smoothing: number;
+  /** Largest distance in dots a simplified path may stray from the drawn one, 0 keeps every point. */
+  simplify: number;
+}
+
+export const defaultFreehandSettings: Readonly<FreehandSettings> = {
+  brush: 'pencil',
+  width: 4,
+  color: '#000000',
+  smoothing: 0.4,
+  simplify: 1,
+};
+
+/**
+ * Get the distance of a point to the segment between two points
+ */
+function segmentDistance(p: fabric.XY, a: fabric.XY, b: fabric.XY) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/**
+ * Drop the points of a line that barely change its shape, with the Ramer-Douglas-Peucker algorithm
+ * @param {Array} points points of the line, in order
+ * @param {Number} tolerance largest distance the simplified line may stray from a dropped point
+ * @returns {Array} the kept points, always including the first and last
+ */
+export function simplifyPoints<T extends fabric.XY>(points: ReadonlyArray<T>, tolerance: number): T[] {
+  if (points.length <= 2 || tolerance <= 0) { return [...points]; }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  // ranges left to split, instead of recursing on long strokes
+  const ranges: [number, number][] = [[0, points.length - 1]];
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop()!;
+    let farthest = -1;
+    let distance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const d = segmentDistance(points[i], points[first], points[last]);
+      if (d > distance) {
+        farthest = i;
+        distance = d;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      ranges.push([first, farthest], [farthest, last]);
+    }
+  }
+  return points.filter((_, i) => keep[i]);
+}
+
+/**
+ * Pencil that simplifies its points before they become a path
+ */
+export class SimplifyingPencilBrush extends fabric.PencilBrush {
+  /** See FreehandSettings.simplify. */
+  simplify = 0;
+
+  override convertPointsToSVGPath(points: fabric.Point[]): fabric.TSimplePathData {
+    return super.convertPointsToSVGPath(simplifyPoints(points, this.simplify));
+  }
+}
+
+/**
+ * Get points along a stroke no further apart than a step, so nothing between two drawn points is skipped
+ */
+function resampleStroke(points: ReadonlyArray<fabric.Point>, step: number) {
+  const samples = points.slice(0, 1);
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1];
+    const to = points[i];
+    const count = Math.ceil(from.distanceFrom(to) / step);
+    for (let n = 1; n <= count; n++) {
+      samples.push(from.lerp(to, n / count));
+    }
+  }
+  return samples;
+}
+
+/**
+ * Get the canvas element coordinates of a scene point, as pixel lookups take them
+ */
+function toViewport(canvas: fabric.Canvas, point: fabric.Point): [number, number] {
+  const { x, y } = fabric.util.transformPoint(point, canvas.viewportTransform);
+  return [x, y];
+}
+
+/**
+ * Find the objects a stroke passes over, by the pixels they draw rather than their bounding boxes
+ * @param {Object} canvas canvas the stroke was drawn on
+ * @param {Array} points points of the stroke, in scene coordinates
+ * @param {Number} radius half the stroke width, in dots
+ * @returns {Array} the objects the stroke touches, objects that can't be selected are left out
+ */
+export function findStrokeObjects(canvas: fabric.Canvas, points: ReadonlyArray<fabric.Point>, radius: number) {
+  const samples = resampleStroke(points, Math.max(1, radius));
+  const tolerance = canvas.targetFindTolerance;
+  canvas.setTargetFindTolerance(Math.max(0, Math.round(radius * canvas.getZoom())));
+  try {
+    return canvas.getObjects().filter(obj => {
+      if (!obj.visible || !obj.evented || !obj.selectable || obj.excludeFromExport) { return false; }
+      const { left, top, width, height } = obj.getBoundingRect();
+      return samples.some(p =>
+        p.x >= left - radius && p.x <= left + width + radius && p.y >= top - radius && p.y <= top + height + radius
+        && !canvas.isTargetTransparent(obj, ...toViewport(canvas, p)));
+    });
+  } finally {
+    canvas.setTargetFindTolerance(tolerance);
+  }
+}
+
+/**
+ * Eraser that deletes the objects its stroke passes over. It draws nothing, so nothing white
+ * covers images or colored backgrounds and prints as ink on a thermal printer.
+ */
+export class ObjectEraserBrush extends fabric.PencilBrush {
+  private stroke: fabric.Point[] = [];
+
+  override _prepareForDrawing(pointer: fabric.Point) {
+    this.stroke = [];
+    super._prepareForDrawing(pointer);
+  }
+
+  override _addPoint(point: fabric.Point) {
+    const added = super._addPoint(point);
+    if (added) {
+      // a straight line keeps only its ends, like the pencil
+      if (this.drawStraightLine && this.stroke.length > 1) { this.stroke.pop(); }
+      this.stroke.push(point);
+    }
+    return added;
+  }
+
+  override _finalizeAndAddPath() {
+    this.canvas.clearContext(this.canvas.contextTop);
+    const erased = findStrokeObjects(this.canvas, this.stroke, this.width / 2);
+    this.stroke = [];
+    if (erased.length > 0) {
+      if (this.canvas.getActiveObjects().some(obj => erased.includes(obj))) {
+        this.canvas.discardActiveObject();
+      }
+      this.canvas.remove(...erased);
+      this.canvas.fire('object:modified');
+    }
+    this.canvas.requestRenderAll();
+  }
+}
+
+/**
+ * Create the fabric brush for freehand settings
+ * @param {Object} canvas canvas the brush draws on
+ * @param {Object} settings brush, width, color, smoothing and simplification
+ */
+export function createFreehandBrush(canvas: fabric.Canvas, settings: FreehandSettings): fabric.BaseBrush {
+  if (settings.brush === 'spray') {
+    const brush = new fabric.SprayBrush(canvas);
+    brush.width = settings.width;
+    brush.color = settings.color;
+    brush.density = Math.max(5, Math.round(settings.width));
+    return brush;
+  }
+
+  if (settings.brush === 'eraser') {
+    const brush = new ObjectEraserBrush(canvas);
+    brush.width = settings.width;
+    // shows where the stroke went until it is let go
+    brush.color = 'rgba(255, 0, 0, 0.35)';
+    return brush;
+  }
+
+  const brush = new SimplifyingPencilBrush(canvas);
+  brush.width = settings.width;
+  brush.color = settings.color;
+  brush.decimate = settings.smoothing;
+  brush.simplify = settings.simplify;
+  return brush;
+}
@@ -1 +1,17 @@
 export * from './core.js';
+export * from './labelMedia.js';
+export * from './languages/index.js';
+export * from './barcodes/index.js';
+export * from './dataMerge.js';
+export * from './dataTable.js';
+export * from './batch.js';
+export * from './fileExport.js';
+export * from './pdfImport.js';
+export * from './printing/index.js';
+export * from './options.js';
+export * from './freehand.js';
+export * from './events.js';
+export * from './documentFormat.js';
+export { defaultHistoryLimits, type HistoryLimits } from './undo-redo-stack.js';
+export { defaultHistoryOptions, type HistoryOptions } from './canvasHistory.js';
+export * from './storage/index.js';
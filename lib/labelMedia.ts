@@ -0,0 +1,164 @@
+/**
+ * Define the physical label media model and unit conversions.
+ *
+ * The editor canvas works in printer dots: one canvas pixel is one dot on the
+ * printhead, so a 4x3 in label on a 203 dpi printer is an 812x609 canvas.
+ */
+
+export const lengthUnits = ['mm', 'in', 'dots'] as const;
+export type LengthUnit = typeof lengthUnits[number];
+
+export const labelOrientations = ['portrait', 'landscape'] as const;
+export type LabelOrientation = typeof labelOrientations[number];
+
+/** Common printhead resolutions, in dots per inch. */
+export const commonDpis = [152, 203, 300, 600] as const;
+
+export interface LabelMedia {
+  /** Width of the label across the printhead, in `unit`. */
+  width: number;
+  /** Length of the label in the feed direction, in `unit`. */
+  height: number;
+  unit: LengthUnit;
+  /** Printhead resolution in dots per inch. */
+  dpi: number;
+  /** Landscape turns the design a quarter turn relative to the feed direction. */
+  orientation: LabelOrientation;
+  /** Corner radius of die-cut labels, in `unit`, only shown on screen. */
+  cornerRadius: number;
+}
+
+export const defaultLabelMedia: Readonly<LabelMedia> = {
+  width: 4,
+  height: 3,
+  unit: 'in',
+  dpi: 203,
+  orientation: 'portrait',
+  cornerRadius: 0,
+};
+
+const mmPerInch = 25.4;
+
+/**
+ * Convert a length in the given unit to printer dots
+ * @param {Number} value length to convert
+ * @param {String} unit unit of the length
+ * @param {Number} dpi printhead resolution
+ */
+export function toDots(value: number, unit: LengthUnit, dpi: number): number {
+  switch (unit) {
+    case 'mm':
+      return value / mmPerInch * dpi;
+    case 'in':
+      return value * dpi;
+    case 'dots':
+      return value;
+  }
+}
+
+/**
+ * Convert a length in printer dots to the given unit
+ * @param {Number} dots length to convert
+ * @param {String} unit unit to convert to
+ * @param {Number} dpi printhead resolution
+ */
+export function fromDots(dots: number, unit: LengthUnit, dpi: number): number {
+  switch (unit) {
+    case 'mm':
+      return dots / dpi * mmPerInch;
+    case 'in':
+      return dots / dpi;
+    case 'dots':
+      return dots;
+  }
+}
+
+/**
+ * Get the label size in whole printer dots, as the printer sees it.
+ */
+export function getMediaSizeInDots(media: LabelMedia) {
+  return {
+    width: Math.round(toDots(media.width, media.unit, media.dpi)),
+    height: Math.round(toDots(media.height, media.unit, media.dpi)),
+  };
+}
+
+/**
+ * Get the canvas size in dots, which is the media size turned for landscape.
+ */
+export function getCanvasSizeInDots(media: LabelMedia) {
+  const size = getMediaSizeInDots(media);
+  return media.orientation === 'landscape'
+    ? { width: size.height, height: size.width }
+    : size;
+}
+
+/**
+ * Express the same physical media in a different unit.
+ */
+export function convertMedia(media: LabelMedia, unit: LengthUnit): LabelMedia {
+  if (media.unit === unit) { return { ...media }; }
+  const decimals = unitDecimals(unit);
+  const convert = (v: number) =>
+    Number(fromDots(toDots(v, media.unit, media.dpi), unit, media.dpi).toFixed(decimals));
+  return {
+    ...media,
+    unit,
+    width: convert(media.width),
+    height: convert(media.height),
+    cornerRadius: convert(media.cornerRadius),
+  };
+}
+
+/**
+ * Number of decimals worth showing for a unit.
+ */
+export function unitDecimals(unit: LengthUnit) {
+  switch (unit) {
+    case 'mm':
+      return 1;
+    case 'in':
+      return 2;
+    case 'dots':
+      return 0;
+  }
+}
+
+/**
+ * Format a length in dots as a real-world length in the media unit
+ * @param {Number} dots length to format
+ * @param {Object} media label media which defines unit and resolution
+ * @param {Number} extraDecimals decimals beyond the unit's usual ones, for small lengths
+ * @returns {String} e.g. "25.4 mm"
+ */
+export function formatLength(dots: number, media: LabelMedia, extraDecimals = 0): string {
+  const value = fromDots(dots, media.unit, media.dpi);
+  const decimals = media.unit === 'dots' ? 0 : unitDecimals(media.unit) + extraDecimals;
+  return `${value.toFixed(decimals)} ${media.unit}`;
+}
+
+/**
+ * Check and complete a possibly partial media description
+ * @throws {Error} when a value is missing or out of range
+ */
+export function normalizeLabelMedia(media: Partial<LabelMedia>): LabelMedia {
+  const result = { ...defaultLabelMedia, ...media };
+
+  if (!lengthUnits.includes(result.unit)) {
+    throw new Error(`Unknown label unit '${result.unit}'.`);
+  }
+  if (!labelOrientations.includes(result.orientation)) {
+    throw new Error(`Unknown label orientation '${result.orientation}'.`);
+  }
+  if (!(result.dpi > 0)) {
+    throw new Error(`Label DPI must be positive, got ${result.dpi}.`);
+  }
+  if (!(result.width > 0) || !(result.height > 0)) {
+    throw new Error(`Label size must be positive, got ${result.width}x${result.height}.`);
+  }
+  if (!(result.cornerRadius >= 0)) {
+    throw new Error(`Label corner radius can't be negative, got ${result.cornerRadius}.`);
+  }
+
+  return result;
+}
@@ -0,0 +1,158 @@
+/**
+ * Define monochrome bitmap utils shared by the printer language exporters
+ */
+
+import * as fabric from 'fabric';
+
+/**
+ * One bit per printer dot, rows padded to whole bytes, most significant bit
+ * first. A set bit is a black dot.
+ */
+export interface MonochromeBitmap {
+  width: number;
+  height: number;
+  rowBytes: number;
+  data: Uint8Array;
+}
+
+export function createBitmap(width: number, height: number): MonochromeBitmap {
+  const rowBytes = Math.ceil(width / 8);
+  return {
+    width,
+    height,
+    rowBytes,
+    data: new Uint8Array(rowBytes * height),
+  };
+}
+
+export function getPixel(bitmap: MonochromeBitmap, x: number, y: number): boolean {
+  return (bitmap.data[y * bitmap.rowBytes + (x >> 3)] & (0x80 >> (x & 7))) !== 0;
+}
+
+export function setPixel(bitmap: MonochromeBitmap, x: number, y: number, black = true) {
+  const i = y * bitmap.rowBytes + (x >> 3);
+  if (black) {
+    bitmap.data[i] |= 0x80 >> (x & 7);
+  } else {
+    bitmap.data[i] &= ~(0x80 >> (x & 7));
+  }
+}
+
+/**
+ * Threshold RGBA pixels to black and white, compositing over a white label
+ * @param {ImageData} imageData pixels to convert
+ * @param {Number} threshold luminance below which a dot is black, 0-255
+ */
+export function bitmapFromImageData(imageData: ImageData, threshold = 128): MonochromeBitmap {
+  const { width, height, data } = imageData;
+  const bitmap = createBitmap(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = data[i + 3] / 255;
+      const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+      if (luminance * alpha + 255 * (1 - alpha) < threshold) {
+        setPixel(bitmap, x, y);
+      }
+    }
+  }
+  return bitmap;
+}
+
+/**
+ * Render a fabric object to a bitmap positioned in canvas coordinates
+ * @param {Object} obj object to render, with its transform, stroke and shadow
+ * @returns the bitmap and the canvas position of its top left dot
+ */
+export function rasterizeObject(obj: fabric.FabricObject) {
+  const el = obj.toCanvasElement();
+  const center = obj.getCenterPoint();
+  const ctx = el.getContext('2d');
+  if (ctx === null) {
+    throw new Error('Unable to get a 2D context to rasterize the object.');
+  }
+
+  return {
+    left: Math.round(center.x - el.width / 2),
+    top: Math.round(center.y - el.height / 2),
+    bitmap: bitmapFromImageData(ctx.getImageData(0, 0, el.width, el.height)),
+  };
+}
+
+/**
+ * Copy part of a bitmap
+ */
+export function cropBitmap(
+  bitmap: MonochromeBitmap,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+): MonochromeBitmap {
+  const result = createBitmap(Math.max(0, width), Math.max(0, height));
+  for (let y = 0; y < result.height; y++) {
+    for (let x = 0; x < result.width; x++) {
+      if (getPixel(bitmap, x + left, y + top)) {
+        setPixel(result, x, y);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Turn a bitmap clockwise by a quarter turn
+ */
+export function rotateBitmapClockwise(bitmap: MonochromeBitmap): MonochromeBitmap {
+  const result = createBitmap(bitmap.height, bitmap.width);
+  for (let y = 0; y < bitmap.height; y++) {
+    for (let x = 0; x < bitmap.width; x++) {
+      if (getPixel(bitmap, x, y)) {
+        setPixel(result, bitmap.height - 1 - y, x);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Check whether a bitmap has no black dots at all
+ */
+export function isBlankBitmap(bitmap: MonochromeBitmap) {
+  return bitmap.data.every(b => b === 0);
+}
+
+/**
+ * Cover the black dots of a bitmap with rectangles, for vector output.
+ * Runs of dots in a row become rectangles, grown down while the next rows have the same run.
+ * @returns {Array} rectangles in dots from the top left of the bitmap
+ */
+export function bitmapRects(bitmap: MonochromeBitmap) {
+  const rects: { x: number; y: number; width: number; height: number }[] = [];
+  // rectangles reaching the previous row, by the start and length of their run
+  let open = new Map<string, typeof rects[number]>();
+
+  for (let y = 0; y < bitmap.height; y++) {
+    const next = new Map<string, typeof rects[number]>();
+    let x = 0;
+    while (x < bitmap.width) {
+      if (!getPixel(bitmap, x, y)) {
+        x++;
+        continue;
+      }
+      const start = x;
+      while (x < bitmap.width && getPixel(bitmap, x, y)) { x++; }
+
+      const key = `${start},${x - start}`;
+      let rect = open.get(key);
+      if (rect === undefined) {
+        rect = { x: start, y, width: x - start, height: 0 };
+        rects.push(rect);
+      }
+      rect.height++;
+      next.set(key, rect);
+    }
+    open = next;
+  }
+  return rects;
+}
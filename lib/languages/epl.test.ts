@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { defaultLabelMedia } from '../labelMedia.js';
+import { createBitmap, setPixel } from './bitmap.js';
+import { eplLanguage } from './epl.js';
+import type { LabelCommand } from './labelCommands.js';
+
+const text: LabelCommand = {
+  kind: 'text',
+  x: 10,
+  y: 20,
+  boxWidth: 200,
+  boxHeight: 48,
+  text: 'Say "hi"\nC:\\temp',
+  fontHeight: 24,
+  fontWidth: 12,
+  blockWidth: 200,
+  lines: ['Say "hi"', 'C:\\temp'],
+  linePitch: 24,
+  align: 'L',
+  orientation: 0,
+};
+
+const barcode: LabelCommand = {
+  kind: 'barcode',
+  x: 10,
+  y: 20,
+  width: 200,
+  height: 100,
+  symbology: 'ean13',
+  data: '5901234123457',
+  moduleWidth: 2,
+  ratio: 3,
+  barHeight: 80,
+  showText: true,
+  gs1: undefined,
+  orientation: 0,
+};
+
+/** Render commands and drop the header and footer lines. */
+const body = (commands: LabelCommand[]) => eplLanguage.render(commands, defaultLabelMedia).split('\n').slice(4, -2);
+
+describe('eplLanguage', () => {
+  it('clears the image buffer, sizes the label and prints once', () => {
+    expect(eplLanguage.render([], defaultLabelMedia)).toBe('\nN\nq812\nQ609,24\nP1\n');
+  });
+
+  it('writes a line of text per line, quoting quotes and backslashes', () => {
+    expect(body([text])).toEqual([
+      'A10,20,0,1,1,2,N,"Say \\"hi\\""',
+      'A10,44,0,1,1,2,N,"C:\\\\temp"',
+    ]);
+  });
+
+  it('indents aligned text and turns rotated text', () => {
+    const [line] = body([{ ...text, lines: ['ab'], align: 'R', orientation: 90 }]);
+    // two characters of font 1 are 20 dots, the rest of the 200 dot block is indent down the label
+    expect(line).toBe('A210,200,1,1,1,2,N,"ab"');
+  });
+
+  it('writes boxes as lines and filled boxes as one block', () => {
+    const box = { kind: 'box', x: 10, y: 20, width: 100, height: 50, thickness: 2, rounding: 0 } as const;
+    expect(body([
+      { ...box, color: 'B' },
+      { ...box, color: 'B', thickness: 30 },
+      { ...box, color: 'W' },
+    ])).toEqual([
+      'X10,20,2,110,70',
+      'LO10,20,100,50',
+      'LW10,20,100,2',
+      'LW10,68,100,2',
+      'LW10,20,2,50',
+      'LW108,20,2,50',
+    ]);
+  });
+
+  it('writes barcodes without the check digit, with the wide bar ratio where the symbology has one', () => {
+    expect(body([
+      barcode,
+      { ...barcode, symbology: 'code39', data: 'A"B\\C', showText: false, orientation: 90 },
+    ])).toEqual([
+      'B10,20,0,E30,2,2,80,B,"590123412345"',
+      'B210,20,1,3,2,6,80,N,"A\\"B\\\\C"',
+    ]);
+  });
+
+  it('writes graphics with inverted bits and skips what EPL2 cannot draw', () => {
+    const bitmap = createBitmap(16, 2);
+    setPixel(bitmap, 0, 0);
+    expect(body([
+      { kind: 'graphic', x: 5, y: 6, bitmap },
+      { kind: 'ellipse', x: 0, y: 0, width: 10, height: 10, thickness: 1 },
+    ])).toEqual(['GW5,6,2,2,\x7f\xff\xff\xff']);
+  });
+
+  it('encodes characters outside Latin-1 as question marks', () => {
+    expect([...eplLanguage.encode('é€\xff')]).toEqual([0xe9, 0x3f, 0xff]);
+  });
+});
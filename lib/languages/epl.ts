@@ -0,0 +1,132 @@
+/**
+ * Define the EPL2 back-end for Eltron and older Zebra printers
+ */
+
+import { getMediaSizeInDots, type LabelMedia } from '../labelMedia.js';
+import {
+  bitmapToBinaryString,
+  encodeLatin1,
+  fitBitmapFont,
+  rotatedOrigin,
+  textLinePositions,
+  type BitmapFont,
+  type LabelCommand,
+  type LabelLanguage,
+} from './labelCommands.js';
+
+/** Resident fonts 1 to 5 at 203 dpi, in dots. */
+const fonts203: BitmapFont[] = [
+  { name: '1', width: 8, height: 12 },
+  { name: '2', width: 10, height: 16 },
+  { name: '3', width: 12, height: 20 },
+  { name: '4', width: 14, height: 24 },
+  { name: '5', width: 32, height: 48 },
+];
+
+/** Resident fonts 1 to 5 at 300 dpi, in dots. */
+const fonts300: BitmapFont[] = [
+  { name: '1', width: 12, height: 20 },
+  { name: '2', width: 16, height: 28 },
+  { name: '3', width: 20, height: 36 },
+  { name: '4', width: 24, height: 44 },
+  { name: '5', width: 48, height: 80 },
+];
+
+/** Gap between labels sent with Q, in dots. */
+const labelGap = 24;
+
+function quote(text: string) {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Barcode type and data for a symbology, the printer adds GS1 check digits
+ */
+const barcodeTypes = {
+  code128: { type: '1', digits: undefined },
+  code39: { type: '3', digits: undefined },
+  ean13: { type: 'E30', digits: 12 },
+  upca: { type: 'UA0', digits: 11 },
+  itf14: { type: '2C', digits: 13 },
+} as const;
+
+function commandToEpl(command: LabelCommand, media: LabelMedia): string[] {
+  switch (command.kind) {
+    case 'text': {
+      const fit = fitBitmapFont(
+        media.dpi >= 300 ? fonts300 : fonts203,
+        command.fontHeight,
+        command.fontWidth,
+        6
+      );
+      const charWidth = (fit.font.width + 2) * fit.xMultiplier;
+      const rotation = command.orientation / 90;
+      return textLinePositions(command, line => line.length * charWidth)
+        .filter(line => line.text.length > 0)
+        .map(line =>
+          `A${line.x},${line.y},${rotation},${fit.font.name},`
+          + `${fit.xMultiplier},${fit.yMultiplier},N,${quote(line.text)}`);
+    }
+    case 'box': {
+      const { x, y, width, height, thickness } = command;
+      const draw = command.color === 'B' ? 'LO' : 'LW';
+      if (thickness * 2 >= Math.min(width, height)) {
+        return [`${draw}${x},${y},${width},${height}`];
+      }
+      if (command.color === 'B') {
+        return [`X${x},${y},${thickness},${x + width},${y + height}`];
+      }
+      return [
+        `LW${x},${y},${width},${thickness}`,
+        `LW${x},${y + height - thickness},${width},${thickness}`,
+        `LW${x},${y},${thickness},${height}`,
+        `LW${x + width - thickness},${y},${thickness},${height}`,
+      ];
+    }
+    case 'diagonal': {
+      const { x, y, width, height, thickness } = command;
+      const right = x + width - thickness;
+      return [command.lean === 'L'
+        ? `LS${x},${y},${thickness},${right},${y + height}`
+        : `LS${x},${y + height},${thickness},${right},${y}`];
+    }
+    case 'barcode': {
+      const { type, digits } = barcodeTypes[command.symbology];
+      const origin = rotatedOrigin(command);
+      const narrow = command.moduleWidth;
+      const wide = type === '3' || type === '2C' ? Math.round(narrow * command.ratio) : narrow;
+      return [`B${origin.x},${origin.y},${command.orientation / 90},${type},${narrow},${wide},`
+        + `${command.barHeight},${command.showText ? 'B' : 'N'},`
+        + quote(command.data.substring(0, digits))];
+    }
+    case 'graphic': {
+      const { bitmap } = command;
+      // a zero bit prints black in EPL
+      return [`GW${command.x},${command.y},${bitmap.rowBytes},${bitmap.height},`
+        + bitmapToBinaryString(bitmap, true)];
+    }
+    case 'ellipse':
+    case 'matrix':
+      return [];
+  }
+}
+
+export const eplLanguage: LabelLanguage = {
+  name: 'EPL2',
+  fileExtension: 'epl',
+  supports: ['text', 'box', 'diagonal', 'barcode', 'graphic'],
+  gs1Symbologies: [],
+  render(commands: LabelCommand[], media: LabelMedia) {
+    const size = getMediaSizeInDots(media);
+    return [
+      // a leading line feed ends any command left open on the printer
+      '',
+      'N',
+      `q${size.width}`,
+      `Q${size.height},${labelGap}`,
+      ...commands.flatMap(c => commandToEpl(c, media)),
+      'P1',
+    ].join('\n') + '\n';
+  },
+  encode: encodeLatin1,
+};
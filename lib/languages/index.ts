@@ -0,0 +1,20 @@
+import { eplLanguage } from './epl.js';
+import { tsplLanguage } from './tspl.js';
+import { zplLanguage } from './zpl.js';
+
+export * from './bitmap.js';
+export * from './labelCommands.js';
+export * from './zpl.js';
+export * from './zplImport.js';
+export * from './epl.js';
+export * from './tspl.js';
+
+/**
+ * Printer languages the editor can export, by short name
+ */
+export const labelLanguages = {
+  zpl: zplLanguage,
+  epl: eplLanguage,
+  tspl: tsplLanguage,
+} as const;
+export type LabelLanguageName = keyof typeof labelLanguages;
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { createBitmap, setPixel } from './bitmap.js';
+import {
+  bitmapToBinaryString,
+  encodeLatin1,
+  fitBitmapFont,
+  rotatedOrigin,
+  textLinePositions,
+  type LabelCommand,
+} from './labelCommands.js';
+
+const fonts = [
+  { name: 'small', width: 8, height: 12 },
+  { name: 'large', width: 20, height: 30 },
+];
+
+const text: Extract<LabelCommand, { kind: 'text' }> = {
+  kind: 'text',
+  x: 10,
+  y: 20,
+  boxWidth: 100,
+  boxHeight: 40,
+  text: 'ab\ncd  ',
+  fontHeight: 20,
+  fontWidth: 10,
+  blockWidth: 100,
+  lines: ['ab', 'cd  '],
+  linePitch: 20,
+  align: 'L',
+  orientation: 0,
+};
+
+describe('fitBitmapFont', () => {
+  it('picks the font and multiplier closest in height', () => {
+    expect(fitBitmapFont(fonts, 24, 24, 4)).toMatchObject({ font: fonts[0], xMultiplier: 2, yMultiplier: 2 });
+    expect(fitBitmapFont(fonts, 30, 20, 4)).toMatchObject({ font: fonts[1], xMultiplier: 1, yMultiplier: 1 });
+  });
+
+  it('widens stretched text and keeps within the largest multiplier', () => {
+    expect(fitBitmapFont(fonts, 12, 24, 2)).toMatchObject({ font: fonts[0], xMultiplier: 2, yMultiplier: 1 });
+    expect(fitBitmapFont(fonts, 300, 200, 3)).toMatchObject({ font: fonts[1], xMultiplier: 2, yMultiplier: 3 });
+  });
+});
+
+describe('rotatedOrigin', () => {
+  it('anchors rotated content at the corner it turns around', () => {
+    const box = { x: 10, y: 20, width: 100, height: 50 };
+    expect([0, 90, 180, 270].map(orientation => rotatedOrigin({ ...box, orientation: orientation as 0 })))
+      .toEqual([{ x: 10, y: 20 }, { x: 110, y: 20 }, { x: 110, y: 70 }, { x: 10, y: 70 }]);
+  });
+});
+
+describe('textLinePositions', () => {
+  const measure = (line: string) => line.length * 10;
+
+  it('places lines below each other without trailing spaces', () => {
+    expect(textLinePositions(text, measure)).toEqual([
+      { text: 'ab', x: 10, y: 20 },
+      { text: 'cd', x: 10, y: 40 },
+    ]);
+  });
+
+  it('indents centered and right aligned lines', () => {
+    expect(textLinePositions({ ...text, align: 'C' }, measure)[0]).toEqual({ text: 'ab', x: 50, y: 20 });
+    expect(textLinePositions({ ...text, align: 'R' }, measure)[0]).toEqual({ text: 'ab', x: 90, y: 20 });
+  });
+
+  it('runs lines along the rotated frame', () => {
+    expect(textLinePositions({ ...text, orientation: 90 }, measure)).toEqual([
+      { text: 'ab', x: 110, y: 20 },
+      { text: 'cd', x: 90, y: 20 },
+    ]);
+    expect(textLinePositions({ ...text, orientation: 180 }, measure)[1]).toEqual({ text: 'cd', x: 110, y: 40 });
+  });
+});
+
+describe('encoding', () => {
+  it('writes bitmap bytes as characters, inverted when asked', () => {
+    const bitmap = createBitmap(8, 1);
+    setPixel(bitmap, 0, 0);
+    expect(bitmapToBinaryString(bitmap, false)).toBe('\x80');
+    expect(bitmapToBinaryString(bitmap, true)).toBe('\x7f');
+  });
+
+  it('encodes Latin-1 and replaces other characters', () => {
+    expect([...encodeLatin1('Aü€')]).toEqual([0x41, 0xfc, 0x3f]);
+  });
+});
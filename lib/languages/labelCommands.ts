@@ -0,0 +1,657 @@
+/**
+ * Define the printer independent label commands built from the editor canvas.
+ * Printer languages are back-ends that turn these commands into their syntax.
+ */
+
+import * as fabric from 'fabric';
+import {
+  Barcode,
+  isMatrixSymbology,
+  matrixSymbologies,
+  type BarcodeSymbology,
+  type Gs1Element,
+  type LinearSymbologyName,
+  type MatrixSymbologyName,
+  type QrErrorCorrection,
+} from '../barcodes/index.js';
+import type { LabelMedia } from '../labelMedia.js';
+import {
+  cropBitmap,
+  isBlankBitmap,
+  rasterizeObject,
+  rotateBitmapClockwise,
+  type MonochromeBitmap,
+} from './bitmap.js';
+
+export interface LabelExportOptions {
+  /** Print text as graphics so it matches the screen font exactly. */
+  textAsGraphic?: boolean;
+}
+
+export interface LabelCommandOptions extends LabelExportOptions {
+  /** Command kinds the target language draws natively, others become graphics. */
+  supports: ReadonlyArray<LabelCommand['kind']>;
+  /** Symbologies the target language prints GS1 data with, others become graphics. */
+  gs1Symbologies: ReadonlyArray<BarcodeSymbology>;
+}
+
+/**
+ * A printer command language back-end
+ */
+export interface LabelLanguage {
+  /** Display name, e.g. ZPL II. */
+  name: string;
+  /** File extension for saved command files, without the dot. */
+  fileExtension: string;
+  /** Command kinds this language draws natively. */
+  supports: ReadonlyArray<LabelCommand['kind']>;
+  /** Symbologies this language prints GS1 element strings with. */
+  gs1Symbologies: ReadonlyArray<BarcodeSymbology>;
+  /**
+   * Write the commands for one label
+   * @param {Array} commands label commands in printer coordinates
+   * @param {Object} media label media, for size and resolution
+   */
+  render(commands: LabelCommand[], media: LabelMedia): string;
+  /** Encode rendered output to the bytes sent to the printer. */
+  encode(output: string): Uint8Array;
+}
+
+export type CommandOrientation = 0 | 90 | 180 | 270;
+
+/**
+ * Printer independent drawing commands in printer dots, positioned by the top
+ * left of their bounding box as the label leaves the printer.
+ */
+export type LabelCommand = {
+  kind: 'text';
+  x: number;
+  y: number;
+  boxWidth: number;
+  boxHeight: number;
+  text: string;
+  fontHeight: number;
+  fontWidth: number;
+  blockWidth: number;
+  /** Text as wrapped on screen, for languages without text blocks. */
+  lines: string[];
+  /** Distance between the tops of two lines. */
+  linePitch: number;
+  align: 'L' | 'C' | 'R' | 'J';
+  orientation: CommandOrientation;
+} | {
+  kind: 'box';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  thickness: number;
+  color: 'B' | 'W';
+  rounding: number;
+} | {
+  kind: 'diagonal';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  thickness: number;
+  lean: 'L' | 'R';
+} | {
+  kind: 'ellipse';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  thickness: number;
+} | {
+  kind: 'barcode';
+  x: number;
+  y: number;
+  /** Bounding box of the bars and text as rotated. */
+  width: number;
+  height: number;
+  symbology: LinearSymbologyName;
+  data: string;
+  moduleWidth: number;
+  ratio: number;
+  barHeight: number;
+  showText: boolean;
+  /** GS1 elements when the data is a GS1 element string. */
+  gs1: ReadonlyArray<Gs1Element> | undefined;
+  orientation: CommandOrientation;
+} | {
+  kind: 'matrix';
+  x: number;
+  y: number;
+  /** Bounding box of the symbol as rotated. */
+  width: number;
+  height: number;
+  symbology: MatrixSymbologyName;
+  data: string;
+  moduleWidth: number;
+  /** Height of a symbol row, in dots. */
+  rowHeight: number;
+  /** Rows and columns as the symbology counts them. */
+  rows: number;
+  columns: number;
+  errorCorrection: QrErrorCorrection;
+  securityLevel: number;
+  /** GS1 elements when the data is a GS1 element string. */
+  gs1: ReadonlyArray<Gs1Element> | undefined;
+  orientation: CommandOrientation;
+} | {
+  kind: 'graphic';
+  x: number;
+  y: number;
+  bitmap: MonochromeBitmap;
+};
+
+type Tone = 'black' | 'white' | 'none' | 'complex';
+
+/**
+ * Classify a fill or stroke the way a monochrome printer sees it
+ */
+function toneOf(color: string | fabric.TFiller | null | undefined): Tone {
+  if (color === null || color === undefined || color === '' || color === 'transparent') {
+    return 'none';
+  }
+  if (typeof color !== 'string') { return 'complex'; }
+
+  const [r, g, b, a] = new fabric.Color(color).getSource();
+  if (a < 0.5) { return 'none'; }
+  return 0.299 * r + 0.587 * g + 0.114 * b < 128 ? 'black' : 'white';
+}
+
+/**
+ * Get the rotation of an object if it is a whole quarter turn without skew
+ */
+function quarterTurn(obj: fabric.FabricObject): CommandOrientation | undefined {
+  if (obj.skewX !== 0 || obj.skewY !== 0) { return undefined; }
+  const angle = ((Math.round(obj.getTotalAngle()) % 360) + 360) % 360;
+  return angle % 90 === 0 ? angle as CommandOrientation : undefined;
+}
+
+function strokeThickness(obj: fabric.FabricObject) {
+  if (obj.strokeUniform) { return obj.strokeWidth; }
+  const scaling = obj.getObjectScaling();
+  return obj.strokeWidth * Math.max(Math.abs(scaling.x), Math.abs(scaling.y));
+}
+
+function hasDashes(obj: fabric.FabricObject) {
+  return (obj.strokeDashArray ?? []).length > 0;
+}
+
+function hasCharStyles(obj: fabric.Text) {
+  return Object.values(obj.styles ?? {})
+    .some(line => Object.values(line).some(style => Object.keys(style).length > 0));
+}
+
+function textCommand(obj: fabric.Text): LabelCommand[] | undefined {
+  const orientation = quarterTurn(obj);
+  if (
+    orientation === undefined ||
+    obj.flipX || obj.flipY ||
+    obj.underline || obj.linethrough || obj.overline ||
+    toneOf(obj.fill) !== 'black' ||
+    toneOf(obj.stroke) !== 'none' ||
+    hasCharStyles(obj)
+  ) {
+    return undefined;
+  }
+
+  const bound = obj.getBoundingRect();
+  const scaling = obj.getObjectScaling();
+  const fontHeight = Math.max(1, Math.round(obj.fontSize * Math.abs(scaling.y)));
+  const alignments = { left: 'L', center: 'C', right: 'R' } as const;
+
+  return [{
+    kind: 'text',
+    x: Math.round(bound.left),
+    y: Math.round(bound.top),
+    boxWidth: bound.width,
+    boxHeight: bound.height,
+    text: obj.text,
+    fontHeight,
+    fontWidth: Math.max(1, Math.round(obj.fontSize * Math.abs(scaling.x))),
+    blockWidth: Math.max(1, Math.round(obj.width * Math.abs(scaling.x))),
+    lines: obj.textLines.length > 0 ? [...obj.textLines] : [''],
+    linePitch: Math.round(obj.getHeightOfLine(0) * Math.abs(scaling.y)),
+    align: alignments[obj.textAlign as keyof typeof alignments] ?? 'J',
+    orientation,
+  }];
+}
+
+function rectCommand(obj: fabric.Rect): LabelCommand[] | undefined {
+  const fill = toneOf(obj.fill);
+  const stroke = obj.strokeWidth > 0 ? toneOf(obj.stroke) : 'none';
+  if (
+    quarterTurn(obj) === undefined ||
+    hasDashes(obj) ||
+    fill === 'complex' || stroke === 'complex' ||
+    (fill === 'black' && stroke === 'white')
+  ) {
+    return undefined;
+  }
+
+  const bound = obj.getBoundingRect();
+  const x = Math.round(bound.left);
+  const y = Math.round(bound.top);
+  const width = Math.max(1, Math.round(bound.width));
+  const height = Math.max(1, Math.round(bound.height));
+  const solid = Math.min(width, height);
+  const radius = Math.min(obj.rx * Math.abs(obj.getObjectScaling().x), solid / 2);
+  const rounding = solid > 0 ? Math.min(8, Math.round(radius / (solid / 2) * 8)) : 0;
+  const box = { kind: 'box', x, y, width, height, rounding } as const;
+
+  const commands: LabelCommand[] = [];
+  if (fill === 'black' || fill === 'white') {
+    commands.push({ ...box, thickness: solid, color: fill === 'black' ? 'B' : 'W' });
+  }
+  if (fill !== 'black' && stroke !== 'none') {
+    const thickness = Math.max(1, Math.round(strokeThickness(obj)));
+    commands.push({ ...box, thickness, color: stroke === 'black' ? 'B' : 'W' });
+  }
+  return commands;
+}
+
+function lineCommand(obj: fabric.Line): LabelCommand[] | undefined {
+  if (toneOf(obj.stroke) !== 'black' || hasDashes(obj) || obj.strokeWidth <= 0) {
+    return undefined;
+  }
+
+  const points = obj.calcLinePoints();
+  const matrix = obj.calcTransformMatrix();
+  const p1 = fabric.util.transformPoint(new fabric.Point(points.x1, points.y1), matrix);
+  const p2 = fabric.util.transformPoint(new fabric.Point(points.x2, points.y2), matrix);
+  const thickness = Math.max(1, Math.round(strokeThickness(obj)));
+  const dx = Math.abs(p2.x - p1.x);
+  const dy = Math.abs(p2.y - p1.y);
+  const left = Math.min(p1.x, p2.x);
+  const top = Math.min(p1.y, p2.y);
+
+  if (dy < 1) {
+    return [{
+      kind: 'box', color: 'B', rounding: 0, thickness,
+      x: Math.round(left), y: Math.round(top - thickness / 2),
+      width: Math.max(thickness, Math.round(dx)), height: thickness,
+    }];
+  }
+  if (dx < 1) {
+    return [{
+      kind: 'box', color: 'B', rounding: 0, thickness,
+      x: Math.round(left - thickness / 2), y: Math.round(top),
+      width: thickness, height: Math.max(thickness, Math.round(dy)),
+    }];
+  }
+
+  // going down to the right leans like a backslash
+  const fallsRight = (p2.x - p1.x) * (p2.y - p1.y) > 0;
+  return [{
+    kind: 'diagonal',
+    x: Math.round(left - thickness / 2),
+    y: Math.round(top),
+    width: Math.round(dx) + thickness,
+    height: Math.round(dy),
+    thickness,
+    lean: fallsRight ? 'L' : 'R',
+  }];
+}
+
+function ellipseCommand(obj: fabric.Ellipse | fabric.Circle): LabelCommand[] | undefined {
+  const fill = toneOf(obj.fill);
+  const stroke = obj.strokeWidth > 0 ? toneOf(obj.stroke) : 'none';
+  const isFullCircle = obj instanceof fabric.Circle
+    && Math.abs(obj.endAngle - obj.startAngle) >= 360;
+  if (
+    (obj instanceof fabric.Circle && !isFullCircle) ||
+    (quarterTurn(obj) === undefined && !(obj instanceof fabric.Circle)) ||
+    hasDashes(obj) ||
+    !((fill === 'black' && stroke !== 'white') || (fill === 'none' && stroke === 'black'))
+  ) {
+    return undefined;
+  }
+
+  const bound = obj.getBoundingRect();
+  const width = Math.max(1, Math.round(bound.width));
+  const height = Math.max(1, Math.round(bound.height));
+  return [{
+    kind: 'ellipse',
+    x: Math.round(bound.left),
+    y: Math.round(bound.top),
+    width,
+    height,
+    thickness: fill === 'black'
+      ? Math.ceil(Math.min(width, height) / 2)
+      : Math.max(1, Math.round(strokeThickness(obj))),
+  }];
+}
+
+function barcodeCommand(obj: Barcode): LabelCommand[] | undefined {
+  // nothing to print until the data is fixed or merged
+  if (obj.error !== undefined || obj.isTemplate) { return []; }
+
+  const orientation = quarterTurn(obj);
+  if (orientation === undefined || obj.flipX || obj.flipY || toneOf(obj.fill) !== 'black') {
+    return undefined;
+  }
+
+  const bound = obj.getBoundingRect();
+  const box = {
+    x: Math.round(bound.left),
+    y: Math.round(bound.top),
+    width: Math.round(bound.width),
+    height: Math.round(bound.height),
+    data: obj.data,
+    moduleWidth: Math.max(1, Math.round(obj.moduleWidth)),
+    gs1: obj.getGs1Elements(),
+    orientation,
+  };
+
+  const symbology = obj.symbology;
+  if (isMatrixSymbology(symbology)) {
+    const size = obj.getSymbolSize() ?? { rows: 0, columns: 0 };
+    return [{
+      ...box,
+      kind: 'matrix',
+      symbology,
+      rowHeight: box.moduleWidth * matrixSymbologies[symbology].rowHeight,
+      rows: size.rows,
+      columns: size.columns,
+      errorCorrection: obj.errorCorrection,
+      securityLevel: obj.securityLevel,
+    }];
+  }
+  return [{
+    ...box,
+    kind: 'barcode',
+    symbology,
+    ratio: obj.ratio,
+    barHeight: Math.round(obj.barHeight),
+    showText: obj.showText,
+  }];
+}
+
+function graphicCommand(
+  obj: fabric.FabricObject,
+  labelWidth: number,
+  labelHeight: number,
+): LabelCommand[] {
+  const raster = rasterizeObject(obj);
+
+  // keep only the part that lands on the label
+  const left = Math.max(0, raster.left);
+  const top = Math.max(0, raster.top);
+  const right = Math.min(labelWidth, raster.left + raster.bitmap.width);
+  const bottom = Math.min(labelHeight, raster.top + raster.bitmap.height);
+  if (right <= left || bottom <= top) { return []; }
+
+  const bitmap = cropBitmap(
+    raster.bitmap,
+    left - raster.left,
+    top - raster.top,
+    right - left,
+    bottom - top
+  );
+  return isBlankBitmap(bitmap) ? [] : [{ kind: 'graphic', x: left, y: top, bitmap }];
+}
+
+/**
+ * Check whether the target language draws a command itself
+ */
+function isNative(command: LabelCommand, options: LabelCommandOptions) {
+  if (!options.supports.includes(command.kind)) { return false; }
+  if ((command.kind === 'barcode' || command.kind === 'matrix') && command.gs1 !== undefined) {
+    return options.gs1Symbologies.includes(command.symbology);
+  }
+  return true;
+}
+
+/**
+ * Convert a canvas object to the printer commands that draw it
+ */
+function objectToCommands(
+  obj: fabric.FabricObject,
+  options: LabelCommandOptions,
+  labelWidth: number,
+  labelHeight: number,
+): LabelCommand[] {
+  if (!obj.visible) { return []; }
+
+  let commands: LabelCommand[] | undefined;
+  if (obj instanceof Barcode) {
+    commands = barcodeCommand(obj);
+  } else if (obj instanceof fabric.Text) {
+    commands = options.textAsGraphic ? undefined : textCommand(obj);
+  } else if (obj instanceof fabric.Rect) {
+    commands = rectCommand(obj);
+  } else if (obj instanceof fabric.Line) {
+    commands = lineCommand(obj);
+  } else if (obj instanceof fabric.Ellipse || obj instanceof fabric.Circle) {
+    commands = ellipseCommand(obj);
+  }
+
+  // shadows can only be drawn as graphics
+  if (obj.shadow !== null && obj.shadow !== undefined) {
+    commands = undefined;
+  }
+
+  // fall back to a graphic when the language can't draw a command itself
+  if (commands?.some(c => !isNative(c, options))) {
+    commands = undefined;
+  }
+
+  return commands ?? graphicCommand(obj, labelWidth, labelHeight);
+}
+
+/**
+ * Turn a command a quarter turn clockwise, from landscape canvas to printer
+ * @param {Object} command command in canvas coordinates
+ * @param {Number} canvasHeight height of the canvas, which is the printer width
+ */
+function turnCommand(command: LabelCommand, canvasHeight: number): LabelCommand {
+  switch (command.kind) {
+    case 'text':
+      return {
+        ...command,
+        x: Math.round(canvasHeight - command.y - command.boxHeight),
+        y: command.x,
+        boxWidth: command.boxHeight,
+        boxHeight: command.boxWidth,
+        orientation: (command.orientation + 90) % 360 as CommandOrientation,
+      };
+    case 'barcode':
+    case 'matrix':
+      return {
+        ...command,
+        x: canvasHeight - command.y - command.height,
+        y: command.x,
+        width: command.height,
+        height: command.width,
+        orientation: (command.orientation + 90) % 360 as CommandOrientation,
+      };
+    case 'box':
+    case 'ellipse':
+      return {
+        ...command,
+        x: canvasHeight - command.y - command.height,
+        y: command.x,
+        width: command.height,
+        height: command.width,
+      };
+    case 'diagonal':
+      return {
+        ...command,
+        x: canvasHeight - command.y - command.height,
+        y: command.x,
+        width: command.height,
+        height: command.width,
+        lean: command.lean === 'L' ? 'R' : 'L',
+      };
+    case 'graphic':
+      return {
+        ...command,
+        x: canvasHeight - command.y - command.bitmap.height,
+        y: command.x,
+        bitmap: rotateBitmapClockwise(command.bitmap),
+      };
+  }
+}
+
+/**
+ * Build the label commands for a canvas
+ * @param {Object} canvas fabric canvas in printer dots
+ * @param {Object} media label media the canvas represents
+ * @param {Object} options target language capabilities and export options
+ * @returns {Array} commands in printer coordinates, landscape labels turned
+ */
+export function buildLabelCommands(
+  canvas: fabric.StaticCanvas,
+  media: LabelMedia,
+  options: LabelCommandOptions,
+): LabelCommand[] {
+  const canvasWidth = canvas.getWidth();
+  const canvasHeight = canvas.getHeight();
+
+  const objects = [...canvas.getObjects()];
+  if (canvas.backgroundImage !== undefined) {
+    objects.unshift(canvas.backgroundImage);
+  }
+
+  const commands = objects.flatMap(o => objectToCommands(o, options, canvasWidth, canvasHeight));
+  return media.orientation === 'landscape'
+    ? commands.map(c => turnCommand(c, canvasHeight))
+    : commands;
+}
+
+/**
+ * Export a canvas in a printer language
+ * @param {Object} canvas fabric canvas in printer dots
+ * @param {Object} media label media the canvas represents
+ * @param {Object} language printer language back-end
+ * @param {Object} options export options
+ */
+export function exportLabel(
+  canvas: fabric.StaticCanvas,
+  media: LabelMedia,
+  language: LabelLanguage,
+  options: LabelExportOptions = {},
+): string {
+  const commands = buildLabelCommands(canvas, media, {
+    ...options,
+    supports: language.supports,
+    gs1Symbologies: language.gs1Symbologies,
+  });
+  return language.render(commands, media);
+}
+
+/**
+ * Encode output as single byte characters, for languages mixing text and
+ * binary graphics. Characters outside Latin-1 become a question mark.
+ */
+export function encodeLatin1(output: string): Uint8Array {
+  return Uint8Array.from(output, c => {
+    const code = c.charCodeAt(0);
+    return code > 0xff ? 0x3f : code;
+  });
+}
+
+/**
+ * Write bitmap bytes as single byte characters, inverted for languages
+ * where a zero bit prints black.
+ */
+export function bitmapToBinaryString(bitmap: MonochromeBitmap, inverted: boolean) {
+  let result = '';
+  for (const byte of bitmap.data) {
+    result += String.fromCharCode(inverted ? ~byte & 0xff : byte);
+  }
+  return result;
+}
+
+/** A fixed size printer font, in dots at multiplier 1. */
+export interface BitmapFont {
+  name: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Pick the fixed size font and multipliers closest to a scalable font size
+ * @param {Array} fonts fonts the printer has
+ * @param {Number} height wanted character height in dots
+ * @param {Number} width wanted character width in dots
+ * @param {Number} maxMultiplier largest multiplier the printer accepts
+ */
+export function fitBitmapFont(
+  fonts: ReadonlyArray<BitmapFont>,
+  height: number,
+  width: number,
+  maxMultiplier: number,
+) {
+  let best = { font: fonts[0], xMultiplier: 1, yMultiplier: 1, error: Infinity };
+  for (const font of fonts) {
+    for (let yMultiplier = 1; yMultiplier <= maxMultiplier; yMultiplier++) {
+      const error = Math.abs(font.height * yMultiplier - height);
+      if (error < best.error) {
+        // keep the font's proportions unless the text was stretched
+        const xMultiplier = Math.min(maxMultiplier, Math.max(1, Math.round(yMultiplier * width / height)));
+        best = { font, xMultiplier, yMultiplier, error };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Get the corner a rotated command is anchored at, for languages that turn
+ * content around the top left of its unrotated frame
+ * @param {Object} command command with a bounding box and orientation
+ */
+export function rotatedOrigin(command: {
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  orientation: CommandOrientation,
+}) {
+  const { x, y, width, height } = command;
+  return {
+    0: { x, y },
+    90: { x: x + width, y },
+    180: { x: x + width, y: y + height },
+    270: { x, y: y + height },
+  }[command.orientation];
+}
+
+/**
+ * Position each line of a text command for languages without text blocks
+ * @param {Object} command text command
+ * @param {Function} measure width of a line in dots
+ * @returns {Array} line text and the top left of the line, in its rotated frame
+ */
+export function textLinePositions(
+  command: Extract<LabelCommand, { kind: 'text' }>,
+  measure: (line: string) => number,
+) {
+  const { x, y, boxWidth, boxHeight, orientation } = command;
+
+  // the top left corner of the unrotated text, and its right and down directions
+  const frames = {
+    0: { x, y, right: [1, 0], down: [0, 1] },
+    90: { x: x + boxWidth, y, right: [0, 1], down: [-1, 0] },
+    180: { x: x + boxWidth, y: y + boxHeight, right: [-1, 0], down: [0, -1] },
+    270: { x, y: y + boxHeight, right: [0, -1], down: [1, 0] },
+  } as const;
+  const frame = frames[orientation];
+
+  return command.lines.map((line, i) => {
+    const text = line.replace(/\s+$/, '');
+    const free = Math.max(0, command.blockWidth - measure(text));
+    const indent = command.align === 'C' ? free / 2 : command.align === 'R' ? free : 0;
+    const along = i * command.linePitch;
+    return {
+      text,
+      x: Math.max(0, Math.round(frame.x + frame.right[0] * indent + frame.down[0] * along)),
+      y: Math.max(0, Math.round(frame.y + frame.right[1] * indent + frame.down[1] * along)),
+    };
+  });
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { parseGs1 } from '../barcodes/index.js';
+import { defaultLabelMedia } from '../labelMedia.js';
+import { createBitmap, setPixel } from './bitmap.js';
+import type { LabelCommand } from './labelCommands.js';
+import { tsplLanguage } from './tspl.js';
+
+const text: LabelCommand = {
+  kind: 'text',
+  x: 10,
+  y: 20,
+  boxWidth: 200,
+  boxHeight: 48,
+  text: 'Say "hi"\nC:\\temp',
+  fontHeight: 24,
+  fontWidth: 16,
+  blockWidth: 200,
+  lines: ['Say "hi"', 'C:\\temp'],
+  linePitch: 24,
+  align: 'L',
+  orientation: 0,
+};
+
+const barcode: LabelCommand = {
+  kind: 'barcode',
+  x: 10,
+  y: 20,
+  width: 200,
+  height: 100,
+  symbology: 'code128',
+  data: 'A"B',
+  moduleWidth: 2,
+  ratio: 3,
+  barHeight: 80,
+  showText: true,
+  gs1: undefined,
+  orientation: 0,
+};
+
+const matrix: LabelCommand = {
+  kind: 'matrix',
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 100,
+  symbology: 'qrcode',
+  data: 'say "hi"',
+  moduleWidth: 4,
+  rowHeight: 4,
+  rows: 25,
+  columns: 25,
+  errorCorrection: 'M',
+  securityLevel: 0,
+  gs1: undefined,
+  orientation: 0,
+};
+
+/** Render commands and drop the header and footer lines. */
+const body = (commands: LabelCommand[]) => tsplLanguage.render(commands, defaultLabelMedia).split('\r\n').slice(5, -2);
+
+describe('tsplLanguage', () => {
+  it('sizes the label in millimeters and ends lines with CR LF', () => {
+    expect(tsplLanguage.render([], defaultLabelMedia)).toBe(
+      'SIZE 101.6 mm,76.2 mm\r\nGAP 3 mm,0 mm\r\nDIRECTION 0\r\nREFERENCE 0,0\r\nCLS\r\nPRINT 1,1\r\n');
+  });
+
+  it('writes a line of text per line, escaping quotes as \\["]', () => {
+    expect(body([text])).toEqual([
+      'TEXT 10,20,"1",0,1,2,"Say \\["]hi\\["]"',
+      'TEXT 10,44,"1",0,1,2,"C:\\temp"',
+    ]);
+  });
+
+  it('picks fonts in 203 dpi terms on other printheads', () => {
+    const large = { ...text, lines: ['ab'], fontHeight: 36, fontWidth: 24 };
+    expect(tsplLanguage.render([large], { ...defaultLabelMedia, dpi: 300 }))
+      .toContain('\r\nTEXT 10,20,"1",0,1,2,"ab"\r\n');
+    expect(body([large])).toEqual(['TEXT 10,20,"1",0,2,3,"ab"']);
+  });
+
+  it('writes outlined, filled, rounded and white boxes', () => {
+    const box = { kind: 'box', x: 10, y: 20, width: 100, height: 50, thickness: 2, rounding: 0 } as const;
+    expect(body([
+      { ...box, color: 'B' },
+      { ...box, color: 'B', rounding: 8 },
+      { ...box, color: 'B', thickness: 30 },
+      { ...box, color: 'W', thickness: 30 },
+    ])).toEqual([
+      'BOX 10,20,110,70,2',
+      'BOX 10,20,110,70,2,25',
+      'BAR 10,20,100,50',
+      'ERASE 10,20,100,50',
+    ]);
+  });
+
+  it('writes barcodes with quoted data and GS1 data with !102 for FNC1', () => {
+    expect(body([
+      barcode,
+      { ...barcode, symbology: 'ean13', data: '5901234123457', showText: false },
+      { ...barcode, data: '(10)AB1(01)09501101530003', gs1: parseGs1('(10)AB1(01)09501101530003') },
+    ])).toEqual([
+      'BARCODE 10,20,"128",80,1,0,2,2,"A\\["]B"',
+      'BARCODE 10,20,"EAN13",80,0,0,2,2,"590123412345"',
+      'BARCODE 10,20,"128",80,1,0,2,2,"!10210AB1!1020109501101530003"',
+    ]);
+  });
+
+  it('writes QR Codes and DataMatrix symbols', () => {
+    expect(body([
+      { ...matrix, orientation: 90 },
+      { ...matrix, symbology: 'datamatrix', data: 'ABC', rows: 12, columns: 12 },
+    ])).toEqual([
+      'QRCODE 100,0,M,4,A,90,"say \\["]hi\\["]"',
+      'DMATRIX 0,0,100,100,x4,12,12,"ABC"',
+    ]);
+  });
+
+  it('writes graphics with inverted bits', () => {
+    const bitmap = createBitmap(16, 2);
+    setPixel(bitmap, 0, 0);
+    expect(body([{ kind: 'graphic', x: 5, y: 6, bitmap }])).toEqual(['BITMAP 5,6,2,2,0,\x7f\xff\xff\xff']);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Define the TSPL back-end for TSC and compatible thermal printers
+ */
+
+import { gs1ElementString } from '../barcodes/index.js';
+import { fromDots, getMediaSizeInDots, type LabelMedia } from '../labelMedia.js';
+import {
+  bitmapToBinaryString,
+  encodeLatin1,
+  fitBitmapFont,
+  rotatedOrigin,
+  textLinePositions,
+  type BitmapFont,
+  type LabelCommand,
+  type LabelLanguage,
+} from './labelCommands.js';
+
+/** Resident fonts 1 to 8 at 203 dpi, in dots. */
+const fonts203: BitmapFont[] = [
+  { name: '1', width: 8, height: 12 },
+  { name: '2', width: 12, height: 20 },
+  { name: '3', width: 16, height: 24 },
+  { name: '4', width: 24, height: 32 },
+  { name: '5', width: 32, height: 48 },
+  { name: '6', width: 14, height: 19 },
+  { name: '7', width: 21, height: 27 },
+  { name: '8', width: 14, height: 25 },
+];
+
+/** Gap between labels sent with GAP, in millimeters. */
+const labelGapMm = 3;
+
+function quote(text: string) {
+  return `"${text.replace(/"/g, '\\["]')}"`;
+}
+
+/**
+ * Barcode type and data for a symbology, the printer adds GS1 check digits
+ */
+const barcodeTypes = {
+  code128: { type: '128', digits: undefined },
+  code39: { type: '39', digits: undefined },
+  ean13: { type: 'EAN13', digits: 12 },
+  upca: { type: 'UPCA', digits: 11 },
+  itf14: { type: 'ITF14', digits: 13 },
+} as const;
+
+function matrixToTspl(command: Extract<LabelCommand, { kind: 'matrix' }>) {
+  const { x, y, width, height, moduleWidth } = command;
+  const origin = rotatedOrigin(command);
+  switch (command.symbology) {
+    case 'qrcode':
+      return `QRCODE ${origin.x},${origin.y},${command.errorCorrection},${moduleWidth},A,`
+        + `${command.orientation},${quote(command.data)}`;
+    case 'datamatrix': {
+      // DMATRIX can't rotate, the symbol scans the same whichever way it is turned
+      const size = `DMATRIX ${x},${y},${width},${height},`;
+      const modules = `x${moduleWidth},${command.rows},${command.columns},`;
+      // c126 makes ~1 an FNC1, ~ can't appear in GS1 data
+      return command.gs1 === undefined
+        ? size + modules + quote(command.data)
+        : `${size}c126,${modules}${quote(`~1${gs1ElementString(command.gs1, '~1')}`)}`;
+    }
+    case 'pdf417':
+      return `PDF417 ${origin.x},${origin.y},${width},${height},${command.orientation},`
+        + `E${command.securityLevel},W${moduleWidth},H${command.rowHeight},`
+        + `C${command.columns},R${command.rows},${quote(command.data)}`;
+  }
+}
+
+function commandToTspl(command: LabelCommand, media: LabelMedia): string[] {
+  switch (command.kind) {
+    case 'text': {
+      // the fonts scale with the printhead, so fit in 203 dpi terms
+      const scale = 203 / media.dpi;
+      const fit = fitBitmapFont(
+        fonts203,
+        command.fontHeight * scale,
+        command.fontWidth * scale,
+        10
+      );
+      const charWidth = fit.font.width / scale * fit.xMultiplier;
+      return textLinePositions(command, line => line.length * charWidth)
+        .filter(line => line.text.length > 0)
+        .map(line =>
+          `TEXT ${line.x},${line.y},"${fit.font.name}",${command.orientation},`
+          + `${fit.xMultiplier},${fit.yMultiplier},${quote(line.text)}`);
+    }
+    case 'box': {
+      const { x, y, width, height, thickness } = command;
+      if (thickness * 2 >= Math.min(width, height)) {
+        return [`${command.color === 'B' ? 'BAR' : 'ERASE'} ${x},${y},${width},${height}`];
+      }
+      if (command.color === 'B') {
+        const radius = Math.round(command.rounding / 8 * Math.min(width, height) / 2);
+        return [`BOX ${x},${y},${x + width},${y + height},${thickness}`
+          + (radius > 0 ? `,${radius}` : '')];
+      }
+      return [
+        `ERASE ${x},${y},${width},${thickness}`,
+        `ERASE ${x},${y + height - thickness},${width},${thickness}`,
+        `ERASE ${x},${y},${thickness},${height}`,
+        `ERASE ${x + width - thickness},${y},${thickness},${height}`,
+      ];
+    }
+    case 'diagonal': {
+      const { x, y, width, height, thickness } = command;
+      const right = x + width - thickness;
+      return [command.lean === 'L'
+        ? `DIAGONAL ${x},${y},${right},${y + height},${thickness}`
+        : `DIAGONAL ${x},${y + height},${right},${y},${thickness}`];
+    }
+    case 'ellipse':
+      return [`ELLIPSE ${command.x},${command.y},${command.width},${command.height},${command.thickness}`];
+    case 'barcode': {
+      const { type, digits } = barcodeTypes[command.symbology];
+      const origin = rotatedOrigin(command);
+      const narrow = command.moduleWidth;
+      const wide = type === '39' || type === 'ITF14' ? Math.round(narrow * command.ratio) : narrow;
+      // !102 is FNC1 in Code 128 data
+      const data = command.gs1 === undefined
+        ? command.data.substring(0, digits)
+        : `!102${gs1ElementString(command.gs1, '!102')}`;
+      return [`BARCODE ${origin.x},${origin.y},"${type}",${command.barHeight},`
+        + `${command.showText ? 1 : 0},${command.orientation},${narrow},${wide},${quote(data)}`];
+    }
+    case 'matrix':
+      return [matrixToTspl(command)];
+    case 'graphic': {
+      const { bitmap } = command;
+      // a zero bit prints black in TSPL
+      return [`BITMAP ${command.x},${command.y},${bitmap.rowBytes},${bitmap.height},0,`
+        + bitmapToBinaryString(bitmap, true)];
+    }
+  }
+}
+
+export const tsplLanguage: LabelLanguage = {
+  name: 'TSPL',
+  fileExtension: 'prn',
+  supports: ['text', 'box', 'diagonal', 'ellipse', 'barcode', 'matrix', 'graphic'],
+  gs1Symbologies: ['code128', 'datamatrix'],
+  render(commands: LabelCommand[], media: LabelMedia) {
+    const size = getMediaSizeInDots(media);
+    const mm = (dots: number) => fromDots(dots, 'mm', media.dpi).toFixed(1);
+    return [
+      `SIZE ${mm(size.width)} mm,${mm(size.height)} mm`,
+      `GAP ${labelGapMm} mm,0 mm`,
+      'DIRECTION 0',
+      'REFERENCE 0,0',
+      'CLS',
+      ...commands.flatMap(c => commandToTspl(c, media)),
+      'PRINT 1,1',
+    ].join('\r\n') + '\r\n';
+  },
+  encode: encodeLatin1,
+};
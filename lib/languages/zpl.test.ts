@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { defaultLabelMedia } from '../labelMedia.js';
+import type { LabelCommand } from './labelCommands.js';
+import { zplLanguage } from './zpl.js';
+
+const barcode: LabelCommand = {
+  kind: 'barcode',
+  x: 10,
+  y: 20,
+  width: 200,
+  height: 100,
+  symbology: 'code128',
+  data: 'A\\B\nC_D^E~F',
+  moduleWidth: 2,
+  ratio: 3,
+  barHeight: 80,
+  showText: true,
+  gs1: undefined,
+  orientation: 0,
+};
+
+const text: LabelCommand = {
+  kind: 'text',
+  x: 10,
+  y: 20,
+  boxWidth: 200,
+  boxHeight: 60,
+  text: 'A\\B\nC_D',
+  fontHeight: 30,
+  fontWidth: 30,
+  blockWidth: 200,
+  lines: ['A\\B', 'C_D'],
+  linePitch: 30,
+  align: 'L',
+  orientation: 0,
+};
+
+describe('zplLanguage', () => {
+  it('escapes barcode data with ^FH hex only', () => {
+    const zpl = zplLanguage.render([barcode], defaultLabelMedia);
+    expect(zpl).toContain('^FH^FDA_5CB_0AC_5FD_5EE_7EF^FS');
+  });
+
+  it('escapes QR Code data with ^FH hex only', () => {
+    const zpl = zplLanguage.render([{
+      kind: 'matrix',
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      symbology: 'qrcode',
+      data: 'line 1\r\nC:\\path',
+      moduleWidth: 4,
+      rowHeight: 4,
+      rows: 25,
+      columns: 25,
+      errorCorrection: 'M',
+      securityLevel: 0,
+      gs1: undefined,
+      orientation: 0,
+    }], defaultLabelMedia);
+    expect(zpl).toContain('^FH^FDMA,line 1_0D_0AC:_5Cpath^FS');
+  });
+
+  it('writes backslashes and line breaks of text as ^FB escapes', () => {
+    const zpl = zplLanguage.render([text], defaultLabelMedia);
+    expect(zpl).toContain('^FB200,2,0,L,0^FH^FDA\\\\B\\&C_5FD^FS');
+  });
+});
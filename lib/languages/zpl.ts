@@ -0,0 +1,223 @@
+/**
+ * Define the ZPL II back-end for Zebra printers
+ */
+
+import * as fabric from 'fabric';
+import { formatGs1, gs1ElementString } from '../barcodes/index.js';
+import { getMediaSizeInDots, type LabelMedia } from '../labelMedia.js';
+import type { MonochromeBitmap } from './bitmap.js';
+import {
+  exportLabel,
+  type LabelCommand,
+  type LabelExportOptions,
+  type LabelLanguage,
+} from './labelCommands.js';
+
+export type ZplExportOptions = LabelExportOptions;
+
+/**
+ * Write a character as ^FH hex, using the default _ hex indicator
+ */
+function hexEscape(character: string) {
+  return '_' + character.charCodeAt(0).toString(16).padStart(2, '0').toUpperCase();
+}
+
+/**
+ * Escape field data for use with ^FH, barcode data keeps backslashes and line breaks as they are
+ */
+function escapeFieldData(text: string) {
+  return text.replace(/[_^~\\\r\n]/g, hexEscape);
+}
+
+/**
+ * Escape text for use with ^FH in a ^FB block, where \\ is a backslash and \& a line break
+ */
+function escapeTextBlock(text: string) {
+  return text
+    .replace(/[_^~]/g, hexEscape)
+    .replace(/\\/g, '\\\\')
+    .replace(/\r?\n/g, '\\&');
+}
+
+const repeatCodes = 'GHIJKLMNOPQRSTUVWXY';
+const repeatTwenties = 'ghijklmnopqrstuvwxyz';
+
+/**
+ * Encode a run length with the ZPL repeat count characters
+ */
+function repeatCount(count: number) {
+  let code = '';
+  if (count >= 20) {
+    code += repeatTwenties[Math.floor(count / 20) - 1];
+  }
+  if (count % 20 > 0) {
+    code += repeatCodes[count % 20 - 1];
+  }
+  return code;
+}
+
+/**
+ * Encode a bitmap as ZPL compressed ASCII hex graphic data
+ */
+export function encodeGraphicFieldData(bitmap: MonochromeBitmap) {
+  let result = '';
+  let previousRow: string | undefined;
+
+  for (let y = 0; y < bitmap.height; y++) {
+    const bytes = bitmap.data.subarray(y * bitmap.rowBytes, (y + 1) * bitmap.rowBytes);
+    const row = Array.from(bytes, b => b.toString(16).padStart(2, '0').toUpperCase()).join('');
+    if (row === previousRow) {
+      result += ':';
+      continue;
+    }
+    previousRow = row;
+
+    let i = 0;
+    while (i < row.length) {
+      const rest = row.substring(i);
+      if (/^0+$/.test(rest)) { result += ','; break; }
+      if (/^F+$/.test(rest)) { result += '!'; break; }
+
+      let run = 1;
+      while (i + run < row.length && row[i + run] === row[i] && run < 419) { run++; }
+      result += (run > 1 ? repeatCount(run) : '') + row[i];
+      i += run;
+    }
+  }
+
+  return result;
+}
+
+const orientations = { 0: 'N', 90: 'R', 180: 'I', 270: 'B' } as const;
+
+/**
+ * Write the barcode command and field data for a symbology
+ */
+function barcodeToZpl(command: Extract<LabelCommand, { kind: 'barcode' }>) {
+  const o = orientations[command.orientation];
+  const h = command.barHeight;
+  const text = command.showText ? 'Y' : 'N';
+  // the printer adds the check digit to the GS1 numbers itself
+  switch (command.symbology) {
+    case 'code128':
+      // mode D takes bracketed AIs and adds the FNC1 separators itself
+      return command.gs1 === undefined
+        ? { barcode: `^BC${o},${h},${text},N,N,A`, data: command.data }
+        : { barcode: `^BC${o},${h},${text},N,N,D`, data: formatGs1(command.gs1) };
+    case 'code39':
+      return { barcode: `^B3${o},N,${h},${text},N`, data: command.data };
+    case 'ean13':
+      return { barcode: `^BE${o},${h},${text},N`, data: command.data.substring(0, 12) };
+    case 'upca':
+      return { barcode: `^BU${o},${h},${text},N,Y`, data: command.data.substring(0, 11) };
+    case 'itf14':
+      return { barcode: `^B2${o},${h},${text},N,Y`, data: command.data.substring(0, 13) };
+  }
+}
+
+/**
+ * Write the barcode command and field data for a 2D symbology
+ */
+function matrixToZpl(command: Extract<LabelCommand, { kind: 'matrix' }>) {
+  const o = orientations[command.orientation];
+  switch (command.symbology) {
+    case 'qrcode': {
+      // ^BQ can't rotate, a QR Code scans the same whichever way it is turned
+      const magnification = Math.min(10, command.moduleWidth);
+      return { barcode: `^BQN,2,${magnification}`, data: `${command.errorCorrection}A,${command.data}` };
+    }
+    case 'datamatrix': {
+      const size = `^BX${o},${command.moduleWidth},200,${command.columns},${command.rows}`;
+      // # can't appear in GS1 data, so it is free to escape FNC1 as #1
+      return command.gs1 === undefined
+        ? { barcode: size, data: command.data }
+        : { barcode: `${size},,#`, data: `#1${gs1ElementString(command.gs1, '#1')}` };
+    }
+    case 'pdf417':
+      return {
+        barcode: `^BY${command.moduleWidth}^B7${o},${command.rowHeight},`
+          + `${command.securityLevel},${command.columns},${command.rows},N`,
+        data: command.data,
+      };
+  }
+}
+
+function commandToZpl(command: LabelCommand) {
+  const origin = `^FO${Math.max(0, command.x)},${Math.max(0, command.y)}`;
+  switch (command.kind) {
+    case 'text': {
+      const orientation = orientations[command.orientation];
+      return origin
+        + `^A0${orientation},${command.fontHeight},${command.fontWidth}`
+        + `^FB${command.blockWidth},${command.lines.length},`
+        + `${command.linePitch - command.fontHeight},${command.align},0`
+        + `^FH^FD${escapeTextBlock(command.text)}^FS`;
+    }
+    case 'box':
+      return origin
+        + `^GB${Math.max(command.width, command.thickness)},`
+        + `${Math.max(command.height, command.thickness)},`
+        + `${command.thickness},${command.color},${command.rounding}^FS`;
+    case 'diagonal':
+      return origin
+        + `^GD${command.width},${command.height},${command.thickness},B,${command.lean}^FS`;
+    case 'ellipse':
+      return origin
+        + `^GE${command.width},${command.height},${command.thickness},B^FS`;
+    case 'barcode': {
+      const ratio = Math.min(3, Math.max(2, command.ratio)).toFixed(1);
+      const { barcode, data } = barcodeToZpl(command);
+      return origin
+        + `^BY${command.moduleWidth},${ratio},${command.barHeight}`
+        + `${barcode}^FH^FD${escapeFieldData(data)}^FS`;
+    }
+    case 'matrix': {
+      const { barcode, data } = matrixToZpl(command);
+      return `${origin}${barcode}^FH^FD${escapeFieldData(data)}^FS`;
+    }
+    case 'graphic': {
+      const total = command.bitmap.rowBytes * command.bitmap.height;
+      return origin
+        + `^GFA,${total},${total},${command.bitmap.rowBytes},`
+        + `${encodeGraphicFieldData(command.bitmap)}^FS`;
+    }
+  }
+}
+
+export const zplLanguage: LabelLanguage = {
+  name: 'ZPL II',
+  fileExtension: 'zpl',
+  supports: ['text', 'box', 'diagonal', 'ellipse', 'barcode', 'matrix', 'graphic'],
+  gs1Symbologies: ['code128', 'datamatrix'],
+  render(commands: LabelCommand[], media: LabelMedia) {
+    const size = getMediaSizeInDots(media);
+    return [
+      '^XA',
+      '^CI28',
+      `^PW${size.width}`,
+      `^LL${size.height}`,
+      '^LH0,0',
+      ...commands.map(commandToZpl),
+      '^XZ',
+    ].join('\n') + '\n';
+  },
+  encode(output: string) {
+    // ^CI28 selects UTF-8 field data
+    return new TextEncoder().encode(output);
+  },
+};
+
+/**
+ * Export a label canvas as a ZPL II label
+ * @param {Object} canvas fabric canvas in printer dots
+ * @param {Object} media label media the canvas represents
+ * @param {Object} options export options
+ * @returns {String} ZPL from ^XA to ^XZ
+ */
+export function exportZpl(
+  canvas: fabric.StaticCanvas,
+  media: LabelMedia,
+  options: ZplExportOptions = {},
+): string {
+  return exportLabel(canvas, media, zplLanguage, options);
+}
@@ -0,0 +1,138 @@
+import * as fabric from 'fabric';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Barcode } from '../barcodes/index.js';
+import { importZpl, tokenizeZpl } from './zplImport.js';
+
+beforeEach(() => {
+  // happy-dom has no 2D context, fabric only needs one that takes calls
+  vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockImplementation(function (this: HTMLCanvasElement) {
+    return new Proxy({ canvas: this }, {
+      get: (target, key) => key in target ? Reflect.get(target, key) : () => ({}),
+      set: () => true,
+    }) as unknown as CanvasRenderingContext2D;
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('tokenizeZpl', () => {
+  it('splits commands and keeps field data as it is', () => {
+    expect(tokenizeZpl('^XA\n^FO10,20 ^FDa~b, c^FS~JA^XZ')).toEqual([
+      { prefix: '^', name: 'XA', params: '' },
+      { prefix: '^', name: 'FO', params: '10,20' },
+      { prefix: '^', name: 'FD', params: 'a~b, c' },
+      { prefix: '^', name: 'FS', params: '' },
+      { prefix: '~', name: 'JA', params: '' },
+      { prefix: '^', name: 'XZ', params: '' },
+    ]);
+  });
+});
+
+describe('importZpl', () => {
+  it('reads the label size and text fields with their font', async () => {
+    const { width, height, objects, warnings } = await importZpl(
+      '^XA^PW812^LL1218^FO50,60^A0N,40,30^FDShip to^FS^XZ');
+
+    expect({ width, height, warnings }).toEqual({ width: 812, height: 1218, warnings: [] });
+    expect(objects).toHaveLength(1);
+    const text = objects[0] as fabric.Textbox;
+    expect(text).toBeInstanceOf(fabric.Textbox);
+    expect(text).toMatchObject({ text: 'Ship to', fontSize: 40, angle: 0 });
+    const bound = text.getBoundingRect();
+    expect([bound.left, bound.top]).toEqual([50, 60]);
+  });
+
+  it('offsets fields by the label home and rotates them', async () => {
+    const { objects } = await importZpl('^XA^LH10,20^FO5,5^A0R,30,30^FDSide^FS^XZ');
+    const bound = objects[0].getBoundingRect();
+
+    expect(objects[0].angle).toBe(90);
+    expect([Math.round(bound.left), Math.round(bound.top)]).toEqual([15, 25]);
+  });
+
+  it('decodes ^FH hex escapes with the default and other indicators', async () => {
+    const { objects } = await importZpl([
+      '^XA',
+      '^FO0,0^FH^FDA_5FB_5E_C3_A9^FS',
+      '^FO0,50^FH#^FD50#25_^FS',
+      '^FO0,100^FDno_5Fescape^FS',
+      '^XZ',
+    ].join('\n'));
+
+    expect(objects.map(o => (o as fabric.Textbox).text)).toEqual(['A_B^é', '50%_', 'no_5Fescape']);
+  });
+
+  it('turns ^FB line breaks into text lines', async () => {
+    const { objects } = await importZpl('^XA^FO0,0^A0N,20,20^FB300,2,0,C^FDone\\&two \\\\ three^FS^XZ');
+    expect(objects[0]).toMatchObject({ text: 'one\ntwo \\ three', width: 300, textAlign: 'center' });
+  });
+
+  it('reads ^GB boxes as rectangles and thin boxes as lines', async () => {
+    const { objects } = await importZpl([
+      '^XA',
+      '^FO10,10^GB100,50,2^FS',
+      '^FO10,100^GB100,50,25,B^FS',
+      '^FO10,200^GB300,4,4^FS',
+      '^XZ',
+    ].join(''));
+
+    const [outline, filled, line] = objects;
+    expect(outline).toBeInstanceOf(fabric.Rect);
+    expect(outline).toMatchObject({
+      left: 10, top: 10, width: 98, height: 48, fill: '', stroke: '#000000', strokeWidth: 2,
+    });
+    expect(filled).toMatchObject({ width: 100, height: 50, fill: '#000000', strokeWidth: 0 });
+    expect(line).toBeInstanceOf(fabric.Line);
+    expect(line).toMatchObject({ x1: 10, y1: 202, x2: 310, y2: 202, strokeWidth: 4 });
+  });
+
+  it('reads ^BC barcodes with the ^BY defaults', async () => {
+    const { objects, warnings } = await importZpl('^XA^BY3,2,120^FO20,30^BCN,100,Y,N,N^FD12345678^FS^XZ');
+
+    expect(warnings).toEqual([]);
+    expect(objects[0]).toBeInstanceOf(Barcode);
+    expect(objects[0]).toMatchObject({
+      symbology: 'code128',
+      data: '12345678',
+      moduleWidth: 3,
+      ratio: 2,
+      barHeight: 100,
+      showText: true,
+    });
+  });
+
+  it('reads GS1 data of ^BC in mode D and with FNC1 in mode N', async () => {
+    const { objects } = await importZpl([
+      '^XA',
+      '^FO0,0^BCN,80,Y,N,N,D^FD(01)09501101530003(17)250101^FS',
+      '^FO0,200^BCN,80,Y,N,N^FD>;>80109501101530003^FS',
+      '^XZ',
+    ].join(''));
+
+    expect(objects.map(o => [(o as Barcode).gs1, (o as Barcode).data])).toEqual([
+      [true, '(01)09501101530003(17)250101'],
+      [true, '(01)09501101530003'],
+    ]);
+  });
+
+  it('warns about commands it skips and data a barcode cannot encode', async () => {
+    const { objects, warnings } = await importZpl([
+      '^XA',
+      '^FO0,0^XGR:LOGO.GRF,1,1^FS',
+      '^FO0,0^BEN,80,Y,N^FD12AB^FS',
+      '^FO0,0^GFX,4,4,1,00000000^FS',
+      '^PQ2^CI28',
+      '^XZ',
+      '^XA^FO0,0^ZZ^XZ',
+    ].join('\n'));
+
+    expect(warnings).toHaveLength(3);
+    expect(warnings[0]).toBe('^XGR:LOGO.GRF,1,1');
+    expect(warnings[1]).toMatch(/^\^BE 12AB: /);
+    expect(warnings[2]).toMatch(/^\^GFX,4,4,1/);
+    // the barcode is kept to be fixed in the editor, and only the first label is read
+    expect(objects).toHaveLength(1);
+  });
+});
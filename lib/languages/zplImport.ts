@@ -0,0 +1,606 @@
+/**
+ * Define ZPL II import into editable canvas objects
+ */
+
+import * as fabric from 'fabric';
+import {
+  Barcode,
+  BarcodeDataError,
+  fnc1,
+  formatGs1,
+  isMatrixSymbology,
+  parseGs1ElementString,
+  qrErrorCorrectionLevels,
+  type BarcodeProps,
+  type BarcodeSymbology,
+  type QrErrorCorrection,
+} from '../barcodes/index.js';
+import { createBitmap, getPixel, type MonochromeBitmap } from './bitmap.js';
+
+export interface ZplCommand {
+  /** Command prefix, ^ for format commands and ~ for control commands. */
+  prefix: '^' | '~';
+  /** Two character command name, e.g. FO or A0. */
+  name: string;
+  /** Everything between the name and the next command. */
+  params: string;
+}
+
+export interface ZplImportResult {
+  /** Print width from ^PW, in dots. */
+  width?: number;
+  /** Label length from ^LL, in dots. */
+  height?: number;
+  objects: fabric.FabricObject[];
+  /** Commands that were skipped because the editor can't represent them. */
+  warnings: string[];
+}
+
+type Orientation = 'N' | 'R' | 'I' | 'B';
+
+const orientationAngles: Record<Orientation, number> = { N: 0, R: 90, I: 180, B: 270 };
+
+/** Barcode commands and the symbology they print. */
+const barcodeCommands: Record<string, BarcodeSymbology> = {
+  BC: 'code128',
+  B3: 'code39',
+  BE: 'ean13',
+  BU: 'upca',
+  B2: 'itf14',
+  BQ: 'qrcode',
+  BX: 'datamatrix',
+  B7: 'pdf417',
+};
+
+/**
+ * Split ZPL into commands
+ * @param {String} zpl ZPL source, possibly with several labels
+ */
+export function tokenizeZpl(zpl: string): ZplCommand[] {
+  const commands: ZplCommand[] = [];
+  let i = zpl.search(/[\^~]/);
+
+  while (i >= 0 && i < zpl.length) {
+    const prefix = zpl[i] as '^' | '~';
+    const name = zpl.substring(i + 1, i + 3).toUpperCase();
+
+    // field data may contain tildes, only a caret ends it
+    const isFieldData = prefix === '^' && (name === 'FD' || name === 'FV' || name === 'FX');
+    const rest = zpl.substring(i + 3);
+    const end = isFieldData ? rest.indexOf('^') : rest.search(/[\^~]/);
+    const params = end < 0 ? rest : rest.substring(0, end);
+
+    commands.push({ prefix, name, params: isFieldData ? params : params.trim() });
+    i = end < 0 ? -1 : i + 3 + end;
+  }
+
+  return commands;
+}
+
+function splitParams(params: string) {
+  return params.split(',').map(p => p.trim());
+}
+
+function intParam(value: string | undefined, fallback: number) {
+  const n = parseInt(value ?? '', 10);
+  return Number.isNaN(n) ? fallback : n;
+}
+
+function orientationParam(value: string | undefined, fallback: Orientation): Orientation {
+  const o = (value ?? '').toUpperCase();
+  return o in orientationAngles ? o as Orientation : fallback;
+}
+
+/**
+ * Decode ^FH hex escapes in field data
+ */
+function decodeHexEscapes(data: string, indicator: string) {
+  const bytes: number[] = [];
+  const encoder = new TextEncoder();
+  for (let i = 0; i < data.length; i++) {
+    if (data[i] === indicator && /^[0-9a-fA-F]{2}$/.test(data.substring(i + 1, i + 3))) {
+      bytes.push(parseInt(data.substring(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...encoder.encode(data[i]));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+/**
+ * Decode ZPL compressed ASCII hex graphic data into rows of hex
+ */
+function decompressGraphicHex(data: string, rowBytes: number): string {
+  const rowLength = rowBytes * 2;
+  const rows: string[] = [];
+  let row = '';
+  let count = 0;
+
+  const pushRow = () => {
+    rows.push(row.padEnd(rowLength, '0').substring(0, rowLength));
+    row = '';
+  };
+
+  for (const c of data.replace(/\s/g, '')) {
+    if (c >= 'G' && c <= 'Y') {
+      count += c.charCodeAt(0) - 'G'.charCodeAt(0) + 1;
+    } else if (c >= 'g' && c <= 'z') {
+      count += (c.charCodeAt(0) - 'g'.charCodeAt(0) + 1) * 20;
+    } else if (c === ',') {
+      row = row.padEnd(rowLength, '0');
+      pushRow();
+    } else if (c === '!') {
+      row = row.padEnd(rowLength, 'F');
+      pushRow();
+    } else if (c === ':') {
+      if (row.length > 0) { pushRow(); }
+      rows.push(rows.at(-1) ?? '0'.repeat(rowLength));
+    } else if (/[0-9a-fA-F]/.test(c)) {
+      row += c.repeat(Math.max(1, count));
+      count = 0;
+      while (row.length >= rowLength) {
+        const overflow = row.substring(rowLength);
+        row = row.substring(0, rowLength);
+        pushRow();
+        row = overflow;
+      }
+    }
+  }
+  if (row.length > 0) { pushRow(); }
+
+  return rows.join('');
+}
+
+async function inflate(bytes: Uint8Array) {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decode ^GF graphic field parameters into a bitmap
+ */
+async function decodeGraphicField(params: string): Promise<MonochromeBitmap | undefined> {
+  const [format, , total, perRow] = params.split(',', 4).map(p => p.trim());
+  const data = params.split(',').slice(4).join(',');
+  const fieldBytes = intParam(total, 0);
+  const rowBytes = intParam(perRow, 0);
+  if (fieldBytes <= 0 || rowBytes <= 0) { return undefined; }
+
+  let bytes: Uint8Array;
+  const base64 = /^:(Z64|B64):([^:]*)/.exec(data);
+  if (base64 !== null) {
+    const raw = Uint8Array.from(atob(base64[2]), c => c.charCodeAt(0));
+    bytes = base64[1] === 'Z64' ? await inflate(raw) : raw;
+  } else if (format.toUpperCase() === 'B') {
+    bytes = Uint8Array.from(data, c => c.charCodeAt(0) & 0xff);
+  } else if (format.toUpperCase() === 'A') {
+    const hex = decompressGraphicHex(data, rowBytes);
+    bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+    }
+  } else {
+    return undefined;
+  }
+
+  const height = Math.floor(fieldBytes / rowBytes);
+  const bitmap = createBitmap(rowBytes * 8, height);
+  bitmap.data.set(bytes.subarray(0, bitmap.data.length));
+  return bitmap;
+}
+
+/**
+ * Draw a bitmap as black dots on a transparent canvas element
+ */
+function bitmapToCanvasElement(bitmap: MonochromeBitmap) {
+  const el = document.createElement('canvas');
+  el.width = bitmap.width;
+  el.height = bitmap.height;
+  const ctx = el.getContext('2d');
+  if (ctx === null) {
+    throw new Error('Unable to get a 2D context to draw the graphic field.');
+  }
+
+  const image = ctx.createImageData(bitmap.width, bitmap.height);
+  for (let y = 0; y < bitmap.height; y++) {
+    for (let x = 0; x < bitmap.width; x++) {
+      if (getPixel(bitmap, x, y)) {
+        image.data[(y * bitmap.width + x) * 4 + 3] = 255;
+      }
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return el;
+}
+
+/**
+ * Move an object so the top left of its bounding box is at the given point
+ */
+function placeAt(obj: fabric.FabricObject, x: number, y: number) {
+  obj.setCoords();
+  const bound = obj.getBoundingRect();
+  obj.set({
+    left: obj.left + x - bound.left,
+    top: obj.top + y - bound.top,
+  });
+  obj.setCoords();
+  return obj;
+}
+
+function boxObject(x: number, y: number, params: string) {
+  const [w, h, t, c, r] = splitParams(params);
+  const thickness = Math.max(1, intParam(t, 1));
+  const width = Math.max(thickness, intParam(w, thickness));
+  const height = Math.max(thickness, intParam(h, thickness));
+  const color = (c ?? 'B').toUpperCase() === 'W' ? '#ffffff' : '#000000';
+  const rounding = Math.min(8, Math.max(0, intParam(r, 0)));
+
+  // a box no thicker than its line is a line
+  if (rounding === 0 && (height === thickness || width === thickness) && width !== height) {
+    const horizontal = height === thickness;
+    const points: [number, number, number, number] = horizontal
+      ? [x, y + thickness / 2, x + width, y + thickness / 2]
+      : [x + thickness / 2, y, x + thickness / 2, y + height];
+    return new fabric.Line(points, {
+      stroke: color,
+      strokeWidth: thickness,
+      strokeUniform: true,
+    });
+  }
+
+  const radius = rounding / 8 * Math.min(width, height) / 2;
+  if (thickness * 2 >= Math.min(width, height)) {
+    return new fabric.Rect({
+      left: x, top: y, width, height,
+      fill: color, strokeWidth: 0, rx: radius, ry: radius,
+    });
+  }
+  return new fabric.Rect({
+    left: x,
+    top: y,
+    width: width - thickness,
+    height: height - thickness,
+    fill: '',
+    stroke: color,
+    strokeWidth: thickness,
+    strokeUniform: true,
+    rx: radius,
+    ry: radius,
+  });
+}
+
+function diagonalObject(x: number, y: number, params: string) {
+  const [w, h, t, c, o] = splitParams(params);
+  const thickness = Math.max(1, intParam(t, 1));
+  const width = Math.max(thickness, intParam(w, thickness));
+  const height = Math.max(1, intParam(h, thickness));
+  const leansLeft = ['L', '\\'].includes((o ?? 'R').toUpperCase());
+  const points: [number, number, number, number] = leansLeft
+    ? [x + thickness / 2, y, x + width - thickness / 2, y + height]
+    : [x + thickness / 2, y + height, x + width - thickness / 2, y];
+  return new fabric.Line(points, {
+    stroke: (c ?? 'B').toUpperCase() === 'W' ? '#ffffff' : '#000000',
+    strokeWidth: thickness,
+    strokeUniform: true,
+  });
+}
+
+function ellipseObject(x: number, y: number, width: number, height: number, t: number, c?: string) {
+  const color = (c ?? 'B').toUpperCase() === 'W' ? '#ffffff' : '#000000';
+  const solid = t * 2 >= Math.min(width, height);
+  return new fabric.Ellipse({
+    left: x,
+    top: y,
+    rx: (solid ? width : width - t) / 2,
+    ry: (solid ? height : height - t) / 2,
+    fill: solid ? color : '',
+    stroke: solid ? null : color,
+    strokeWidth: solid ? 0 : t,
+    strokeUniform: true,
+  });
+}
+
+/**
+ * Remove ^BC subset invocation codes, the editor picks subsets itself
+ * @param {String} data field data in ^BC mode N
+ */
+function stripInvocationCodes(data: string) {
+  return data.replace(/>(.)/g, (_, code: string) =>
+    code === '>' ? '>' : code === '8' ? fnc1 : '');
+}
+
+/**
+ * Read GS1 data written with FNC1 separators into the bracketed form
+ * @param {String} data field data
+ * @param {String} separator FNC1 as written in the data
+ * @returns barcode data and GS1 flag, unchanged data if it isn't GS1
+ */
+function gs1Options(data: string, separator: string) {
+  if (!data.startsWith(separator)) { return { data }; }
+  try {
+    const elements = parseGs1ElementString(data.substring(separator.length), separator);
+    return { data: formatGs1(elements), gs1: true };
+  } catch (e) {
+    if (!(e instanceof BarcodeDataError)) { throw e; }
+    return { data };
+  }
+}
+
+/**
+ * Read the settings of a barcode field
+ * @param {String} command barcode command name, e.g. BC
+ * @param {Array} params barcode command parameters
+ * @param {Object} defaults module width, ratio and height from ^BY
+ * @param {String} data decoded field data
+ */
+function barcodeOptions(
+  command: string,
+  params: string[],
+  defaults: { moduleWidth: number, ratio: number, height: number },
+  data: string,
+): Partial<BarcodeProps> {
+  const flag = (value: string | undefined) => (value ?? '').toUpperCase() !== 'N';
+  const options = {
+    symbology: barcodeCommands[command],
+    data,
+    moduleWidth: defaults.moduleWidth,
+    ratio: defaults.ratio,
+    barHeight: defaults.height,
+  };
+
+  switch (command) {
+    case 'BC': {
+      // mode D takes GS1 data with bracketed AIs
+      const mode = (params[5] || 'N').toUpperCase();
+      return {
+        ...options,
+        barHeight: intParam(params[1], defaults.height),
+        showText: flag(params[2]),
+        ...mode === 'D' ? { data, gs1: true }
+          : mode === 'N' ? gs1Options(stripInvocationCodes(data), fnc1)
+          : { data },
+      };
+    }
+    case 'B3':
+      return { ...options, barHeight: intParam(params[2], defaults.height), showText: flag(params[3]) };
+    case 'BQ': {
+      // field data starts with the error correction level and input mode
+      const match = /^([HQML])([AM]),(.*)$/s.exec(data);
+      const level = (match?.[1] ?? params[3] ?? 'Q').toUpperCase() as QrErrorCorrection;
+      const text = match === null ? data
+        : match[2] === 'M' ? match[3].replace(/^(B\d{4}|[NAK])/, '') : match[3];
+      return {
+        ...options,
+        moduleWidth: intParam(params[2], defaults.moduleWidth),
+        errorCorrection: qrErrorCorrectionLevels.includes(level) ? level : 'Q',
+        data: text,
+      };
+    }
+    case 'BX': {
+      // GS1 DataMatrix starts with FNC1, the escape character followed by 1
+      const escape = params[6] || '~';
+      return {
+        ...options,
+        moduleWidth: intParam(params[1], defaults.moduleWidth),
+        ...gs1Options(data, `${escape}1`),
+      };
+    }
+    case 'B7':
+      return {
+        ...options,
+        securityLevel: intParam(params[2], 0),
+        columns: intParam(params[3], 0),
+      };
+    default:
+      return { ...options, barHeight: intParam(params[1], defaults.height), showText: flag(params[2]) };
+  }
+}
+
+/**
+ * Read a ZPL label into fabric objects
+ * @param {String} zpl ZPL source, only the first ^XA..^XZ label is read
+ * @returns the label size and editable objects in dots
+ */
+export async function importZpl(zpl: string): Promise<ZplImportResult> {
+  const result: ZplImportResult = { objects: [], warnings: [] };
+
+  let home = { x: 0, y: 0 };
+  let origin = { x: 0, y: 0 };
+  let typeset = false;
+  let fieldOrientation: Orientation = 'N';
+  let defaultFont = { height: 9, width: 5 };
+  let font: { orientation: Orientation, height: number, width: number } | undefined;
+  let block: { width: number, lines: number, spacing: number, align: string } | undefined;
+  let hexIndicator: string | undefined;
+  let barcodeDefaults = { moduleWidth: 2, ratio: 3, height: 10 };
+  let barcode: {
+    command: string,
+    params: string[],
+    orientation: Orientation,
+    defaults: typeof barcodeDefaults,
+  } | undefined;
+  let fieldData: string | undefined;
+  let inLabel = false;
+
+  const resetField = () => {
+    origin = { x: 0, y: 0 };
+    typeset = false;
+    font = undefined;
+    block = undefined;
+    hexIndicator = undefined;
+    barcode = undefined;
+    fieldData = undefined;
+  };
+
+  const finishField = () => {
+    if (fieldData === undefined) { return; }
+
+    const data = hexIndicator === undefined
+      ? fieldData
+      : decodeHexEscapes(fieldData, hexIndicator);
+    const x = home.x + origin.x;
+    let y = home.y + origin.y;
+
+    if (barcode !== undefined) {
+      const obj = new Barcode(barcodeOptions(barcode.command, barcode.params, barcode.defaults, data));
+      if (obj.error !== undefined) {
+        result.warnings.push(`^${barcode.command} ${data}: ${obj.error}`);
+      }
+      obj.set({ angle: orientationAngles[barcode.orientation] });
+      // ^FT places barcodes by the bottom of their bars
+      if (typeset) { y -= isMatrixSymbology(obj.symbology) ? obj.height : obj.barHeight; }
+      result.objects.push(placeAt(obj, x, y));
+      return;
+    }
+
+    const height = font?.height ?? defaultFont.height;
+    const orientation = font?.orientation ?? fieldOrientation;
+    const text = data.replace(/\\&/g, '\n').replace(/\\\\/g, '\\');
+    const longestLine = Math.max(...text.split('\n').map(l => l.length));
+    const textbox = new fabric.Textbox(text, {
+      width: block?.width ?? Math.max(80, Math.ceil(longestLine * (font?.width ?? height) * 0.7)),
+      fontSize: height,
+      fontFamily: "'Open Sans', sans-serif",
+      textAlign: { L: 'left', C: 'center', R: 'right', J: 'justify' }[block?.align ?? 'L'] ?? 'left',
+      angle: orientationAngles[orientation],
+    });
+    if (typeset) { y -= height; }
+    textbox.setControlsVisibility({ 'mb': false });
+    result.objects.push(placeAt(textbox, x, y));
+  };
+
+  for (const command of tokenizeZpl(zpl)) {
+    const params = splitParams(command.params);
+
+    if (command.name === 'XA') {
+      inLabel = true;
+      continue;
+    }
+    if (command.name === 'XZ') {
+      if (inLabel) { break; }
+      continue;
+    }
+    if (!inLabel) { continue; }
+
+    switch (command.name) {
+      case 'PW':
+        result.width = intParam(params[0], 0) || undefined;
+        break;
+      case 'LL':
+        result.height = intParam(params[0], 0) || undefined;
+        break;
+      case 'LH':
+        home = { x: intParam(params[0], 0), y: intParam(params[1], 0) };
+        break;
+      case 'FW':
+        fieldOrientation = orientationParam(params[0], fieldOrientation);
+        break;
+      case 'CF':
+        defaultFont = {
+          height: intParam(params[1], defaultFont.height),
+          width: intParam(params[2], intParam(params[1], defaultFont.width)),
+        };
+        break;
+      case 'BY':
+        barcodeDefaults = {
+          moduleWidth: intParam(params[0], barcodeDefaults.moduleWidth),
+          ratio: Number(params[1]) || barcodeDefaults.ratio,
+          height: intParam(params[2], barcodeDefaults.height),
+        };
+        break;
+      case 'FO':
+      case 'FT':
+        origin = { x: intParam(params[0], 0), y: intParam(params[1], 0) };
+        typeset = command.name === 'FT';
+        break;
+      case 'FB':
+        block = {
+          width: intParam(params[0], 0),
+          lines: intParam(params[1], 1),
+          spacing: intParam(params[2], 0),
+          align: (params[3] ?? 'L').toUpperCase(),
+        };
+        break;
+      case 'FH':
+        hexIndicator = command.params.trim()[0] ?? '_';
+        break;
+      case 'FD':
+      case 'FV':
+        fieldData = command.params;
+        break;
+      case 'FS':
+        finishField();
+        resetField();
+        break;
+      case 'GB':
+        result.objects.push(boxObject(home.x + origin.x, home.y + origin.y, command.params));
+        break;
+      case 'GD':
+        result.objects.push(diagonalObject(home.x + origin.x, home.y + origin.y, command.params));
+        break;
+      case 'GE': {
+        const t = Math.max(1, intParam(params[2], 1));
+        result.objects.push(ellipseObject(
+          home.x + origin.x, home.y + origin.y,
+          Math.max(t, intParam(params[0], t)), Math.max(t, intParam(params[1], t)),
+          t, params[3]
+        ));
+        break;
+      }
+      case 'GC': {
+        const t = Math.max(1, intParam(params[1], 1));
+        const d = Math.max(t, intParam(params[0], t));
+        result.objects.push(ellipseObject(home.x + origin.x, home.y + origin.y, d, d, t, params[2]));
+        break;
+      }
+      case 'GF': {
+        const bitmap = await decodeGraphicField(command.params);
+        if (bitmap === undefined) {
+          result.warnings.push(`^GF${command.params.substring(0, 20)}…`);
+          break;
+        }
+        result.objects.push(new fabric.FabricImage(bitmapToCanvasElement(bitmap), {
+          left: home.x + origin.x,
+          top: home.y + origin.y,
+        }));
+        break;
+      }
+      case 'CI':
+      case 'FX':
+      case 'PQ':
+      case 'PR':
+      case 'MD':
+      case 'MN':
+      case 'MT':
+      case 'PO':
+      case 'LS':
+      case 'LT':
+        // printer settings and comments don't affect the design
+        break;
+      default:
+        if (command.name in barcodeCommands) {
+          barcode = {
+            command: command.name,
+            params,
+            orientation: orientationParam(params[0], fieldOrientation),
+            defaults: barcodeDefaults,
+          };
+        } else if (command.name[0] === 'A') {
+          // ^A<font><orientation>,<height>,<width>, the font is part of the name
+          const [orientation, h, w] = params;
+          const height = intParam(h, defaultFont.height);
+          font = {
+            orientation: orientationParam(orientation, fieldOrientation),
+            height,
+            width: intParam(w, height),
+          };
+        } else {
+          result.warnings.push(`${command.prefix}${command.name}${command.params}`);
+        }
+        break;
+    }
+  }
+
+  return result;
+}
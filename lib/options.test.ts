@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { defaultHistoryOptions } from './canvasHistory.js';
+import { defaultButtons, defaultExtendedButtons, defaultShapes } from './defaults.js';
+import { resolveEditorOptions, type ImageEditorOptions } from './options.js';
+
+describe('resolveEditorOptions', () => {
+  it('fills in every button, the default shapes and features', () => {
+    const options = resolveEditorOptions();
+
+    expect(options.buttons).toEqual(defaultButtons.map(b => b.name));
+    expect(options.extendedButtons).toEqual(defaultExtendedButtons.map(b => b.name));
+    expect(options.shapes).toEqual(defaultShapes);
+    expect(options).toMatchObject({
+      storageKey: 'canvasEditor',
+      features: { keyboard: true, copyPaste: true, restoreSaved: true, autosave: true },
+      history: defaultHistoryOptions,
+    });
+  });
+
+  it('splits the chosen buttons into tools and actions in their order', () => {
+    const options = resolveEditorOptions({ buttons: ['save', 'textbox', 'undo', 'select', 'textbox'] });
+    expect(options.buttons).toEqual(['textbox', 'select']);
+    expect(options.extendedButtons).toEqual(['save', 'undo']);
+  });
+
+  it('merges features and history with the defaults', () => {
+    const options = resolveEditorOptions({ features: { autosave: false }, history: { maxSteps: 10 } });
+    expect(options.features).toEqual({ keyboard: true, copyPaste: true, restoreSaved: true, autosave: false });
+    expect(options.history).toEqual({ ...defaultHistoryOptions, maxSteps: 10 });
+  });
+
+  it('rejects unknown option, button, shape and feature names', () => {
+    expect(() => resolveEditorOptions({ button: [] } as ImageEditorOptions)).toThrow("Unknown editor option 'button'.");
+    expect(() => resolveEditorOptions({ buttons: ['circle'] as unknown as ImageEditorOptions['buttons'] }))
+      .toThrow(/^Unknown toolbar button 'circle', use one of select, /);
+    expect(() => resolveEditorOptions({ shapes: ['<svg></svg>', 'circle'] })).toThrow('Shape 2 is not SVG markup.');
+    expect(() => resolveEditorOptions({ features: { zoom: false } as ImageEditorOptions['features'] }))
+      .toThrow(/^Unknown editor feature 'zoom'/);
+  });
+
+  it('rejects malformed storage and history values', () => {
+    expect(() => resolveEditorOptions({ storageKey: '' })).toThrow('The storage key must be a non-empty string.');
+    expect(() => resolveEditorOptions({ storage: { list: async () => [] } as unknown as ImageEditorOptions['storage'] }))
+      .toThrow(/^The storage must have the methods /);
+    expect(() => resolveEditorOptions({ history: { maxSteps: 0 } })).toThrow('The history must keep at least one step.');
+    expect(() => resolveEditorOptions({ history: { maxBytes: NaN } })).toThrow(/memory limit/);
+    expect(() => resolveEditorOptions({ history: { coalesceTime: -1 } })).toThrow(/coalesce time/);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Define the options of the editor and check them
+ */
+
+import { defaultButtons, defaultExtendedButtons, defaultShapes, type ButtonModes, type ExtendedButtonModes } from './defaults.js';
+import type { LabelMedia } from './labelMedia.js';
+import type { PrintTransport } from './printing/transport.js';
+import { defaultHistoryOptions, type HistoryOptions } from './canvasHistory.js';
+import type { DocumentStorage } from './storage/documents.js';
+
+/** Name of a tool or action button of the toolbar. */
+export type ToolbarButtonName = ButtonModes | ExtendedButtonModes;
+
+/** Behaviours that can be turned off, all are on by default. */
+export const editorFeatures = ['keyboard', 'copyPaste', 'restoreSaved', 'autosave'] as const;
+export type EditorFeature = typeof editorFeatures[number];
+
+export interface ImageEditorOptions {
+  /** Toolbar buttons to show and their order, every button when undefined or empty. */
+  buttons?: ReadonlyArray<ToolbarButtonName>;
+  /** SVG markup of the shapes panel, the default shapes when undefined or empty. */
+  shapes?: ReadonlyArray<string>;
+  /** Label size to start with, a saved canvas keeps its own. */
+  media?: Partial<LabelMedia>;
+  /**
+   * Name of the IndexedDB database the labels are saved in, or the localStorage key prefix
+   * where IndexedDB is missing, canvasEditor by default
+   */
+  storageKey?: string;
+  /** Where labels are saved, the browser storage named by storageKey when undefined. */
+  storage?: DocumentStorage;
+  /**
+   * keyboard: undo/redo, arrow and delete keys,
+   * copyPaste: the clipboard,
+   * restoreSaved: load the saved canvas on start,
+   * autosave: keep a recovery copy of unsaved work and offer it on start
+   */
+  features?: Partial<Record<EditorFeature, boolean>>;
+  /** Printers offered by the print button, USB and download by default. */
+  printTransports?: ReadonlyArray<PrintTransport>;
+  /**
+   * Undo steps kept, 100 steps and 32 MB by default, the time rapid edits are merged in, 1 s by default,
+   * and whether recent steps are saved with the document, off by default
+   */
+  history?: Partial<HistoryOptions>;
+}
+
+/** Options with the defaults filled in. */
+export interface ResolvedEditorOptions {
+  buttons: ButtonModes[];
+  extendedButtons: ExtendedButtonModes[];
+  shapes: string[];
+  media: Partial<LabelMedia> | undefined;
+  storageKey: string;
+  storage: DocumentStorage | undefined;
+  features: Record<EditorFeature, boolean>;
+  printTransports: PrintTransport[] | undefined;
+  history: HistoryOptions;
+}
+
+const optionNames: ReadonlyArray<keyof ImageEditorOptions> =
+  ['buttons', 'shapes', 'media', 'storageKey', 'storage', 'features', 'printTransports', 'history'];
+
+/**
+ * Check the options and fill in the defaults
+ * @param {Object} options options given to the editor
+ * @throws {Error} on unknown option, button or feature names and malformed values
+ */
+export function resolveEditorOptions(options: ImageEditorOptions = {}): ResolvedEditorOptions {
+  Object.keys(options).forEach(name => {
+    if (!optionNames.includes(name as keyof ImageEditorOptions)) {
+      throw new Error(`Unknown editor option '${name}'.`);
+    }
+  });
+
+  const toolNames: ReadonlyArray<string> = defaultButtons.map(b => b.name);
+  const actionNames: ReadonlyArray<string> = defaultExtendedButtons.map(b => b.name);
+  const buttons = [...new Set(options.buttons ?? [])];
+  buttons.forEach(name => {
+    if (!toolNames.includes(name) && !actionNames.includes(name)) {
+      throw new Error(`Unknown toolbar button '${name}', use one of ${[...toolNames, ...actionNames].join(', ')}.`);
+    }
+  });
+
+  const shapes = [...options.shapes ?? []];
+  shapes.forEach((svg, i) => {
+    if (typeof svg !== 'string' || !/^\s*<svg[\s>]/i.test(svg)) {
+      throw new Error(`Shape ${i + 1} is not SVG markup.`);
+    }
+  });
+
+  const storageKey = options.storageKey ?? 'canvasEditor';
+  if (typeof storageKey !== 'string' || storageKey === '') {
+    throw new Error('The storage key must be a non-empty string.');
+  }
+
+  const storageMethods = ['list', 'load', 'create', 'save', 'rename', 'duplicate', 'delete'] as const;
+  const { storage } = options;
+  if (storage !== undefined && storageMethods.some(name => typeof storage?.[name] !== 'function')) {
+    throw new Error(`The storage must have the methods ${storageMethods.join(', ')}.`);
+  }
+
+  const features = Object.fromEntries(editorFeatures.map(f => [f, true])) as Record<EditorFeature, boolean>;
+  Object.entries(options.features ?? {}).forEach(([name, enabled]) => {
+    if (!editorFeatures.includes(name as EditorFeature)) {
+      throw new Error(`Unknown editor feature '${name}', use one of ${editorFeatures.join(', ')}.`);
+    }
+    features[name as EditorFeature] = enabled !== false;
+  });
+
+  const history = { ...defaultHistoryOptions, ...options.history };
+  if (!Number.isInteger(history.maxSteps) || history.maxSteps < 1) {
+    throw new Error('The history must keep at least one step.');
+  }
+  if (typeof history.maxBytes !== 'number' || !(history.maxBytes > 0)) {
+    throw new Error('The history memory limit must be a positive number of bytes.');
+  }
+  if (typeof history.coalesceTime !== 'number' || !(history.coalesceTime >= 0)) {
+    throw new Error('The history coalesce time must be zero or more milliseconds.');
+  }
+  if (typeof history.persist !== 'boolean') {
+    throw new Error('history.persist must be true or false.');
+  }
+
+  return {
+    buttons: buttons.length > 0
+      ? buttons.filter((name): name is ButtonModes => toolNames.includes(name))
+      : defaultButtons.map(b => b.name),
+    extendedButtons: buttons.length > 0
+      ? buttons.filter((name): name is ExtendedButtonModes => actionNames.includes(name))
+      : defaultExtendedButtons.map(b => b.name),
+    shapes: shapes.length > 0 ? shapes : [...defaultShapes],
+    media: options.media,
+    storageKey,
+    storage,
+    features,
+    printTransports: options.printTransports === undefined ? undefined : [...options.printTransports],
+    history,
+  };
+}
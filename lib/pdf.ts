@@ -0,0 +1,135 @@
+/**
+ * Define a minimal PDF writer for label pages
+ */
+
+import { concatBytes } from './zip.js';
+
+/** A JPEG image drawn on a page. */
+export interface PdfJpegImage {
+  /** Resource name used by the page content, e.g. Im0. */
+  name: string;
+  /** Size in pixels. */
+  width: number;
+  height: number;
+  jpeg: Uint8Array;
+}
+
+/** A one bit image that paints the current fill color where its bits are set. */
+export interface PdfMaskImage {
+  name: string;
+  width: number;
+  height: number;
+  /** Rows padded to whole bytes, most significant bit first. */
+  mask: Uint8Array;
+}
+
+export type PdfImage = PdfJpegImage | PdfMaskImage;
+
+/** Fonts every PDF viewer has, no font file is embedded. */
+export type PdfStandardFont = 'Helvetica' | 'Helvetica-Bold' | 'Courier' | 'Times-Roman';
+
+export interface PdfPage {
+  /** Page size in points, 72 per inch. */
+  width: number;
+  height: number;
+  /** Content stream operators, in points from the bottom left corner. */
+  content: string;
+  images: PdfImage[];
+  /** Fonts used by the content by resource name, e.g. F0, written with the WinAnsi encoding. */
+  fonts?: Record<string, PdfStandardFont>;
+}
+
+/**
+ * Build a page that shows one image over the whole page
+ * @param {Number} width page width in points
+ * @param {Number} height page height in points
+ * @param {Object} image JPEG image stretched to the page
+ */
+export function imagePage(width: number, height: number, image: Omit<PdfJpegImage, 'name'>): PdfPage {
+  return {
+    width,
+    height,
+    content: `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`,
+    images: [{ ...image, name: 'Im0' }],
+  };
+}
+
+/**
+ * Write a PDF document
+ * @param {Array} pages page sizes, contents and images
+ */
+export function createPdf(pages: ReadonlyArray<PdfPage>): Uint8Array {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  // objects 1 and 2 are the catalog and page tree, the pages follow
+  let nextId = 3;
+  const pageObjects = pages.map(page => {
+    const fonts = Object.entries(page.fonts ?? {});
+    const ids = {
+      page: nextId++,
+      content: nextId++,
+      images: page.images.map(() => nextId++),
+      fonts: fonts.map(() => nextId++),
+    };
+    return { page, fonts, ids };
+  });
+
+  const object = (id: number, body: string | Uint8Array[]) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+    if (typeof body === 'string') {
+      write(body);
+    } else {
+      body.forEach(write);
+    }
+    write('\nendobj\n');
+  };
+
+  const stream = (dictionary: string, data: Uint8Array) =>
+    [encoder.encode(`<< ${dictionary ? `${dictionary} ` : ''}/Length ${data.length} >>\nstream\n`), data, encoder.encode('\nendstream')];
+
+  write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  object(2, `<< /Type /Pages /Kids [${pageObjects.map(p => `${p.ids.page} 0 R`).join(' ')}] `
+    + `/Count ${pages.length} >>`);
+
+  pageObjects.forEach(({ page, fonts, ids }) => {
+    const xObjects = page.images.map((image, i) => `/${image.name} ${ids.images[i]} 0 R`).join(' ');
+    const fontRefs = fonts.map(([name], i) => `/${name} ${ids.fonts[i]} 0 R`).join(' ');
+    object(ids.page, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] `
+      + `/Resources << /XObject << ${xObjects} >> /Font << ${fontRefs} >> >> /Contents ${ids.content} 0 R >>`);
+    object(ids.content, stream('', encoder.encode(page.content)));
+    page.images.forEach((image, i) => object(ids.images[i], 'jpeg' in image
+      ? stream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} `
+        + '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+        image.jpeg
+      )
+      // set bits paint, the default decode paints the clear ones
+      : stream(
+        `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} `
+        + '/ImageMask true /BitsPerComponent 1 /Decode [1 0]',
+        image.mask
+      )));
+    fonts.forEach(([, font], i) => object(ids.fonts[i],
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`));
+  });
+
+  const xrefOffset = length;
+  write(`xref\n0 ${nextId}\n0000000000 65535 f \n`);
+  for (let id = 1; id < nextId; id++) {
+    write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${nextId} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return concatBytes(parts);
+}
@@ -0,0 +1,84 @@
+/**
+ * Define import of PDF pages, e.g. shipping labels carriers hand out as PDFs.
+ * Pages are drawn to images with PDF.js, which is loaded on first use.
+ */
+
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+/** Largest page image in pixels, a big page at a high DPI is drawn at a lower resolution. */
+const maxPagePixels = 8192 * 8192;
+
+export class PdfImportError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'PdfImportError';
+  }
+}
+
+/**
+ * Load PDF.js. Unless the page set GlobalWorkerOptions.workerSrc, PDF files are parsed on the main thread.
+ */
+async function loadPdfJs() {
+  const pdfjs = await import('pdfjs-dist');
+  if (pdfjs.GlobalWorkerOptions.workerSrc === '') {
+    await import('pdfjs-dist/build/pdf.worker.min.mjs');
+  }
+  return pdfjs;
+}
+
+/**
+ * Open a PDF file, destroy() it once done
+ * @param {ArrayBuffer} data content of the file
+ * @throws {PdfImportError} when the file isn't a PDF or is protected by a password
+ */
+export async function openPdf(data: ArrayBuffer): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfJs();
+  try {
+    return await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  } catch (e) {
+    switch ((e as Error).name) {
+      case 'PasswordException':
+        throw new PdfImportError('The PDF is protected by a password.', { cause: e });
+      case 'InvalidPDFException':
+        throw new PdfImportError('The file is not a PDF or is damaged.', { cause: e });
+      default:
+        throw new PdfImportError(`The PDF could not be read: ${(e as Error).message}`, { cause: e });
+    }
+  }
+}
+
+/**
+ * Draw a page of a PDF on a white canvas
+ * @param {Object} pdf document from openPdf()
+ * @param {Number} pageNumber page to draw, from 1
+ * @param {Number} dpi pixels per inch, e.g. the label's DPI, or a low value for a thumbnail
+ * @returns {HTMLCanvasElement} the page, its size is the page size at the DPI
+ * @throws {PdfImportError} when the document has no such page
+ */
+export async function renderPdfPage(pdf: PDFDocumentProxy, pageNumber: number, dpi: number) {
+  if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > pdf.numPages) {
+    throw new PdfImportError(`The PDF has no page ${pageNumber}, it has ${pdf.numPages}.`);
+  }
+
+  const page = await pdf.getPage(pageNumber);
+  try {
+    // PDF sizes are in points, 72 per inch
+    let viewport = page.getViewport({ scale: dpi / 72 });
+    const pixels = viewport.width * viewport.height;
+    if (pixels > maxPagePixels) {
+      viewport = page.getViewport({ scale: dpi / 72 * Math.sqrt(maxPagePixels / pixels) });
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    const canvasContext = canvas.getContext('2d');
+    if (canvasContext === null) {
+      throw new PdfImportError('Unable to get a 2D context to draw the PDF page.');
+    }
+    await page.render({ canvasContext, viewport, background: 'white' }).promise;
+    return canvas;
+  } finally {
+    page.cleanup();
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Define saving printer commands as a file, to copy to a printer later
+ */
+
+import type { PrintJob, PrintStatusCallback, PrintTransport } from './transport.js';
+
+/**
+ * Save each job through the browser's download, e.g. label.zpl or label.prn
+ */
+export class DownloadTransport implements PrintTransport {
+  readonly name = 'Download file';
+  readonly connected = true;
+
+  async connect() { }
+
+  async disconnect() { }
+
+  async send(job: PrintJob, onStatus?: PrintStatusCallback) {
+    const url = URL.createObjectURL(new Blob([job.data], { type: 'application/octet-stream' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = job.fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    onStatus?.({ status: 'sending', sent: job.data.length, total: job.data.length });
+  }
+}
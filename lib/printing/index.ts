@@ -0,0 +1,4 @@
+export * from './transport.js';
+export * from './webUsb.js';
+export * from './relay.js';
+export * from './download.js';
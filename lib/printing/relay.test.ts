@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RelayTransport } from './relay.js';
+import { PrintTransportError, type PrintJob } from './transport.js';
+
+const job: PrintJob = { data: new TextEncoder().encode('^XA^XZ'), fileName: 'label.zpl' };
+
+/**
+ * WebSocket that answers each job with the given messages
+ */
+function fakeWebSocket(answers: string[]) {
+  return class extends EventTarget {
+    binaryType = 'blob';
+    sent: unknown[] = [];
+
+    constructor(public readonly url: URL) {
+      super();
+      setTimeout(() => this.dispatchEvent(new Event('open')));
+    }
+
+    send(data: unknown) {
+      this.sent.push(data);
+      answers.forEach(answer => setTimeout(() => this.dispatchEvent(new MessageEvent('message', { data: answer }))));
+    }
+
+    close() { }
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('RelayTransport', () => {
+  it('rejects URLs it can not send to', () => {
+    expect(() => new RelayTransport({ url: 'not a url' })).toThrow(PrintTransportError);
+    expect(() => new RelayTransport({ url: 'ftp://relay.local/' })).toThrow('must start with');
+  });
+
+  it('posts the job with the printer as a query parameter', async () => {
+    const fetch = vi.fn(async (_url: URL, _init?: RequestInit) => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetch);
+    const transport = new RelayTransport({ url: 'http://relay.local/print', printer: '192.168.1.20:9100' });
+    const statuses: string[] = [];
+    await transport.send(job, e => statuses.push(e.status));
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url.toString()).toBe('http://relay.local/print?printer=192.168.1.20%3A9100');
+    expect(init?.method).toBe('POST');
+    expect(init?.body).toBe(job.data);
+    expect(statuses).toEqual(['sending']);
+  });
+
+  it('reports the text of an error answer', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('Printer 192.168.1.20 is offline\n', { status: 502 })));
+    const transport = new RelayTransport({ url: 'http://relay.local/print' });
+
+    await expect(transport.send(job)).rejects.toThrow(new PrintTransportError('Printer 192.168.1.20 is offline'));
+  });
+
+  it('reports the status of an error answer without text', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503, statusText: 'Service Unavailable' })));
+    const transport = new RelayTransport({ url: 'http://relay.local/print' });
+
+    await expect(transport.send(job)).rejects.toThrow('The print relay answered 503 Service Unavailable.');
+  });
+
+  it('gives up when the relay does not answer in time', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: URL, init?: RequestInit) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+    })));
+    const transport = new RelayTransport({ url: 'http://relay.local/print', timeout: 20 });
+
+    const error = await transport.send(job).catch(e => e);
+    expect(error).toBeInstanceOf(PrintTransportError);
+    expect(error.message).toBe("The print relay at relay.local can't be reached.");
+    expect(error.cause.name).toBe('TimeoutError');
+  });
+
+  it('reports a relay that can not be reached', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    const transport = new RelayTransport({ url: 'https://relay.local:8443/print' });
+
+    await expect(transport.send(job)).rejects.toThrow("The print relay at relay.local:8443 can't be reached.");
+  });
+
+  it('reports the progress and result of a WebSocket relay', async () => {
+    vi.stubGlobal('WebSocket', fakeWebSocket(['{"status":"sending","message":"Queued"}', '{"status":"sent"}']));
+    const transport = new RelayTransport({ url: 'ws://relay.local/print' });
+    const messages: (string | undefined)[] = [];
+    await transport.send(job, e => messages.push(e.message));
+
+    expect(messages).toEqual([undefined, 'Queued']);
+  });
+
+  it('reports a job a WebSocket relay failed', async () => {
+    vi.stubGlobal('WebSocket', fakeWebSocket(['{"status":"failed","message":"Printer head open"}']));
+    const transport = new RelayTransport({ url: 'ws://relay.local/print' });
+
+    await expect(transport.send(job)).rejects.toThrow('Printer head open');
+  });
+
+  it('gives up when a WebSocket relay does not answer in time', async () => {
+    vi.stubGlobal('WebSocket', fakeWebSocket([]));
+    const transport = new RelayTransport({ url: 'ws://relay.local/print', timeout: 20 });
+
+    await expect(transport.send(job)).rejects.toThrow('The print relay at relay.local did not answer.');
+  });
+});
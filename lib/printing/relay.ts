@@ -0,0 +1,131 @@
+/**
+ * Define printing through a relay that forwards jobs to a network printer, e.g. on raw TCP port 9100
+ */
+
+import { PrintTransportError, type PrintJob, type PrintStatusCallback, type PrintTransport } from './transport.js';
+
+export interface RelayTransportOptions {
+  /** http(s):// to POST each job, ws(s):// to send it over a WebSocket. */
+  url: string;
+  /** Printer the relay forwards to, e.g. 192.168.1.20:9100, sent as the printer query parameter. */
+  printer?: string;
+  /** Display name, Relay by default. */
+  name?: string;
+  /** Milliseconds to wait for the relay's answer. */
+  timeout?: number;
+}
+
+/** Message a WebSocket relay answers with. */
+interface RelayMessage {
+  status?: string;
+  message?: string;
+}
+
+/**
+ * Send jobs to a relay over HTTP or a WebSocket.
+ *
+ * Over HTTP the job is the body of a POST, any 2xx answer means it was sent and an error answer's text is
+ * reported. Over a WebSocket the job is one binary message, the relay answers with JSON text messages,
+ * {"status":"sending"} while busy and then {"status":"sent"} or {"status":"failed","message":"..."}.
+ */
+export class RelayTransport implements PrintTransport {
+  readonly name: string;
+  private readonly url: URL;
+  private readonly timeout: number;
+
+  constructor(options: RelayTransportOptions) {
+    try {
+      this.url = new URL(options.url);
+    } catch (e) {
+      throw new PrintTransportError(`${options.url} is not a valid relay URL.`, { cause: e });
+    }
+    if (!/^(https?|wss?):$/.test(this.url.protocol)) {
+      throw new PrintTransportError(`${options.url} must start with http://, https://, ws:// or wss://.`);
+    }
+    if (options.printer !== undefined) {
+      this.url.searchParams.set('printer', options.printer);
+    }
+    this.name = options.name ?? 'Relay';
+    this.timeout = options.timeout ?? 30000;
+  }
+
+  /** Each job opens its own request, so there is nothing to connect. */
+  get connected() {
+    return true;
+  }
+
+  async connect() { }
+
+  async disconnect() { }
+
+  async send(job: PrintJob, onStatus?: PrintStatusCallback) {
+    onStatus?.({ status: 'sending', sent: 0, total: job.data.length });
+    if (this.url.protocol.startsWith('ws')) {
+      await this.sendWebSocket(job, onStatus);
+    } else {
+      await this.sendHttp(job);
+    }
+  }
+
+  private async sendHttp(job: PrintJob) {
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: job.data,
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (e) {
+      throw new PrintTransportError(`The print relay at ${this.url.host} can't be reached.`, { cause: e });
+    }
+    if (!response.ok) {
+      const text = (await response.text().catch(() => '')).trim();
+      throw new PrintTransportError(text || `The print relay answered ${response.status} ${response.statusText}.`);
+    }
+  }
+
+  private sendWebSocket(job: PrintJob, onStatus?: PrintStatusCallback) {
+    const total = job.data.length;
+    return new Promise<void>((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      socket.binaryType = 'arraybuffer';
+      let settled = false;
+
+      const finish = (error?: PrintTransportError) => {
+        if (settled) { return; }
+        settled = true;
+        clearTimeout(timer);
+        socket.close();
+        if (error === undefined) {
+          resolve();
+        } else {
+          reject(error);
+        }
+      };
+      const timer = setTimeout(() =>
+        finish(new PrintTransportError(`The print relay at ${this.url.host} did not answer.`)), this.timeout);
+
+      socket.addEventListener('open', () => socket.send(job.data));
+      socket.addEventListener('message', e => {
+        let message: RelayMessage;
+        try {
+          message = typeof e.data === 'string' ? JSON.parse(e.data) : {};
+        } catch {
+          message = { message: String(e.data) };
+        }
+        if (message.status === 'sent') {
+          finish();
+        } else if (message.status === 'failed') {
+          finish(new PrintTransportError(message.message || 'The print relay could not send the job.'));
+        } else {
+          onStatus?.({ status: 'sending', sent: 0, total, message: message.message });
+        }
+      });
+      socket.addEventListener('error', () =>
+        finish(new PrintTransportError(`The print relay at ${this.url.host} can't be reached.`)));
+      socket.addEventListener('close', () =>
+        finish(new PrintTransportError('The print relay closed the connection before the job was sent.')));
+    });
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  printJob,
+  PrintTransportError,
+  type PrintJob,
+  type PrintJobEvent,
+  type PrintStatusCallback,
+  type PrintTransport,
+} from './transport.js';
+
+const job: PrintJob = { data: new Uint8Array(10), fileName: 'label.zpl' };
+
+/**
+ * Transport that sends in two halves, failing where it is told to
+ */
+function fakeTransport(options: { connected?: boolean; failConnect?: unknown; failSend?: unknown } = {}) {
+  const calls: string[] = [];
+  const transport: PrintTransport = {
+    name: 'Fake',
+    connected: options.connected ?? false,
+    async connect() {
+      calls.push('connect');
+      if (options.failConnect !== undefined) { throw options.failConnect; }
+    },
+    async send(job: PrintJob, onStatus?: PrintStatusCallback) {
+      calls.push('send');
+      const total = job.data.length;
+      onStatus?.({ status: 'sending', sent: 0, total });
+      onStatus?.({ status: 'sending', sent: total / 2, total });
+      if (options.failSend !== undefined) { throw options.failSend; }
+      onStatus?.({ status: 'sending', sent: total, total });
+    },
+    async disconnect() { },
+  };
+  return { transport, calls };
+}
+
+describe('printJob', () => {
+  it('connects, sends and reports each status in order', async () => {
+    const { transport, calls } = fakeTransport();
+    const events: PrintJobEvent[] = [];
+    await printJob(transport, job, e => events.push(e));
+
+    expect(calls).toEqual(['connect', 'send']);
+    expect(events.map(e => [e.status, e.sent])).toEqual([
+      ['connecting', 0],
+      ['sending', 0],
+      ['sending', 5],
+      ['sending', 10],
+      ['sent', 10],
+    ]);
+    expect(events.every(e => e.total === 10)).toBe(true);
+  });
+
+  it('skips connecting when the transport is connected', async () => {
+    const { transport, calls } = fakeTransport({ connected: true });
+    const events: PrintJobEvent[] = [];
+    await printJob(transport, job, e => events.push(e));
+
+    expect(calls).toEqual(['send']);
+    expect(events[0].status).toBe('sending');
+  });
+
+  it('reports failed with the bytes sent before the error', async () => {
+    const error = new PrintTransportError('The printer is out of paper.');
+    const { transport } = fakeTransport({ failSend: error });
+    const events: PrintJobEvent[] = [];
+
+    await expect(printJob(transport, job, e => events.push(e))).rejects.toBe(error);
+    expect(events.at(-1)).toEqual({ status: 'failed', sent: 5, total: 10, message: 'The printer is out of paper.' });
+  });
+
+  it('wraps other errors in a PrintTransportError', async () => {
+    const cause = new TypeError('boom');
+    const { transport } = fakeTransport({ failConnect: cause });
+    const events: PrintJobEvent[] = [];
+
+    const error = await printJob(transport, job, e => events.push(e)).catch(e => e);
+    expect(error).toBeInstanceOf(PrintTransportError);
+    expect(error.message).toBe('Printing with Fake failed.');
+    expect(error.cause).toBe(cause);
+    expect(events.map(e => e.status)).toEqual(['connecting', 'failed']);
+  });
+});
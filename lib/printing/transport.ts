@@ -0,0 +1,84 @@
+/**
+ * Define how printer commands reach a printer
+ */
+
+export class PrintTransportError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'PrintTransportError';
+  }
+}
+
+/** Printer commands to send. */
+export interface PrintJob {
+  data: Uint8Array;
+  /** Name for transports that save the job as a file, e.g. label.zpl. */
+  fileName: string;
+}
+
+export type PrintJobStatus = 'connecting' | 'sending' | 'sent' | 'failed';
+
+/** State of a job, reported each time it changes. */
+export interface PrintJobEvent {
+  status: PrintJobStatus;
+  /** Bytes sent so far and the job size. */
+  sent: number;
+  total: number;
+  /** Detail from the printer or relay, e.g. why it failed. */
+  message?: string;
+}
+
+export type PrintStatusCallback = (event: PrintJobEvent) => void;
+
+/**
+ * A connection to a printer that accepts raw printer commands
+ */
+export interface PrintTransport {
+  /** Display name, e.g. USB. */
+  readonly name: string;
+  /** Whether send() can be called without connecting first. */
+  readonly connected: boolean;
+  /**
+   * Open the connection, browsers may only allow this in a click handler
+   * @throws {PrintTransportError} when no printer was chosen or it can't be opened
+   */
+  connect(): Promise<void>;
+  /**
+   * Send printer commands, reporting sending progress
+   * @throws {PrintTransportError} when the printer doesn't take the data
+   */
+  send(job: PrintJob, onStatus?: PrintStatusCallback): Promise<void>;
+  /** Close the connection, it can be opened again with connect(). */
+  disconnect(): Promise<void>;
+}
+
+/**
+ * Connect if needed and send a job, reporting every status from connecting to sent or failed
+ * @param {Object} transport printer connection
+ * @param {Object} job printer commands
+ * @param {Function} onStatus called on each status change and while sending
+ * @throws {PrintTransportError} after reporting the failed status
+ */
+export async function printJob(transport: PrintTransport, job: PrintJob, onStatus?: PrintStatusCallback) {
+  const total = job.data.length;
+  let sent = 0;
+  const report = (event: PrintJobEvent) => {
+    sent = event.sent;
+    onStatus?.(event);
+  };
+
+  try {
+    if (!transport.connected) {
+      report({ status: 'connecting', sent, total });
+      await transport.connect();
+    }
+    await transport.send(job, report);
+    report({ status: 'sent', sent: total, total });
+  } catch (e) {
+    const error = e instanceof PrintTransportError
+      ? e
+      : new PrintTransportError(`Printing with ${transport.name} failed.`, { cause: e });
+    report({ status: 'failed', sent, total, message: error.message });
+    throw error;
+  }
+}
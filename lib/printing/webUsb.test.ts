@@ -0,0 +1,177 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PrintTransportError } from './transport.js';
+import { WebUsbTransport } from './webUsb.js';
+
+interface FakeEndpoint {
+  endpointNumber: number;
+  direction: USBDirection;
+  type: USBEndpointType;
+}
+
+interface FakeInterface {
+  interfaceNumber: number;
+  interfaceClass: number;
+  endpoints: FakeEndpoint[];
+}
+
+/**
+ * USB device with one configuration, writing at most maxWrite bytes per transfer
+ */
+function fakeDevice(interfaces: FakeInterface[], options: { maxWrite?: number; stallAfter?: number } = {}) {
+  const written: number[][] = [];
+  const usbInterfaces = interfaces.map(i => {
+    const alternate = {
+      alternateSetting: 0,
+      interfaceClass: i.interfaceClass,
+      endpoints: i.endpoints,
+    };
+    return { interfaceNumber: i.interfaceNumber, claimed: false, alternate, alternates: [alternate] };
+  });
+  const configuration = { configurationValue: 1, interfaces: usbInterfaces };
+  const device = {
+    productName: 'Fake printer',
+    opened: false,
+    configuration: null as typeof configuration | null,
+    open: vi.fn(async () => { device.opened = true; }),
+    close: vi.fn(async () => { device.opened = false; }),
+    selectConfiguration: vi.fn(async () => { device.configuration = configuration; }),
+    claimInterface: vi.fn(async (n: number) => {
+      usbInterfaces.find(i => i.interfaceNumber === n)!.claimed = true;
+    }),
+    releaseInterface: vi.fn(async () => undefined),
+    selectAlternateInterface: vi.fn(async () => undefined),
+    clearHalt: vi.fn(async () => undefined),
+    transferOut: vi.fn(async (_endpointNumber: number, data: Uint8Array) => {
+      if (options.stallAfter !== undefined && written.length >= options.stallAfter) {
+        return { status: 'stall', bytesWritten: 0 };
+      }
+      const bytes = Array.from(data.subarray(0, options.maxWrite ?? data.length));
+      written.push(bytes);
+      return { status: 'ok', bytesWritten: bytes.length };
+    }),
+  };
+  return { device, written, usbDevice: device as unknown as USBDevice };
+}
+
+const hid: FakeInterface = {
+  interfaceNumber: 0,
+  interfaceClass: 3,
+  endpoints: [{ endpointNumber: 1, direction: 'out', type: 'interrupt' }],
+};
+const vendor: FakeInterface = {
+  interfaceNumber: 1,
+  interfaceClass: 255,
+  endpoints: [{ endpointNumber: 3, direction: 'out', type: 'bulk' }],
+};
+const printer: FakeInterface = {
+  interfaceNumber: 2,
+  interfaceClass: 7,
+  endpoints: [
+    { endpointNumber: 4, direction: 'in', type: 'bulk' },
+    { endpointNumber: 5, direction: 'out', type: 'bulk' },
+  ],
+};
+
+const bytes = (n: number) => Uint8Array.from({ length: n }, (_, i) => i);
+
+describe('WebUsbTransport', () => {
+  it('opens the device and claims the printer class interface first', async () => {
+    const { device, usbDevice } = fakeDevice([hid, vendor, printer]);
+    const transport = new WebUsbTransport({ device: usbDevice });
+    await transport.connect();
+
+    expect(transport.connected).toBe(true);
+    expect(device.open).toHaveBeenCalled();
+    expect(device.selectConfiguration).toHaveBeenCalledWith(1);
+    expect(device.claimInterface).toHaveBeenCalledWith(2);
+
+    await transport.send({ data: bytes(3), fileName: 'label.zpl' });
+    expect(device.transferOut).toHaveBeenCalledWith(5, expect.any(Uint8Array));
+  });
+
+  it('falls back to any interface with a bulk out endpoint', async () => {
+    const { device, usbDevice } = fakeDevice([hid, vendor]);
+    const transport = new WebUsbTransport({ device: usbDevice });
+    await transport.connect();
+    await transport.send({ data: bytes(3), fileName: 'label.zpl' });
+
+    expect(device.claimInterface).toHaveBeenCalledWith(1);
+    expect(device.transferOut).toHaveBeenCalledWith(3, expect.any(Uint8Array));
+  });
+
+  it('fails to connect to a device without a bulk out endpoint', async () => {
+    const { usbDevice } = fakeDevice([hid]);
+    const transport = new WebUsbTransport({ device: usbDevice });
+
+    await expect(transport.connect()).rejects.toThrow('Fake printer has no bulk out endpoint.');
+    expect(transport.connected).toBe(false);
+  });
+
+  it('asks for a device with the printer filters', async () => {
+    const { usbDevice } = fakeDevice([printer]);
+    const requestDevice = vi.fn(async () => usbDevice);
+    const transport = new WebUsbTransport({ usb: { requestDevice } });
+    await transport.connect();
+
+    expect(requestDevice).toHaveBeenCalledWith({ filters: [{ classCode: 7 }, { vendorId: 0x0a5f }] });
+    expect(transport.getDevice()).toBe(usbDevice);
+  });
+
+  it('reports a dismissed chooser', async () => {
+    const requestDevice = vi.fn(async () => { throw new DOMException('No device selected.', 'NotFoundError'); });
+    const transport = new WebUsbTransport({ usb: { requestDevice } });
+
+    await expect(transport.connect()).rejects.toThrow('No USB printer was selected.');
+  });
+
+  it('writes in chunks and reports the progress', async () => {
+    const { written, usbDevice } = fakeDevice([printer]);
+    const transport = new WebUsbTransport({ device: usbDevice, chunkSize: 4 });
+    await transport.connect();
+
+    const sent: number[] = [];
+    await transport.send({ data: bytes(10), fileName: 'label.zpl' }, e => sent.push(e.sent));
+
+    expect(written).toEqual([[0, 1, 2, 3], [4, 5, 6, 7], [8, 9]]);
+    expect(sent).toEqual([0, 4, 8, 10]);
+  });
+
+  it('continues after a partial write', async () => {
+    const { written, usbDevice } = fakeDevice([printer], { maxWrite: 3 });
+    const transport = new WebUsbTransport({ device: usbDevice, chunkSize: 4 });
+    await transport.connect();
+    await transport.send({ data: bytes(8), fileName: 'label.zpl' });
+
+    expect(written).toEqual([[0, 1, 2], [3, 4, 5], [6, 7]]);
+  });
+
+  it('clears a stalled endpoint and fails', async () => {
+    const { device, usbDevice } = fakeDevice([printer], { stallAfter: 1 });
+    const transport = new WebUsbTransport({ device: usbDevice, chunkSize: 4 });
+    await transport.connect();
+
+    const error = await transport.send({ data: bytes(10), fileName: 'label.zpl' }).catch(e => e);
+    expect(error).toBeInstanceOf(PrintTransportError);
+    expect(error.message).toBe('The USB printer stopped accepting data.');
+    expect(device.clearHalt).toHaveBeenCalledWith('out', 5);
+  });
+
+  it('refuses to send before connecting', async () => {
+    const { usbDevice } = fakeDevice([printer]);
+    const transport = new WebUsbTransport({ device: usbDevice });
+
+    await expect(transport.send({ data: bytes(1), fileName: 'label.zpl' }))
+      .rejects.toThrow('The USB printer is not connected.');
+  });
+
+  it('releases the interface on disconnect', async () => {
+    const { device, usbDevice } = fakeDevice([printer]);
+    const transport = new WebUsbTransport({ device: usbDevice });
+    await transport.connect();
+    await transport.disconnect();
+
+    expect(device.releaseInterface).toHaveBeenCalledWith(2);
+    expect(device.close).toHaveBeenCalled();
+    expect(transport.connected).toBe(false);
+  });
+});
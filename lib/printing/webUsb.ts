@@ -0,0 +1,164 @@
+/**
+ * Define printing to USB printers with WebUSB
+ */
+
+import { PrintTransportError, type PrintJob, type PrintStatusCallback, type PrintTransport } from './transport.js';
+
+/** USB interface class of printers. */
+const printerClass = 7;
+
+export interface WebUsbTransportOptions {
+  /** Devices offered in the browser's printer chooser, printers and Zebra devices by default. */
+  filters?: USBDeviceFilter[];
+  /** Bytes per bulk transfer. */
+  chunkSize?: number;
+  /** Device to print to, skips the chooser. */
+  device?: USBDevice;
+  /** WebUSB entry point, navigator.usb by default. */
+  usb?: Pick<USB, 'requestDevice'>;
+}
+
+/**
+ * Find an interface with a bulk out endpoint, printer class interfaces first
+ */
+function findBulkOut(configuration: USBConfiguration) {
+  const candidates = configuration.interfaces.flatMap(usbInterface =>
+    usbInterface.alternates.map(alternate => ({ usbInterface, alternate })));
+  candidates.sort((a, b) =>
+    Number(b.alternate.interfaceClass === printerClass) - Number(a.alternate.interfaceClass === printerClass));
+
+  for (const { usbInterface, alternate } of candidates) {
+    const endpoint = alternate.endpoints.find(e => e.direction === 'out' && e.type === 'bulk');
+    if (endpoint !== undefined) {
+      return { usbInterface, alternate, endpoint };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Print to a USB printer by writing to its bulk out endpoint
+ */
+export class WebUsbTransport implements PrintTransport {
+  readonly name = 'USB';
+  private readonly filters: USBDeviceFilter[];
+  private readonly chunkSize: number;
+  private readonly usb: Pick<USB, 'requestDevice'> | undefined;
+  private device: USBDevice | undefined;
+  private interfaceNumber: number | undefined;
+  private endpointNumber: number | undefined;
+
+  constructor(options: WebUsbTransportOptions = {}) {
+    this.filters = options.filters ?? [{ classCode: printerClass }, { vendorId: 0x0a5f }];
+    this.chunkSize = options.chunkSize ?? 16384;
+    this.device = options.device;
+    this.usb = options.usb ?? (typeof navigator === 'undefined' ? undefined : navigator.usb);
+  }
+
+  /**
+   * Check whether the browser supports WebUSB
+   */
+  static isSupported() {
+    return typeof navigator !== 'undefined' && navigator.usb !== undefined;
+  }
+
+  get connected() {
+    return this.device?.opened === true && this.endpointNumber !== undefined;
+  }
+
+  /**
+   * Get the printer, once one was chosen
+   */
+  getDevice(): USBDevice | undefined {
+    return this.device;
+  }
+
+  async connect() {
+    if (this.device === undefined) {
+      if (this.usb === undefined) {
+        throw new PrintTransportError('This browser does not support WebUSB.');
+      }
+      try {
+        this.device = await this.usb.requestDevice({ filters: this.filters });
+      } catch (e) {
+        throw new PrintTransportError('No USB printer was selected.', { cause: e });
+      }
+    }
+
+    const device = this.device;
+    try {
+      if (!device.opened) {
+        await device.open();
+      }
+      if (!device.configuration) {
+        await device.selectConfiguration(1);
+      }
+      const bulkOut = device.configuration ? findBulkOut(device.configuration) : undefined;
+      if (bulkOut === undefined) {
+        throw new PrintTransportError(`${device.productName ?? 'The USB device'} has no bulk out endpoint.`);
+      }
+
+      const { usbInterface, alternate, endpoint } = bulkOut;
+      if (!usbInterface.claimed) {
+        await device.claimInterface(usbInterface.interfaceNumber);
+      }
+      if (usbInterface.alternate.alternateSetting !== alternate.alternateSetting) {
+        await device.selectAlternateInterface(usbInterface.interfaceNumber, alternate.alternateSetting);
+      }
+      this.interfaceNumber = usbInterface.interfaceNumber;
+      this.endpointNumber = endpoint.endpointNumber;
+    } catch (e) {
+      if (e instanceof PrintTransportError) { throw e; }
+      throw new PrintTransportError(
+        `${device.productName ?? 'The USB printer'} can't be opened, it may be in use by another driver.`,
+        { cause: e }
+      );
+    }
+  }
+
+  async send(job: PrintJob, onStatus?: PrintStatusCallback) {
+    const { data } = job;
+    const device = this.device;
+    const endpointNumber = this.endpointNumber;
+    if (device === undefined || endpointNumber === undefined || !this.connected) {
+      throw new PrintTransportError('The USB printer is not connected.');
+    }
+
+    let sent = 0;
+    onStatus?.({ status: 'sending', sent, total: data.length });
+    while (sent < data.length) {
+      const chunk = data.subarray(sent, Math.min(sent + this.chunkSize, data.length));
+      let result: USBOutTransferResult;
+      try {
+        result = await device.transferOut(endpointNumber, chunk);
+      } catch (e) {
+        throw new PrintTransportError('Sending to the USB printer failed.', { cause: e });
+      }
+      if (result.status === 'stall') {
+        await device.clearHalt('out', endpointNumber).catch(() => undefined);
+        throw new PrintTransportError('The USB printer stopped accepting data.');
+      }
+      if (result.status !== 'ok' || result.bytesWritten === 0) {
+        throw new PrintTransportError('Sending to the USB printer failed.');
+      }
+      sent += result.bytesWritten;
+      onStatus?.({ status: 'sending', sent, total: data.length });
+    }
+  }
+
+  async disconnect() {
+    const device = this.device;
+    if (device === undefined || !device.opened) { return; }
+    try {
+      if (this.interfaceNumber !== undefined) {
+        await device.releaseInterface(this.interfaceNumber);
+      }
+      await device.close();
+    } catch (e) {
+      throw new PrintTransportError('The USB printer could not be closed.', { cause: e });
+    } finally {
+      this.interfaceNumber = undefined;
+      this.endpointNumber = undefined;
+    }
+  }
+}
@@ -10,11 +10,13 @@ export class SaveInBrowser {
 
     localStorage.setItem(name, value);
   }
-  public static load(name: string) {
-    let value = localStorage.getItem(name) ?? '{}';
-    value = JSON.parse(value);
-
-    return value;
+  /**
+   * Read a saved value
+   * @returns {unknown} the parsed JSON, undefined when nothing is saved under the name
+   */
+  public static load(name: string): unknown {
+    const value = localStorage.getItem(name);
+    return value === null ? undefined : JSON.parse(value);
   }
 
   public static remove(name: string) {
@@ -0,0 +1,81 @@
+/**
+ * Define where the editor saves documents and the errors storing them raises
+ */
+
+export class DocumentStorageError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'DocumentStorageError';
+  }
+}
+
+/** The browser or server refused to store more data. */
+export class StorageQuotaError extends DocumentStorageError {
+  constructor(message = 'The storage is full, delete labels you no longer need and try again.', options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/** The document was saved elsewhere since it was opened. */
+export class DocumentConflictError extends DocumentStorageError {
+  constructor(message = 'The label was changed elsewhere since it was opened.', options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'DocumentConflictError';
+  }
+}
+
+/** A saved document without its content, for listing. */
+export interface DocumentInfo {
+  id: string;
+  name: string;
+  /** Milliseconds since 1970. */
+  created: number;
+  modified: number;
+  /** Changes on every save, e.g. an HTTP ETag. */
+  revision: string;
+  /** Image data URL of the label. */
+  thumbnail?: string;
+}
+
+/**
+ * Order document infos as list() returns them: the most recently modified first, then the most recently created,
+ * ties by id so documents saved in the same millisecond keep their order
+ */
+export function compareDocumentInfos(a: DocumentInfo, b: DocumentInfo) {
+  return b.modified - a.modified || b.created - a.created || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+}
+
+export interface StoredDocument extends DocumentInfo {
+  /** The document as the editor saves it. */
+  document: Record<string, unknown>;
+}
+
+export interface DocumentSaveOptions {
+  /** Image data URL of the label. */
+  thumbnail?: string;
+  /** Revision the changes were made to, another stored revision is a conflict. Undefined overwrites. */
+  revision?: string;
+}
+
+/**
+ * A place to save named documents, e.g. the browser or a server
+ */
+export interface DocumentStorage {
+  /** List the saved documents, the most recently modified first. */
+  list(): Promise<DocumentInfo[]>;
+  load(id: string): Promise<StoredDocument>;
+  create(name: string, document: Record<string, unknown>, thumbnail?: string): Promise<DocumentInfo>;
+  /**
+   * Replace the content of a document
+   * @throws {DocumentConflictError} when the stored revision isn't the given one
+   */
+  save(id: string, document: Record<string, unknown>, options?: DocumentSaveOptions): Promise<DocumentInfo>;
+  /** Rename a document, its content and modified time are kept. */
+  rename(id: string, name: string): Promise<DocumentInfo>;
+  /** Save a copy, named after the original with "copy" by default. */
+  duplicate(id: string, name?: string): Promise<DocumentInfo>;
+  delete(id: string): Promise<void>;
+  /** Used and available bytes, when the storage can tell. */
+  estimate?(): Promise<{ usage: number; quota: number } | undefined>;
+}
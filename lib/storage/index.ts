@@ -0,0 +1,4 @@
+export * from './documents.js';
+export * from './indexedDb.js';
+export * from './localStorage.js';
+export * from './rest.js';
@@ -0,0 +1,79 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentConflictError, DocumentStorageError } from './documents.js';
+import { IndexedDbStore } from './indexedDb.js';
+
+let databases = 0;
+const newStore = () => new IndexedDbStore(`labels-${++databases}`);
+
+beforeEach(() => {
+  // only Date, fake-indexeddb answers on real timers
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(1000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('IndexedDbStore', () => {
+  it('saves over the revision it was given and counts it up', async () => {
+    const store = newStore();
+    const created = await store.create('Shipping', { formatVersion: 2, fields: [] }, 'data:image/png;base64,');
+    expect(created.revision).toBe('1');
+
+    const saved = await store.save(created.id, { formatVersion: 2, fields: ['a'] }, { revision: '1' });
+    expect(saved.revision).toBe('2');
+    expect(saved.created).toBe(created.created);
+
+    const loaded = await store.load(created.id);
+    expect(loaded).toMatchObject({ name: 'Shipping', revision: '2', document: { fields: ['a'] } });
+  });
+
+  it('rejects a stale revision and keeps the stored document', async () => {
+    const store = newStore();
+    const { id } = await store.create('Shipping', { version: 'first' });
+    await store.save(id, { version: 'second' }, { revision: '1' });
+
+    await expect(store.save(id, { version: 'stale' }, { revision: '1' })).rejects.toBeInstanceOf(DocumentConflictError);
+    expect(await store.load(id)).toMatchObject({ revision: '2', document: { version: 'second' } });
+  });
+
+  it('overwrites any revision when none is given', async () => {
+    const store = newStore();
+    const { id } = await store.create('Shipping', { version: 'first' });
+    await store.save(id, { version: 'second' });
+
+    expect(await store.save(id, { version: 'forced' })).toMatchObject({ revision: '3' });
+  });
+
+  it('lists, renames, duplicates and deletes', async () => {
+    const store = newStore();
+    const first = await store.create('First', { n: 1 });
+    const second = await store.create('Second', { n: 2 });
+    vi.setSystemTime(2000);
+    await store.save(first.id, { n: 1 });
+
+    expect((await store.list()).map(i => i.name)).toEqual(['First', 'Second']);
+    vi.setSystemTime(3000);
+    await store.rename(second.id, 'Renamed');
+    const copy = await store.duplicate(first.id);
+    expect(copy.name).toBe('First copy');
+    expect((await store.load(copy.id)).document).toEqual({ n: 1 });
+
+    await store.delete(first.id);
+    await expect(store.load(first.id)).rejects.toBeInstanceOf(DocumentStorageError);
+    expect((await store.list()).map(i => i.name)).toEqual(['First copy', 'Renamed']);
+  });
+
+  it('lists documents saved in the same millisecond by creation, then id', async () => {
+    const store = newStore();
+    const older = await store.create('Older', {});
+    vi.setSystemTime(2000);
+    const [a, b] = await Promise.all([store.create('A', {}), store.create('B', {})]);
+    await store.save(older.id, {});
+
+    const ids = [a.id, b.id].sort();
+    expect((await store.list()).map(i => i.id)).toEqual([...ids, older.id]);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Define a document store in the browser's IndexedDB
+ */
+
+import {
+  compareDocumentInfos,
+  DocumentConflictError,
+  DocumentStorageError,
+  StorageQuotaError,
+  type DocumentInfo,
+  type DocumentSaveOptions,
+  type DocumentStorage,
+  type StoredDocument,
+} from './documents.js';
+
+/** Object stores: document infos for listing, and the contents that are only read when opening. */
+const infoStore = 'info';
+const contentStore = 'documents';
+
+/**
+ * Wrap an IndexedDB error, a full storage raises a StorageQuotaError
+ */
+function storageError(error: DOMException | null, action: string) {
+  if (error?.name === 'QuotaExceededError') {
+    return new StorageQuotaError(undefined, { cause: error });
+  }
+  return new DocumentStorageError(`The label could not be ${action}: ${error?.message ?? 'unknown error'}`, { cause: error });
+}
+
+/**
+ * Keep named documents in IndexedDB, each with its created and modified time and a thumbnail
+ */
+export class IndexedDbStore implements DocumentStorage {
+  private database: Promise<IDBDatabase> | undefined;
+
+  /**
+   * @param {String} name name of the IndexedDB database
+   */
+  public constructor(public readonly name = 'label-editor') { }
+
+  /**
+   * Check whether the browser has IndexedDB
+   */
+  public static isSupported() {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  private open() {
+    this.database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(this.name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(infoStore, { keyPath: 'id' });
+        request.result.createObjectStore(contentStore, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        this.database = undefined;
+        reject(storageError(request.error, 'opened'));
+      };
+    });
+    return this.database;
+  }
+
+  /**
+   * Run requests in one transaction
+   * @param {String} mode readonly or readwrite
+   * @param {Function} fn makes the requests, its result is returned once the transaction completes
+   * @param {String} action what is done, for error messages
+   */
+  private async transaction<T>(
+    mode: IDBTransactionMode,
+    fn: (info: IDBObjectStore, content: IDBObjectStore) => Promise<T> | T,
+    action: string,
+  ): Promise<T> {
+    const db = await this.open();
+    const tx = db.transaction([infoStore, contentStore], mode);
+    const done = new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onabort = () => reject(storageError(tx.error, action));
+      tx.onerror = () => reject(storageError(tx.error, action));
+    });
+    try {
+      const result = await fn(tx.objectStore(infoStore), tx.objectStore(contentStore));
+      await done;
+      return result;
+    } catch (e) {
+      // the transaction error says more, e.g. that the quota is exceeded
+      await done;
+      throw e;
+    }
+  }
+
+  private static request<T>(request: IDBRequest<T>) {
+    return new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private static async getInfo(info: IDBObjectStore, id: string): Promise<DocumentInfo> {
+    const found = await IndexedDbStore.request<DocumentInfo | undefined>(info.get(id));
+    if (found === undefined) {
+      throw new DocumentStorageError(`There is no saved label with id ${id}.`);
+    }
+    // labels saved before revisions were kept start at the first
+    return { ...found, revision: found.revision ?? '1' };
+  }
+
+  /**
+   * List the saved documents, the most recently modified first
+   */
+  public async list(): Promise<DocumentInfo[]> {
+    const infos = await this.transaction('readonly',
+      info => IndexedDbStore.request<DocumentInfo[]>(info.getAll()), 'listed');
+    return infos.sort(compareDocumentInfos);
+  }
+
+  /**
+   * Read a document
+   * @param {String} id id from list()
+   */
+  public load(id: string): Promise<StoredDocument> {
+    return this.transaction('readonly', async (info, content) => {
+      const found = await IndexedDbStore.getInfo(info, id);
+      const stored = await IndexedDbStore.request<{ document: Record<string, unknown> } | undefined>(content.get(id));
+      return { ...found, document: stored?.document ?? {} };
+    }, 'opened');
+  }
+
+  /**
+   * Save a new document
+   * @param {String} name name shown in the document list
+   * @param {Object} document the document as the editor saves it
+   * @param {String} thumbnail image data URL of the label
+   * @throws {StorageQuotaError} when the browser storage is full
+   */
+  public create(name: string, document: Record<string, unknown>, thumbnail?: string): Promise<DocumentInfo> {
+    const now = Date.now();
+    const created: DocumentInfo = { id: crypto.randomUUID(), name, created: now, modified: now, revision: '1', thumbnail };
+    return this.transaction('readwrite', (info, content) => {
+      info.add(created);
+      content.add({ id: created.id, document });
+      return created;
+    }, 'saved');
+  }
+
+  /**
+   * Replace the content of a document
+   * @param {String} id id from list()
+   * @param {Object} document the document as the editor saves it
+   * @param {Object} options thumbnail, and the revision the changes were made to
+   * @throws {DocumentConflictError} when another tab saved the document since
+   * @throws {StorageQuotaError} when the browser storage is full
+   */
+  public save(id: string, document: Record<string, unknown>, options: DocumentSaveOptions = {}): Promise<DocumentInfo> {
+    return this.transaction('readwrite', async (info, content) => {
+      const stored = await IndexedDbStore.getInfo(info, id);
+      if (options.revision !== undefined && options.revision !== stored.revision) {
+        throw new DocumentConflictError();
+      }
+      const saved: DocumentInfo = {
+        ...stored,
+        modified: Date.now(),
+        revision: (Number(stored.revision) + 1).toString(),
+        thumbnail: options.thumbnail,
+      };
+      info.put(saved);
+      content.put({ id, document });
+      return saved;
+    }, 'saved');
+  }
+
+  /**
+   * Rename a document, its modified time is kept
+   * @param {String} id id from list()
+   * @param {String} name new name
+   */
+  public rename(id: string, name: string): Promise<DocumentInfo> {
+    return this.transaction('readwrite', async info => {
+      const renamed = { ...await IndexedDbStore.getInfo(info, id), name };
+      info.put(renamed);
+      return renamed;
+    }, 'renamed');
+  }
+
+  /**
+   * Save a copy of a document
+   * @param {String} id id from list()
+   * @param {String} name name of the copy, the original name with "copy" by default
+   * @throws {StorageQuotaError} when the browser storage is full
+   */
+  public async duplicate(id: string, name?: string): Promise<DocumentInfo> {
+    const original = await this.load(id);
+    return this.create(name ?? `${original.name} copy`, original.document, original.thumbnail);
+  }
+
+  /**
+   * Delete a document
+   * @param {String} id id from list()
+   */
+  public delete(id: string): Promise<void> {
+    return this.transaction('readwrite', (info, content) => {
+      info.delete(id);
+      content.delete(id);
+    }, 'deleted');
+  }
+
+  /**
+   * Get how much of the browser storage is used, undefined when the browser doesn't tell
+   * @returns {Object} used and available bytes
+   */
+  public async estimate() {
+    const estimate = await navigator.storage?.estimate?.();
+    if (estimate?.usage === undefined || estimate.quota === undefined) { return undefined; }
+    return { usage: estimate.usage, quota: estimate.quota };
+  }
+}
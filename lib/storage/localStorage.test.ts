@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentConflictError, StorageQuotaError } from './documents.js';
+import { LocalStorageStore } from './localStorage.js';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/**
+ * Make localStorage refuse writes larger than a number of characters, as a full browser storage does
+ */
+function limitStorage(characters: number) {
+  const storage = localStorage;
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.getItem(key),
+    removeItem: (key: string) => storage.removeItem(key),
+    setItem(key: string, value: string) {
+      if (value.length > characters) {
+        throw new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+      }
+      storage.setItem(key, value);
+    },
+  });
+}
+
+describe('LocalStorageStore', () => {
+  it('reports a full storage as a StorageQuotaError and keeps the list as it was', async () => {
+    const store = new LocalStorageStore('test');
+    await store.create('Small', { text: 'a' });
+    limitStorage(1000);
+
+    await expect(store.create('Large', { image: 'x'.repeat(2000) })).rejects.toBeInstanceOf(StorageQuotaError);
+    expect((await store.list()).map(i => i.name)).toEqual(['Small']);
+  });
+
+  it('reports a full storage when saving and keeps the saved document', async () => {
+    const store = new LocalStorageStore('test');
+    const { id } = await store.create('Label', { text: 'a' });
+    limitStorage(1000);
+
+    await expect(store.save(id, { image: 'x'.repeat(2000) }, { revision: '1' })).rejects.toBeInstanceOf(StorageQuotaError);
+    expect(await store.load(id)).toMatchObject({ revision: '1', document: { text: 'a' } });
+  });
+
+  it('rejects a stale revision', async () => {
+    const store = new LocalStorageStore('test');
+    const { id } = await store.create('Label', { version: 1 });
+    await store.save(id, { version: 2 }, { revision: '1' });
+
+    await expect(store.save(id, { version: 3 }, { revision: '1' })).rejects.toBeInstanceOf(DocumentConflictError);
+    expect((await store.load(id)).document).toEqual({ version: 2 });
+  });
+});
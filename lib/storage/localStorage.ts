@@ -0,0 +1,119 @@
+/**
+ * Define a document store in the browser's localStorage, for small labels where IndexedDB is unavailable
+ */
+
+import {
+  compareDocumentInfos,
+  DocumentConflictError,
+  DocumentStorageError,
+  StorageQuotaError,
+  type DocumentInfo,
+  type DocumentSaveOptions,
+  type DocumentStorage,
+  type StoredDocument,
+} from './documents.js';
+
+/**
+ * Keep named documents in localStorage, an index of document infos and one item per document.
+ * localStorage holds about 5 MB, embedded images fill it quickly.
+ */
+export class LocalStorageStore implements DocumentStorage {
+  /**
+   * @param {String} prefix start of the localStorage keys, the index is prefix:index
+   */
+  public constructor(public readonly prefix = 'label-editor') { }
+
+  private get indexKey() {
+    return `${this.prefix}:index`;
+  }
+
+  private documentKey(id: string) {
+    return `${this.prefix}:document:${id}`;
+  }
+
+  private readIndex(): DocumentInfo[] {
+    try {
+      const index = JSON.parse(localStorage.getItem(this.indexKey) ?? '[]');
+      return Array.isArray(index) ? index : [];
+    } catch (e) {
+      throw new DocumentStorageError('The list of saved labels is damaged.', { cause: e });
+    }
+  }
+
+  /**
+   * Write items, a full storage raises a StorageQuotaError
+   */
+  private write(items: Record<string, string>) {
+    try {
+      Object.entries(items).forEach(([key, value]) => localStorage.setItem(key, value));
+    } catch (e) {
+      if (e instanceof DOMException && e.name === 'QuotaExceededError') {
+        throw new StorageQuotaError(undefined, { cause: e });
+      }
+      throw new DocumentStorageError(`The label could not be saved: ${(e as Error).message}`, { cause: e });
+    }
+  }
+
+  private getInfo(id: string) {
+    const found = this.readIndex().find(info => info.id === id);
+    if (found === undefined) {
+      throw new DocumentStorageError(`There is no saved label with id ${id}.`);
+    }
+    return found;
+  }
+
+  /**
+   * Replace or add a document info in the index
+   */
+  private putInfo(info: DocumentInfo) {
+    return JSON.stringify([...this.readIndex().filter(i => i.id !== info.id), info]);
+  }
+
+  public async list() {
+    return this.readIndex().sort(compareDocumentInfos);
+  }
+
+  public async load(id: string): Promise<StoredDocument> {
+    const info = this.getInfo(id);
+    const document = JSON.parse(localStorage.getItem(this.documentKey(id)) ?? '{}');
+    return { ...info, document };
+  }
+
+  public async create(name: string, document: Record<string, unknown>, thumbnail?: string) {
+    const now = Date.now();
+    const created: DocumentInfo = { id: crypto.randomUUID(), name, created: now, modified: now, revision: '1', thumbnail };
+    this.write({ [this.documentKey(created.id)]: JSON.stringify(document), [this.indexKey]: this.putInfo(created) });
+    return created;
+  }
+
+  public async save(id: string, document: Record<string, unknown>, options: DocumentSaveOptions = {}) {
+    const stored = this.getInfo(id);
+    if (options.revision !== undefined && options.revision !== stored.revision) {
+      throw new DocumentConflictError();
+    }
+    const saved: DocumentInfo = {
+      ...stored,
+      modified: Date.now(),
+      revision: (Number(stored.revision) + 1).toString(),
+      thumbnail: options.thumbnail,
+    };
+    this.write({ [this.documentKey(id)]: JSON.stringify(document), [this.indexKey]: this.putInfo(saved) });
+    return saved;
+  }
+
+  public async rename(id: string, name: string) {
+    const renamed = { ...this.getInfo(id), name };
+    this.write({ [this.indexKey]: this.putInfo(renamed) });
+    return renamed;
+  }
+
+  public async duplicate(id: string, name?: string) {
+    const { document, ...original } = await this.load(id);
+    return this.create(name ?? `${original.name} copy`, document, original.thumbnail);
+  }
+
+  public async delete(id: string) {
+    localStorage.removeItem(this.documentKey(id));
+    this.write({ [this.indexKey]: JSON.stringify(this.readIndex().filter(info => info.id !== id)) });
+  }
+}
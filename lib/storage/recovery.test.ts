@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RecoveryCopy } from './recovery.js';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  localStorage.clear();
+});
+
+describe('RecoveryCopy', () => {
+  it('reports whether the copy was written', () => {
+    const onWrite = vi.fn();
+    const recovery = new RecoveryCopy('test:recovery', 0, onWrite);
+
+    recovery.schedule(() => ({ documentId: 'a1', document: { formatVersion: 2 } }));
+    recovery.flush();
+    expect(onWrite).toHaveBeenLastCalledWith(undefined);
+    expect(recovery.load()).toMatchObject({ documentId: 'a1', document: { formatVersion: 2 } });
+
+    vi.stubGlobal('localStorage', {
+      setItem() { throw new DOMException('The quota has been exceeded.', 'QuotaExceededError'); },
+    });
+    recovery.schedule(() => ({ documentId: 'a1', document: { formatVersion: 2 } }));
+    recovery.flush();
+    expect(onWrite).toHaveBeenLastCalledWith(expect.objectContaining({ name: 'QuotaExceededError' }));
+  });
+
+  it('writes nothing when no copy is scheduled', () => {
+    const onWrite = vi.fn();
+    new RecoveryCopy('test:recovery', 0, onWrite).flush();
+    expect(onWrite).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Define the recovery copy of unsaved work, kept in localStorage so it survives a crash
+ */
+
+/** Milliseconds to wait after the last change before writing the recovery copy. */
+export const autosaveDelay = 2000;
+
+export interface RecoveredWork {
+  /** Milliseconds since 1970 the copy was written. */
+  time: number;
+  /** Id of the saved label the work started from, undefined for a label never saved. */
+  documentId: string | undefined;
+  document: Record<string, unknown>;
+}
+
+/**
+ * Write a copy of the document a while after it changes, rapid changes are written once
+ */
+export class RecoveryCopy {
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private pending: (() => Omit<RecoveredWork, 'time'>) | undefined;
+
+  /**
+   * @param {String} key localStorage key of the copy
+   * @param {Number} delay milliseconds to wait after the last change
+   * @param {Function} onWrite called after each write with the error, or undefined when the copy was written
+   */
+  public constructor(
+    public readonly key: string,
+    private readonly delay = autosaveDelay,
+    private readonly onWrite?: (error: Error | undefined) => void,
+  ) { }
+
+  /**
+   * Write the copy once changes stop
+   * @param {Function} read gets the document when the copy is written, not on every change
+   */
+  public schedule(read: () => Omit<RecoveredWork, 'time'>) {
+    this.pending = read;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.delay);
+  }
+
+  /**
+   * Write a scheduled copy now, e.g. when the page is closed
+   */
+  public flush() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    const read = this.pending;
+    this.pending = undefined;
+    if (read === undefined) { return; }
+
+    let error: Error | undefined;
+    try {
+      localStorage.setItem(this.key, JSON.stringify({ ...read(), time: Date.now() }));
+    } catch (e) {
+      // a full storage only costs the recovery copy, the editor keeps working
+      error = e instanceof Error ? e : new Error(String(e));
+    }
+    this.onWrite?.(error);
+  }
+
+  /**
+   * Drop the scheduled copy, the written one is kept
+   */
+  public cancel() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.pending = undefined;
+  }
+
+  /**
+   * Read the written copy
+   * @returns {Object} undefined when there is none or it can't be read
+   */
+  public load(): RecoveredWork | undefined {
+    try {
+      const saved = JSON.parse(localStorage.getItem(this.key) ?? 'null');
+      return typeof saved?.time === 'number' && typeof saved.document === 'object' ? saved : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Drop the scheduled and the written copy, once the work is saved or discarded
+   */
+  public clear() {
+    this.cancel();
+    try {
+      localStorage.removeItem(this.key);
+    } catch {
+      // nothing to clear without localStorage
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DocumentConflictError, DocumentStorageError, StorageQuotaError } from './documents.js';
+import { RestStore } from './rest.js';
+
+const info = { id: 'a1', name: 'Shipping', created: 1000, modified: 2000 };
+
+/**
+ * Stub fetch with answers in order, recording the requests
+ */
+function stubFetch(...answers: (() => Response)[]) {
+  const fetch = vi.fn(async (_url: string, _init?: RequestInit) => answers.shift()!());
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+const json = (body: unknown, init: ResponseInit = {}) =>
+  () => new Response(JSON.stringify(body), { ...init, headers: { 'Content-Type': 'application/json', ...init.headers } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('RestStore', () => {
+  it('sends the ETag it loaded as If-Match and keeps the new one', async () => {
+    const fetch = stubFetch(
+      json({ ...info, document: { formatVersion: 2 } }, { headers: { ETag: '"r1"' } }),
+      json(info, { headers: { ETag: '"r2"' } }),
+    );
+    const store = new RestStore({ url: 'https://example.com/api/labels/', headers: { Authorization: 'Bearer t' } });
+
+    const loaded = await store.load('a1');
+    expect(loaded).toEqual({ ...info, revision: '"r1"', document: { formatVersion: 2 } });
+
+    const saved = await store.save('a1', { formatVersion: 2 }, { revision: loaded.revision });
+    expect(saved.revision).toBe('"r2"');
+
+    const [url, init] = fetch.mock.calls[1];
+    expect(url).toBe('https://example.com/api/labels/a1');
+    expect(init?.method).toBe('PUT');
+    expect(init?.headers).toMatchObject({ 'If-Match': '"r1"', Authorization: 'Bearer t' });
+    expect(JSON.parse(init?.body as string)).toEqual({ document: { formatVersion: 2 } });
+  });
+
+  it('overwrites without If-Match when no revision is given', async () => {
+    const fetch = stubFetch(json(info, { headers: { ETag: '"r2"' } }));
+    await new RestStore({ url: 'https://example.com/api/labels' }).save('a1', {});
+
+    expect(fetch.mock.calls[0][1]?.headers).not.toHaveProperty('If-Match');
+  });
+
+  it('uses the revision property when there is no ETag', async () => {
+    stubFetch(json([{ ...info, revision: 3 }, { ...info, id: 'b2', modified: 3000, revision: 'x' }]));
+    const list = await new RestStore({ url: 'https://example.com/api/labels' }).list();
+
+    expect(list.map(i => [i.id, i.revision])).toEqual([['b2', 'x'], ['a1', '3']]);
+  });
+
+  it('rejects a stale revision with a DocumentConflictError', async () => {
+    stubFetch(() => new Response('Precondition Failed', { status: 412 }));
+    const store = new RestStore({ url: 'https://example.com/api/labels' });
+
+    await expect(store.save('a1', {}, { revision: '"r1"' })).rejects.toBeInstanceOf(DocumentConflictError);
+  });
+
+  it.each([413, 507])('reports %i as a StorageQuotaError', async status => {
+    stubFetch(() => new Response('Too large', { status }));
+    const store = new RestStore({ url: 'https://example.com/api/labels' });
+
+    const error = await store.create('Shipping', {}).catch(e => e);
+    expect(error).toBeInstanceOf(StorageQuotaError);
+    expect(error.cause).toBe('Too large');
+  });
+
+  it('reports other errors with the answer text', async () => {
+    stubFetch(() => new Response('', { status: 500, statusText: 'Internal Server Error' }));
+    const store = new RestStore({ url: 'https://example.com/api/labels' });
+
+    await expect(store.list()).rejects.toThrow('The label server answered 500: Internal Server Error');
+  });
+
+  it('rejects an answer that is not JSON', async () => {
+    stubFetch(() => new Response('<html>Login</html>', { headers: { 'Content-Type': 'text/html' } }));
+    const store = new RestStore({ url: 'https://example.com/api/labels' });
+
+    await expect(store.load('a1')).rejects.toThrow('The label server answered something other than JSON.');
+  });
+
+  it('rejects answers that are not labels', async () => {
+    stubFetch(json({ labels: [] }), json({ name: 'No id' }));
+    const store = new RestStore({ url: 'https://example.com/api/labels' });
+
+    await expect(store.list()).rejects.toThrow('something other than a list of labels');
+    await expect(store.load('a1')).rejects.toThrow('The label server answered a label without an id.');
+  });
+
+  it('gives up when the server does not answer in time', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init?: RequestInit) => new Promise((_resolve, reject) => {
+      init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+    })));
+    const store = new RestStore({ url: 'https://example.com/api/labels', timeout: 20 });
+
+    const error = await store.list().catch(e => e);
+    expect(error).toBeInstanceOf(DocumentStorageError);
+    expect(error.message).toBe("The label server at example.com can't be reached.");
+    expect(error.cause.name).toBe('TimeoutError');
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Define a document store on a server with a REST API
+ */
+
+import {
+  compareDocumentInfos,
+  DocumentConflictError,
+  DocumentStorageError,
+  StorageQuotaError,
+  type DocumentInfo,
+  type DocumentSaveOptions,
+  type DocumentStorage,
+  type StoredDocument,
+} from './documents.js';
+
+export interface RestStoreOptions {
+  /** Collection URL, e.g. https://example.com/api/labels. */
+  url: string;
+  /** Headers sent with every request, e.g. Authorization. */
+  headers?: Record<string, string>;
+  /** Milliseconds to wait for the server. */
+  timeout?: number;
+}
+
+/**
+ * Check that an answer is a JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a document info the server answered
+ * @param {Object} value info as the server sent it, other properties are left out
+ * @param {String} etag ETag of the answer, the revision when there is one
+ * @throws {DocumentStorageError} when it isn't a document info
+ */
+function readInfo(value: unknown, etag?: string): DocumentInfo {
+  if (!isObject(value) || (typeof value.id !== 'string' && typeof value.id !== 'number')) {
+    throw new DocumentStorageError('The label server answered a label without an id.');
+  }
+  const { id, name, created, modified, revision, thumbnail } = value;
+  return {
+    id: String(id),
+    name: typeof name === 'string' ? name : '',
+    created: typeof created === 'number' ? created : 0,
+    modified: typeof modified === 'number' ? modified : 0,
+    revision: etag ?? (typeof revision === 'string' || typeof revision === 'number' ? String(revision) : ''),
+    ...(typeof thumbnail === 'string' ? { thumbnail } : {}),
+  };
+}
+
+/**
+ * Keep documents on a server.
+ *
+ * GET url lists the document infos, GET url/id answers a document with its info and content and POST url
+ * creates one. PUT url/id replaces the content and PATCH url/id the name, these three answer the document info,
+ * and DELETE url/id deletes it. The revision is the ETag response header, or the revision property when there
+ * is none. Saves send it as If-Match, and the server answers 412 when the document has another revision.
+ * 413 and 507 mean the storage is full.
+ */
+export class RestStore implements DocumentStorage {
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly timeout: number;
+
+  constructor(options: RestStoreOptions) {
+    try {
+      this.url = new URL(options.url).href.replace(/\/$/, '');
+    } catch (e) {
+      throw new DocumentStorageError(`${options.url} is not a valid URL.`, { cause: e });
+    }
+    this.headers = options.headers ?? {};
+    this.timeout = options.timeout ?? 30000;
+  }
+
+  /**
+   * Send a request and read the JSON answer
+   * @param {String} path path after the collection URL, e.g. /id
+   * @param {Object} init method, body and headers
+   * @returns {Object} the answer and its ETag
+   */
+  private async request(path: string, init: RequestInit & { headers?: Record<string, string> } = {}) {
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}${path}`, {
+        ...init,
+        headers: { Accept: 'application/json', ...this.headers, ...init.headers },
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (e) {
+      throw new DocumentStorageError(`The label server at ${new URL(this.url).host} can't be reached.`, { cause: e });
+    }
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const detail = text.trim() === '' ? response.statusText : text.trim();
+      switch (response.status) {
+        case 412:
+          throw new DocumentConflictError();
+        case 413:
+        case 507:
+          throw new StorageQuotaError(undefined, { cause: detail });
+        default:
+          throw new DocumentStorageError(`The label server answered ${response.status}: ${detail}`);
+      }
+    }
+
+    const body: unknown = response.status === 204 ? undefined : await response.json().catch(e => {
+      throw new DocumentStorageError('The label server answered something other than JSON.', { cause: e });
+    });
+    return { body, etag: response.headers.get('ETag') ?? undefined };
+  }
+
+  private static json(value: unknown): RequestInit & { headers: Record<string, string> } {
+    return { body: JSON.stringify(value), headers: { 'Content-Type': 'application/json' } };
+  }
+
+  public async list() {
+    const { body } = await this.request('');
+    if (!Array.isArray(body)) {
+      throw new DocumentStorageError('The label server answered something other than a list of labels.');
+    }
+    return body.map(info => readInfo(info)).sort(compareDocumentInfos);
+  }
+
+  public async load(id: string): Promise<StoredDocument> {
+    const { body, etag } = await this.request(`/${encodeURIComponent(id)}`);
+    const document = isObject(body) && isObject(body.document) ? body.document : {};
+    return { ...readInfo(body, etag), document };
+  }
+
+  public async create(name: string, document: Record<string, unknown>, thumbnail?: string) {
+    const { body, etag } = await this.request('', { method: 'POST', ...RestStore.json({ name, document, thumbnail }) });
+    return readInfo(body, etag);
+  }
+
+  public async save(id: string, document: Record<string, unknown>, options: DocumentSaveOptions = {}) {
+    const init = RestStore.json({ document, thumbnail: options.thumbnail });
+    if (options.revision !== undefined) {
+      init.headers['If-Match'] = options.revision;
+    }
+    const { body, etag } = await this.request(`/${encodeURIComponent(id)}`, { method: 'PUT', ...init });
+    return readInfo(body, etag);
+  }
+
+  public async rename(id: string, name: string) {
+    const { body, etag } = await this.request(`/${encodeURIComponent(id)}`, { method: 'PATCH', ...RestStore.json({ name }) });
+    return readInfo(body, etag);
+  }
+
+  public async duplicate(id: string, name?: string) {
+    const { document, ...original } = await this.load(id);
+    return this.create(name ?? `${original.name} copy`, document, original.thumbnail);
+  }
+
+  public async delete(id: string) {
+    await this.request(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  }
+}
@@ -1,11 +1,13 @@
+export class ActionStack<T = any> {
+  public constructor(private readonly state: T[] = []) { }
 
-export class ActionStack {
-  public constructor(private readonly state: any[] = []) { }
-
-  public push(val: any) { this.state.push(val); }
+  public push(val: T) { this.state.push(val); }
 
   public pop() { return this.state.pop(); }
 
+  /** Drop the oldest value. */
+  public shift() { return this.state.shift(); }
+
   public isEmpty() { return this.state.length < 1; }
 
   public clear() { this.state.splice(0); }
@@ -17,54 +19,126 @@ export class ActionStack {
   public get length() { return this.state.length; }
 }
 
-export class UndoRedoStack {
-  undoStack: ActionStack;
-  redoStack: ActionStack;
-
-  public constructor(state: {
-    undoStack: ActionStack,
-    redoStack: ActionStack,
-  } = {
-    redoStack: new ActionStack(),
-    undoStack: new ActionStack(),
-  }) {
-    this.undoStack = state.undoStack;
-    this.redoStack = state.redoStack;
+/** How much history is kept, the oldest steps are dropped first. */
+export interface HistoryLimits {
+  /** Number of steps that can be undone. */
+  maxSteps: number;
+  /** Approximate memory of the undo and redo steps together, in bytes. */
+  maxBytes: number;
+}
+
+export const defaultHistoryLimits: HistoryLimits = {
+  maxSteps: 100,
+  maxBytes: 32 * 1024 * 1024,
+};
+
+/**
+ * Keep the steps that can be undone and redone, each step is a change rather than a state
+ */
+export class UndoRedoStack<T = any> {
+  undoStack: ActionStack<T>;
+  redoStack: ActionStack<T>;
+  private bytes = 0;
+
+  /**
+   * @param {Function} sizeOf approximate memory of a step in bytes
+   * @param {Object} limits maximum number of steps and bytes
+   */
+  public constructor(
+    private readonly sizeOf: (val: T) => number = () => 0,
+    private readonly limits: HistoryLimits = defaultHistoryLimits,
+  ) {
+    this.undoStack = new ActionStack<T>();
+    this.redoStack = new ActionStack<T>();
   }
 
-  public push(val: any) {
-    this.undoStack.push(val);
+  /**
+   * Add a step, the redo steps are dropped and so are the oldest steps over the limits
+   * @returns {Array} the oldest steps that were dropped, oldest first
+   */
+  public push(val: T) {
+    this.redoStack.getValues().forEach(op => { this.bytes -= this.sizeOf(op); });
     this.redoStack.clear();
+    this.undoStack.push(val);
+    this.bytes += this.sizeOf(val);
+
+    // the newest step is kept even when it is over the limit on its own
+    const dropped: T[] = [];
+    while (
+      this.undoStack.length > 1 &&
+      (this.undoStack.length > this.limits.maxSteps || this.bytes > this.limits.maxBytes)
+    ) {
+      const op = this.undoStack.shift()!;
+      this.bytes -= this.sizeOf(op);
+      dropped.push(op);
+    }
+    return dropped;
   }
 
+  /**
+   * Replace the last step, e.g. with one that merges it with a newer change
+   * @param {Object} val the new last step, the last step is only dropped when undefined
+   */
+  public replaceLatest(val?: T) {
+    const op = this.undoStack.pop();
+    if (op !== undefined) {
+      this.bytes -= this.sizeOf(op);
+    }
+    if (val !== undefined) {
+      this.undoStack.push(val);
+      this.bytes += this.sizeOf(val);
+    }
+  }
+
+  /**
+   * Move the last step to the redo stack
+   * @returns {Object} the step to revert, undefined when there is none
+   */
   public undo() {
-    // Undo holds our current state too, so it can't be emptied.
-    if (this.undoStack.length > 1) {
-      const op = this.undoStack.pop();
+    const op = this.undoStack.pop();
+    if (op !== undefined) {
       this.redoStack.push(op);
-      return this.undoStack.current();
     }
-    return undefined;
+    return op;
   }
 
+  /**
+   * Move the last undone step back to the undo stack
+   * @returns {Object} the step to apply again, undefined when there is none
+   */
   public redo() {
-    if (!this.redoStack.isEmpty()) {
-      const op = this.redoStack.pop();
+    const op = this.redoStack.pop();
+    if (op !== undefined) {
       this.undoStack.push(op);
-      return op;
     }
-    return undefined;
+    return op;
+  }
+
+  public canUndo() {
+    return !this.undoStack.isEmpty();
+  }
+
+  public canRedo() {
+    return !this.redoStack.isEmpty();
   }
 
   public clear() {
     this.undoStack.clear();
     this.redoStack.clear();
+    this.bytes = 0;
   }
 
   public latest() {
     return this.undoStack.current();
   }
 
+  /**
+   * Get the approximate memory of the kept steps in bytes
+   */
+  public getSize() {
+    return this.bytes;
+  }
+
   public getValues() {
     return {
       undo: this.undoStack.getValues(),